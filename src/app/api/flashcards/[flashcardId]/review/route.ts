@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { calculateNextReview, type Rating } from '@/lib/srs'
+
+type RouteContext = {
+  params: Promise<{ flashcardId: string }>
+}
+
+const RATINGS: Rating[] = ['AGAIN', 'HARD', 'GOOD', 'EASY']
+
+/**
+ * POST /api/flashcards/[flashcardId]/review
+ * Applies a rating through SM-2 and records a FlashcardReview
+ */
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { flashcardId } = await context.params
+    const body = await request.json()
+    const { rating, duration = 0 } = body as { rating: Rating; duration?: unknown }
+
+    if (!RATINGS.includes(rating)) {
+      return NextResponse.json(
+        { error: 'Rating must be one of AGAIN, HARD, GOOD, EASY' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof duration !== 'number' || !Number.isFinite(duration)) {
+      return NextResponse.json(
+        { error: 'Duration must be a number of seconds' },
+        { status: 400 }
+      )
+    }
+
+    const card = await prisma.flashcard.findUnique({
+      where: { id: flashcardId },
+    })
+
+    if (!card) {
+      return NextResponse.json(
+        { error: 'Flashcard not found' },
+        { status: 404 }
+      )
+    }
+
+    const next = calculateNextReview(card, rating)
+    const isCorrect = rating !== 'AGAIN'
+
+    const [flashcard] = await prisma.$transaction([
+      prisma.flashcard.update({
+        where: { id: flashcardId },
+        data: {
+          interval: next.interval,
+          easeFactor: next.easeFactor,
+          repetitions: next.repetitions,
+          nextReview: next.nextReview,
+          lastReviewed: new Date(),
+          timesCorrect: isCorrect ? { increment: 1 } : undefined,
+          timesWrong: isCorrect ? undefined : { increment: 1 },
+        },
+      }),
+      prisma.flashcardReview.create({
+        data: {
+          flashcardId,
+          rating,
+          duration: Math.max(0, Math.round(duration)),
+        },
+      }),
+    ])
+
+    return NextResponse.json(flashcard)
+  } catch (error) {
+    console.error('Error reviewing flashcard:', error)
+    return NextResponse.json(
+      { error: 'Failed to review flashcard' },
+      { status: 500 }
+    )
+  }
+}
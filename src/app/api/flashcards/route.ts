@@ -0,0 +1,72 @@
+/**
+ * Flashcards API
+ * GET /api/flashcards?lessonId=xxx|subjectId=xxx|programId=xxx&limit=n (1-200) - List cards due for review
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma, Prisma } from '@/lib/db'
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const lessonId = searchParams.get('lessonId')
+    const subjectId = searchParams.get('subjectId')
+    const programId = searchParams.get('programId')
+    const requested = parseInt(searchParams.get('limit') || '')
+    const limit = Number.isFinite(requested)
+      ? Math.min(Math.max(requested, 1), MAX_LIMIT)
+      : DEFAULT_LIMIT
+
+    // Scope: lesson > subject > program > everything
+    const where: Prisma.FlashcardWhereInput = {}
+    if (lessonId) {
+      where.lessonId = lessonId
+    } else if (subjectId) {
+      where.lesson = { subjectId }
+    } else if (programId) {
+      where.lesson = { subject: { programId } }
+    }
+
+    const now = new Date()
+
+    const [cards, dueCount, totalCount] = await Promise.all([
+      prisma.flashcard.findMany({
+        where: { ...where, nextReview: { lte: now } },
+        orderBy: { nextReview: 'asc' },
+        take: limit,
+        include: {
+          lesson: {
+            select: {
+              id: true,
+              title: true,
+              subject: {
+                select: {
+                  id: true,
+                  name: true,
+                  color: true,
+                },
+              },
+            },
+          },
+        },
+      }),
+      prisma.flashcard.count({ where: { ...where, nextReview: { lte: now } } }),
+      prisma.flashcard.count({ where }),
+    ])
+
+    return NextResponse.json({
+      cards,
+      dueCount,
+      totalCount,
+    })
+  } catch (error) {
+    console.error('Error fetching flashcards:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch flashcards' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { cancelJob } from '@/lib/jobs'
+
+type RouteContext = {
+  params: Promise<{ jobId: string }>
+}
+
+// POST - Cancel a PENDING or RUNNING job
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { jobId } = await context.params
+
+    const job = await cancelJob(jobId)
+
+    if (!job) {
+      const exists = await prisma.processingJob.findUnique({
+        where: { id: jobId },
+        select: { status: true },
+      })
+      if (!exists) {
+        return NextResponse.json(
+          { error: 'Job not found' },
+          { status: 404 }
+        )
+      }
+      return NextResponse.json(
+        { error: `Only PENDING or RUNNING jobs can be cancelled (job is ${exists.status})` },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(job)
+  } catch (error) {
+    console.error('Error cancelling job:', error)
+    return NextResponse.json(
+      { error: 'Failed to cancel job' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { retryJob } from '@/lib/jobs'
+
+type RouteContext = {
+  params: Promise<{ jobId: string }>
+}
+
+// POST - Requeue a FAILED or CANCELLED job
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { jobId } = await context.params
+
+    const job = await retryJob(jobId)
+
+    if (!job) {
+      const exists = await prisma.processingJob.findUnique({
+        where: { id: jobId },
+        select: { status: true },
+      })
+      if (!exists) {
+        return NextResponse.json(
+          { error: 'Job not found' },
+          { status: 404 }
+        )
+      }
+      return NextResponse.json(
+        { error: `Only FAILED or CANCELLED jobs can be retried (job is ${exists.status})` },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(job)
+  } catch (error) {
+    console.error('Error retrying job:', error)
+    return NextResponse.json(
+      { error: 'Failed to retry job' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Processing Jobs API
+ * GET /api/jobs?status=FAILED,RUNNING&type=OCR&lessonId=&subjectId=&limit= - List jobs
+ * GET /api/jobs/stream - Same list over Server-Sent Events
+ * POST /api/jobs/[jobId]/cancel - Cancel a pending or running job
+ * POST /api/jobs/[jobId]/retry - Requeue a failed or cancelled job
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { listJobs, parseJobFilter, jobFilterWhere } from '@/lib/jobs'
+
+// GET - List jobs with counts per status
+export async function GET(request: NextRequest) {
+  try {
+    const filter = parseJobFilter(request.nextUrl.searchParams)
+
+    const [jobs, counts] = await Promise.all([
+      listJobs(filter),
+      prisma.processingJob.groupBy({
+        by: ['status'],
+        where: jobFilterWhere(filter),
+        _count: true,
+      }),
+    ])
+
+    return NextResponse.json({
+      jobs,
+      counts: Object.fromEntries(counts.map(c => [c.status, c._count])),
+    })
+  } catch (error) {
+    console.error('Error fetching jobs:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch jobs' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Processing Jobs stream
+ * GET /api/jobs/stream?<same filters as /api/jobs> - Server-Sent Events
+ * Sends a `jobs` event whenever the filtered list changes
+ */
+
+import { NextRequest } from 'next/server'
+import { listJobs, parseJobFilter } from '@/lib/jobs'
+
+const POLL_INTERVAL_MS = 2000
+const HEARTBEAT_INTERVAL_MS = 15000
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  const filter = parseJobFilter(request.nextUrl.searchParams)
+  const encoder = new TextEncoder()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  // Set on client disconnect; a poll in flight must not write after it
+  let closed = false
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let lastPayload = ''
+      let lastSent = 0
+
+      const send = (chunk: string) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          // Stream already closed by the runtime
+          closed = true
+        }
+      }
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        clearTimeout(timer)
+        try {
+          controller.close()
+        } catch {
+          // Already cancelled
+        }
+      }
+
+      const tick = async () => {
+        if (closed) return
+        try {
+          const payload = JSON.stringify(await listJobs(filter))
+          if (closed) return
+
+          if (payload !== lastPayload) {
+            send(`event: jobs\ndata: ${payload}\n\n`)
+            lastPayload = payload
+            lastSent = Date.now()
+          } else if (Date.now() - lastSent > HEARTBEAT_INTERVAL_MS) {
+            // Comment line keeps proxies from closing an idle connection
+            send(': ping\n\n')
+            lastSent = Date.now()
+          }
+        } catch (error) {
+          if (closed) return
+          console.error('Error streaming jobs:', error)
+          send(`event: error\ndata: ${JSON.stringify({ error: 'Failed to fetch jobs' })}\n\n`)
+        }
+        if (!closed) timer = setTimeout(tick, POLL_INTERVAL_MS)
+      }
+
+      request.signal.addEventListener('abort', close)
+      tick()
+    },
+    cancel() {
+      closed = true
+      clearTimeout(timer)
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
@@ -2,29 +2,167 @@
  * Knowledge Chat API
  * POST /api/knowledge/chat
  *
- * Conversational AI that uses your knowledge base
+ * Conversational AI that uses your knowledge base.
+ * Answers cite the numbered sources inline ([n]); markers that match
+ * no retrieved chunk are dropped before the answer is returned.
+ *
+ * Body: { message, threadId?, scope? } - without a threadId a new thread is started.
+ * `scope` ({ programId, subjectId, lessonId, sourceTypes }) narrows retrieval.
+ * Both turns are stored in the thread; follow-up history comes from it.
+ *
+ * With `Accept: text/event-stream` the answer is streamed as SSE:
+ * `sources` (before the first token), `token`..., then `done` with the
+ * validated answer. A cancelled answer is not stored.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { searchKnowledge, buildContext } from '@/lib/knowledge'
-
-interface Message {
-  role: 'user' | 'assistant'
-  content: string
-  sources?: {
-    title: string
-    lessonId: string
-    similarity: number
-  }[]
+import {
+  searchKnowledge,
+  buildContext,
+  sourceLinks,
+  validateCitations,
+  parseScope,
+  SEARCH_PRESETS,
+  type KnowledgeScope,
+} from '@/lib/knowledge'
+import { streamComplete } from '@/lib/ai'
+import { sseResponse, wantsEventStream, type SSESend } from '@/lib/sse'
+import { renderPrompt, knowledgeChatPrompt } from '@/lib/prompts'
+import { prisma } from '@/lib/db'
+import {
+  getThreadHistory,
+  formatHistory,
+  appendExchange,
+  ensureThreadTitle,
+  type ChatAnswer,
+  type ChatSource,
+} from '@/lib/chat'
+
+interface StreamTarget {
+  send: SSESend
+  signal: AbortSignal
+}
+
+/**
+ * Store the exchange, starting the thread if this is its first message.
+ * Threads are only created here so a cancelled first answer leaves nothing behind.
+ */
+async function saveExchange(
+  threadId: string | null,
+  message: string,
+  answer: ChatAnswer,
+  scope: KnowledgeScope
+) {
+  const id = threadId ?? (await prisma.chatThread.create({ data: {} })).id
+  await appendExchange(id, message, answer, scope)
+  const title = await ensureThreadTitle(id, message, answer.content)
+  return { threadId: id, title }
+}
+
+/**
+ * Retrieve, answer and store one exchange; tokens go to `stream` if given
+ */
+async function answerMessage(
+  message: string,
+  threadId: string | null,
+  scope: KnowledgeScope,
+  stream?: StreamTarget
+) {
+  // Search knowledge base for relevant context
+  const searchResults = await searchKnowledge(message, {
+    ...scope,
+    ...SEARCH_PRESETS.chat,
+  })
+
+  if (searchResults.length === 0) {
+    const reply: ChatAnswer = {
+      content: 'No encontré información relevante en tu base de conocimiento sobre este tema.',
+      sources: [],
+      citations: [],
+    }
+    stream?.send('sources', { sources: [] })
+    const saved = await saveExchange(threadId, message, reply, scope)
+
+    return {
+      response: reply.content,
+      sources: [],
+      citations: [],
+      ...saved,
+    }
+  }
+
+  // Format sources for response; `n` is the number used in [n] markers
+  const links = await sourceLinks(searchResults)
+  const sources: ChatSource[] = searchResults.map((r, i) => ({
+    n: i + 1,
+    title: r.title || 'Sin título',
+    sourceType: r.sourceType,
+    sourceId: r.sourceId,
+    lessonId: r.lessonId,
+    headingPath: r.headingPath,
+    href: links[i],
+    similarity: r.similarity,
+    cited: false,
+    preview: r.content.slice(0, 150) + '...',
+  }))
+  stream?.send('sources', { sources })
+
+  // Build context from search results
+  const context = buildContext(searchResults)
+
+  // Conversation history for AI, read from the thread
+  const conversationHistory = threadId ? formatHistory(await getThreadHistory(threadId)) : ''
+
+  const { prompt: systemPrompt, promptVersion } = renderPrompt(knowledgeChatPrompt, {
+    context,
+    sourceCount: searchResults.length,
+    history: conversationHistory,
+  })
+
+  let answer = 'No pude generar una respuesta. Intenta de nuevo.'
+
+  let citations: number[] = []
+
+  try {
+    const text = await streamComplete(message, {
+      system: systemPrompt,
+      signal: stream?.signal,
+      onToken: token => stream?.send('token', { text: token }),
+    })
+    const check = validateCitations(text, searchResults.length)
+    if (check.invalid.length > 0) {
+      console.warn(`Chat answer cited unknown sources: ${check.invalid.join(', ')}`)
+    }
+    answer = check.text
+    citations = check.cited
+  } catch (error) {
+    if (stream?.signal.aborted) throw error
+    console.error('Chat AI error:', error)
+  }
+
+  for (const source of sources) {
+    source.cited = citations.includes(source.n)
+  }
+
+  const saved = await saveExchange(threadId, message, { content: answer, sources, citations, promptVersion }, scope)
+
+  return {
+    response: answer,
+    sources,
+    citations,
+    promptVersion,
+    ...saved,
+  }
 }
 
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json()
-    const { message, history = [] } = body as {
+    const { message, threadId: requestedThreadId } = body as {
       message: string
-      history: Message[]
+      threadId?: string
     }
+    const scope = parseScope(body.scope)
 
     if (!message || typeof message !== 'string') {
       return NextResponse.json(
@@ -33,75 +171,22 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    // Search knowledge base for relevant context
-    const searchResults = await searchKnowledge(message, {
-      limit: 5,
-      minSimilarity: 0.3,
-    })
-
-    if (searchResults.length === 0) {
-      return NextResponse.json({
-        response: 'No encontré información relevante en tu base de conocimiento sobre este tema.',
-        sources: [],
-      })
-    }
-
-    // Build context from search results
-    const context = buildContext(searchResults)
-
-    // Build conversation history for AI
-    const conversationHistory = history
-      .slice(-6) // Last 6 messages for context
-      .map(m => `${m.role === 'user' ? 'Usuario' : 'Asistente'}: ${m.content}`)
-      .join('\n\n')
-
-    // Call n8n webhook for AI response
-    const aiResponse = await fetch(
-      process.env.N8N_WEBHOOK_URL || 'http://localhost:5678/webhook/classmind-ai',
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          type: 'knowledge_chat',
-          message,
-          context,
-          conversationHistory,
-          systemPrompt: `Eres un asistente de estudio que SOLO responde usando la información proporcionada de los apuntes del usuario.
-
-REGLAS IMPORTANTES:
-1. SOLO usa la información del contexto proporcionado
-2. Si la información no está en el contexto, di "No tengo información sobre esto en tus apuntes"
-3. Responde en español
-4. Sé conciso pero completo
-5. Si el usuario hace una pregunta de seguimiento, usa el historial de conversación
-
-CONTEXTO DE LOS APUNTES:
-${context}
-
-${conversationHistory ? `HISTORIAL DE CONVERSACIÓN:\n${conversationHistory}` : ''}`,
-        }),
+    const threadId = requestedThreadId || null
+    if (threadId) {
+      const thread = await prisma.chatThread.findUnique({ where: { id: threadId }, select: { id: true } })
+      if (!thread) {
+        return NextResponse.json(
+          { error: 'Thread not found' },
+          { status: 404 }
+        )
       }
-    )
-
-    let answer = 'No pude generar una respuesta. Intenta de nuevo.'
+    }
 
-    if (aiResponse.ok) {
-      const aiData = await aiResponse.json()
-      answer = aiData.response || aiData.output || aiData.answer || answer
+    if (wantsEventStream(req)) {
+      return sseResponse(send => answerMessage(message, threadId, scope, { send, signal: req.signal }), req.signal)
     }
 
-    // Format sources for response
-    const sources = searchResults.map(r => ({
-      title: r.title || 'Sin título',
-      lessonId: r.lessonId,
-      similarity: r.similarity,
-      preview: r.content.slice(0, 150) + '...',
-    }))
-
-    return NextResponse.json({
-      response: answer,
-      sources,
-    })
+    return NextResponse.json(await answerMessage(message, threadId, scope))
   } catch (error) {
     console.error('Chat error:', error)
     return NextResponse.json(
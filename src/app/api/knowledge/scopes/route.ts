@@ -0,0 +1,36 @@
+/**
+ * Knowledge Scopes API
+ * GET /api/knowledge/scopes
+ *
+ * Programs, subjects and lessons for the search/chat scope selectors
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+
+export async function GET() {
+  try {
+    const [programs, subjects, lessons] = await Promise.all([
+      prisma.program.findMany({
+        orderBy: { order: 'asc' },
+        select: { id: true, name: true },
+      }),
+      prisma.subject.findMany({
+        orderBy: { order: 'asc' },
+        select: { id: true, name: true, programId: true },
+      }),
+      prisma.lesson.findMany({
+        orderBy: { order: 'asc' },
+        select: { id: true, title: true, subjectId: true },
+      }),
+    ])
+
+    return NextResponse.json({ programs, subjects, lessons })
+  } catch (error) {
+    console.error('Failed to fetch knowledge scopes:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch knowledge scopes' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,15 +1,35 @@
 /**
  * Knowledge Search API
  * POST /api/knowledge/search
+ *
+ * Body: { query, limit? (max 25), filters?: { programId, subjectId, lessonId, sourceTypes, minSimilarity }, includeAnswer? }
+ * The optional answer cites results by position ([1] = first result)
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { searchKnowledge, buildContext, getIndexStats } from '@/lib/knowledge'
+import {
+  searchKnowledge,
+  buildContext,
+  getIndexStats,
+  sourceLinks,
+  validateCitations,
+  parseScope,
+  SEARCH_PRESETS,
+} from '@/lib/knowledge'
+import { complete } from '@/lib/ai'
+import { renderPrompt, knowledgeSearchAnswerPrompt } from '@/lib/prompts'
+
+// Results per search; larger limits also widen the reranker's candidate pool
+const MAX_LIMIT = 25
 
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json()
-    const { query, limit = 10, filters = {}, includeAnswer = true } = body
+    const { query, filters = {}, includeAnswer = true } = body
+    const requested = Math.floor(Number(body.limit ?? SEARCH_PRESETS.search.limit))
+    const limit = Number.isFinite(requested)
+      ? Math.min(Math.max(requested, 1), MAX_LIMIT)
+      : SEARCH_PRESETS.search.limit
 
     if (!query || typeof query !== 'string') {
       return NextResponse.json(
@@ -21,58 +41,52 @@ export async function POST(req: NextRequest) {
     // Search knowledge base
     const results = await searchKnowledge(query, {
       limit,
-      sourceTypes: filters.sourceTypes,
-      subjectId: filters.subjectId,
-      lessonId: filters.lessonId,
-      programId: filters.programId,
-      minSimilarity: filters.minSimilarity || 0.5,
+      ...parseScope(filters),
+      minSimilarity: filters.minSimilarity || SEARCH_PRESETS.search.minSimilarity,
     })
 
     let answer = null
+    let citations: number[] = []
 
     // Generate AI answer if requested and results found
     if (includeAnswer && results.length > 0) {
-      const context = buildContext(results)
-
-      // Call n8n webhook for AI response
-      const aiResponse = await fetch(
-        process.env.N8N_WEBHOOK_URL || 'http://localhost:5678/webhook/classmind-ai',
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            type: 'knowledge_search',
-            query,
-            context,
-            sources: results.map((r, i) => ({
-              index: i + 1,
-              type: r.sourceType,
-              title: r.title,
-              lessonId: r.lessonId,
-              similarity: r.similarity,
-            })),
-          }),
-        }
-      )
+      const { prompt: system } = renderPrompt(knowledgeSearchAnswerPrompt, {
+        context: buildContext(results),
+        sourceCount: results.length,
+      })
 
-      if (aiResponse.ok) {
-        const aiData = await aiResponse.json()
-        answer = aiData.response || aiData.output || aiData.answer
+      try {
+        const check = validateCitations(
+          await complete(`PREGUNTA: ${query}`, { system }),
+          results.length
+        )
+        answer = check.text
+        citations = check.cited
+      } catch (error) {
+        console.error('Knowledge search AI error:', error)
       }
     }
 
+    const links = await sourceLinks(results)
+
     return NextResponse.json({
       query,
-      results: results.map(r => ({
+      results: results.map((r, i) => ({
+        n: i + 1,
         id: r.id,
         content: r.content.slice(0, 500) + (r.content.length > 500 ? '...' : ''),
         similarity: r.similarity,
+        scores: r.scores,
         sourceType: r.sourceType,
         lessonId: r.lessonId,
         subjectId: r.subjectId,
         title: r.title,
+        headingPath: r.headingPath,
+        href: links[i],
+        cited: citations.includes(i + 1),
       })),
       answer,
+      citations,
       totalResults: results.length,
     })
   } catch (error) {
@@ -0,0 +1,110 @@
+/**
+ * Chat Thread API
+ * GET /api/knowledge/threads/[threadId] - Thread with its messages and sources
+ * PATCH /api/knowledge/threads/[threadId] - Rename
+ * DELETE /api/knowledge/threads/[threadId] - Delete with its messages
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma, Prisma } from '@/lib/db'
+
+type RouteContext = {
+  params: Promise<{ threadId: string }>
+}
+
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { threadId } = await context.params
+
+    const thread = await prisma.chatThread.findUnique({
+      where: { id: threadId },
+      include: {
+        messages: {
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    })
+
+    if (!thread) {
+      return NextResponse.json(
+        { error: 'Thread not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ thread })
+  } catch (error) {
+    console.error('Failed to fetch thread:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch thread' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { threadId } = await context.params
+    const body = await request.json()
+    const title = typeof body.title === 'string' ? body.title.trim() : ''
+
+    if (!title) {
+      return NextResponse.json(
+        { error: 'Title is required' },
+        { status: 400 }
+      )
+    }
+
+    const thread = await prisma.chatThread.update({
+      where: { id: threadId },
+      data: { title },
+    })
+
+    return NextResponse.json({ thread })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      return NextResponse.json(
+        { error: 'Thread not found' },
+        { status: 404 }
+      )
+    }
+    console.error('Failed to rename thread:', error)
+    return NextResponse.json(
+      { error: 'Failed to rename thread' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { threadId } = await context.params
+
+    await prisma.chatThread.delete({
+      where: { id: threadId },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      return NextResponse.json(
+        { error: 'Thread not found' },
+        { status: 404 }
+      )
+    }
+    console.error('Failed to delete thread:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete thread' },
+      { status: 500 }
+    )
+  }
+}
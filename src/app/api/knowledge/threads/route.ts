@@ -0,0 +1,56 @@
+/**
+ * Chat Threads API
+ * GET /api/knowledge/threads - List threads, most recent first
+ * POST /api/knowledge/threads - Start an empty thread
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+
+// GET - List threads with their message count
+export async function GET() {
+  try {
+    const threads = await prisma.chatThread.findMany({
+      orderBy: { updatedAt: 'desc' },
+      include: {
+        _count: { select: { messages: true } },
+      },
+    })
+
+    return NextResponse.json({
+      threads: threads.map(t => ({
+        id: t.id,
+        title: t.title,
+        messageCount: t._count.messages,
+        createdAt: t.createdAt,
+        updatedAt: t.updatedAt,
+      })),
+    })
+  } catch (error) {
+    console.error('Failed to fetch threads:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch threads' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Create a thread (the chat API also creates one on the first message)
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}))
+    const title = typeof body.title === 'string' && body.title.trim() ? body.title.trim() : null
+
+    const thread = await prisma.chatThread.create({
+      data: { title },
+    })
+
+    return NextResponse.json({ thread })
+  } catch (error) {
+    console.error('Failed to create thread:', error)
+    return NextResponse.json(
+      { error: 'Failed to create thread' },
+      { status: 500 }
+    )
+  }
+}
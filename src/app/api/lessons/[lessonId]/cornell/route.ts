@@ -1,5 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { getTranscriptStaleness } from '@/lib/transcription'
+
+// Whether the transcript was corrected after the note was generated
+async function staleness(lessonId: string, noteId: string) {
+  const stale = await getTranscriptStaleness(lessonId)
+  return {
+    stale: stale.cornellNoteIds.includes(noteId),
+    transcriptEditedAt: stale.lastEditAt,
+  }
+}
 
 export async function GET(
   request: NextRequest,
@@ -27,8 +37,8 @@ export async function GET(
       return NextResponse.json({ error: 'Cornell notes not found' }, { status: 404 })
     }
 
-    return NextResponse.json({ content: shortNote.content })
+    return NextResponse.json({ content: shortNote.content, ...(await staleness(lessonId, shortNote.id)) })
   }
 
-  return NextResponse.json({ content: note.content })
+  return NextResponse.json({ content: note.content, ...(await staleness(lessonId, note.id)) })
 }
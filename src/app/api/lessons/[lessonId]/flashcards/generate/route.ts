@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { generateLessonFlashcards, FLASHCARD_SOURCES, type FlashcardSource } from '@/lib/flashcards'
+
+type RouteContext = {
+  params: Promise<{ lessonId: string }>
+}
+
+/**
+ * POST /api/lessons/[lessonId]/flashcards/generate
+ * Generates flashcards from the Cornell note, summary key points and transcript
+ */
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { lessonId } = await context.params
+    const body = await request.json().catch(() => ({}))
+    const requested = body.maxCards ?? 20
+
+    if (!Number.isInteger(requested) || requested < 1) {
+      return NextResponse.json(
+        { error: 'maxCards must be a positive integer' },
+        { status: 400 }
+      )
+    }
+    const maxCards = Math.min(requested, 50)
+
+    const sources: unknown = body.sources
+    if (
+      sources !== undefined &&
+      !(Array.isArray(sources) && sources.length > 0 &&
+        sources.every(s => FLASHCARD_SOURCES.includes(s)))
+    ) {
+      return NextResponse.json(
+        { error: `sources must be a list of: ${FLASHCARD_SOURCES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const lesson = await prisma.lesson.findUnique({
+      where: { id: lessonId },
+      select: { id: true },
+    })
+
+    if (!lesson) {
+      return NextResponse.json({ error: 'Lesson not found' }, { status: 404 })
+    }
+
+    const result = await generateLessonFlashcards(lessonId, {
+      maxCards,
+      sources: sources as FlashcardSource[] | undefined,
+    })
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    })
+  } catch (error) {
+    console.error('Error generating flashcards:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate flashcards' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,61 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-
-const N8N_WEBHOOK = 'http://localhost:5678/webhook/classmind-ai'
+import { generateQuiz } from '@/lib/ai'
+import { quizPrompt, templateVersion } from '@/lib/prompts'
 
 type RouteContext = {
   params: Promise<{ lessonId: string }>
 }
 
-interface GeneratedQuestion {
-  question: string
-  options: string[]
-  correct: string
-  explanation: string
-}
-
-async function generateQuestions(content: string, count: number): Promise<GeneratedQuestion[]> {
-  const prompt = `Eres un profesor universitario de nutrición. Genera ${count} preguntas de examen tipo test basadas en este contenido.
-
-FORMATO (JSON array):
-[
-  {
-    "question": "¿Pregunta aquí?",
-    "options": ["A) Opción 1", "B) Opción 2", "C) Opción 3", "D) Opción 4"],
-    "correct": "A) Opción 1",
-    "explanation": "Breve explicación de por qué es correcta"
-  }
-]
-
-REGLAS:
-- Solo 1 respuesta correcta
-- 4 opciones por pregunta
-- Preguntas claras y específicas
-- Opciones plausibles (no obvias)
-- Basadas SOLO en el contenido dado
-
-CONTENIDO:
-${content.slice(0, 8000)}
-
-Responde SOLO con el JSON array, sin texto adicional.`
-
-  const res = await fetch(N8N_WEBHOOK, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ prompt })
-  })
-
-  if (!res.ok) throw new Error('AI generation failed')
-
-  const data = await res.json()
-  const response = data.response?.trim() || ''
-
-  const jsonMatch = response.match(/\[[\s\S]*\]/)
-  if (!jsonMatch) throw new Error('Invalid AI response')
-
-  return JSON.parse(jsonMatch[0])
-}
-
 export async function POST(
   request: NextRequest,
   context: RouteContext
@@ -112,7 +63,7 @@ export async function POST(
     }
 
     // Generate questions
-    const questions = await generateQuestions(content, questionCount)
+    const questions = await generateQuiz(content, questionCount)
 
     if (questions.length === 0) {
       return NextResponse.json({ error: 'Failed to generate questions' }, { status: 500 })
@@ -136,7 +87,8 @@ export async function POST(
             options: q.options,
             correct: q.correct,
             explanation: q.explanation || '',
-            order: i
+            order: i,
+            promptVersion: templateVersion(quizPrompt)
           }))
         }
       }
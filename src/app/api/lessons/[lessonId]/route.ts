@@ -33,6 +33,7 @@ export async function GET(
                 text: true,
                 startTime: true,
                 endTime: true,
+                _count: { select: { revisions: true } },
               },
             },
           },
@@ -60,6 +61,9 @@ export async function GET(
           },
           orderBy: { generatedAt: 'desc' },
         },
+        _count: {
+          select: { flashcards: true },
+        },
       },
     })
 
@@ -0,0 +1,45 @@
+/**
+ * Transcript chunk corrections
+ *
+ * PATCH /api/lessons/[lessonId]/transcript/[chunkId]
+ *   - Body: { text, author? }
+ *   - Saves the new text as a revision; returns the chunk, the revision
+ *     (null if nothing changed) and what is now stale
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { reviseTranscriptChunk, getTranscriptStaleness, parseAuthor } from '@/lib/transcription'
+
+type RouteContext = {
+  params: Promise<{ lessonId: string; chunkId: string }>
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { lessonId, chunkId } = await context.params
+    const body = await request.json()
+
+    if (typeof body.text !== 'string' || !body.text.trim()) {
+      return NextResponse.json({ error: 'text is required' }, { status: 400 })
+    }
+
+    const chunk = await prisma.transcriptChunk.findFirst({
+      where: { id: chunkId, audioPart: { lessonId } },
+    })
+    if (!chunk) {
+      return NextResponse.json({ error: 'Transcript chunk not found' }, { status: 404 })
+    }
+
+    const revised = await reviseTranscriptChunk(chunk, body.text, parseAuthor(body.author))
+
+    return NextResponse.json({
+      chunk: revised?.chunk ?? chunk,
+      revision: revised?.revision ?? null,
+      stale: await getTranscriptStaleness(lessonId),
+    })
+  } catch (error) {
+    console.error('Failed to save transcript correction:', error)
+    return NextResponse.json({ error: 'Failed to save transcript correction' }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Undo a transcript correction
+ *
+ * POST /api/lessons/[lessonId]/transcript/revisions/[revisionId]/revert
+ *   - Body: { author? }
+ *   - Restores the text the revision replaced, recorded as a new revision
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { revertTranscriptRevision, getTranscriptStaleness, parseAuthor } from '@/lib/transcription'
+
+type RouteContext = {
+  params: Promise<{ lessonId: string; revisionId: string }>
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { lessonId, revisionId } = await context.params
+    const body = await request.json().catch(() => ({}))
+
+    const revision = await prisma.transcriptRevision.findFirst({
+      where: { id: revisionId, transcriptChunk: { audioPart: { lessonId } } },
+    })
+    if (!revision) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 })
+    }
+
+    const reverted = await revertTranscriptRevision(revision, parseAuthor(body.author))
+    if (!reverted) {
+      return NextResponse.json({ error: 'The chunk already has the text this revision replaced' }, { status: 409 })
+    }
+
+    return NextResponse.json({
+      chunk: reverted.chunk,
+      revision: reverted.revision,
+      stale: await getTranscriptStaleness(lessonId),
+    })
+  } catch (error) {
+    console.error('Failed to revert transcript revision:', error)
+    return NextResponse.json({ error: 'Failed to revert transcript revision' }, { status: 500 })
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Transcript correction history
+ *
+ * GET /api/lessons/[lessonId]/transcript/revisions?chunk=<chunkId>
+ *   - Revisions of the lesson's transcript (or one chunk), newest first,
+ *     and the derived content that is stale because of them
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { getTranscriptStaleness } from '@/lib/transcription'
+
+type RouteContext = {
+  params: Promise<{ lessonId: string }>
+}
+
+const MAX_REVISIONS = 200
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { lessonId } = await context.params
+    const chunkId = request.nextUrl.searchParams.get('chunk')
+
+    const [revisions, stale] = await Promise.all([
+      prisma.transcriptRevision.findMany({
+        where: {
+          transcriptChunk: { audioPart: { lessonId } },
+          ...(chunkId ? { transcriptChunkId: chunkId } : {}),
+        },
+        orderBy: { createdAt: 'desc' },
+        take: MAX_REVISIONS,
+        select: {
+          id: true,
+          transcriptChunkId: true,
+          diff: true,
+          author: true,
+          revertsId: true,
+          createdAt: true,
+        },
+      }),
+      getTranscriptStaleness(lessonId),
+    ])
+
+    return NextResponse.json({ revisions, stale })
+  } catch (error) {
+    console.error('Failed to fetch transcript revisions:', error)
+    return NextResponse.json({ error: 'Failed to fetch transcript revisions' }, { status: 500 })
+  }
+}
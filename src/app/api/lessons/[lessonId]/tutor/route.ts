@@ -1,7 +1,18 @@
+/**
+ * Lesson Tutor API
+ * GET /api/lessons/[lessonId]/tutor - Saved tutor questions
+ * POST /api/lessons/[lessonId]/tutor - Ask about the lesson (or a selected passage)
+ * DELETE /api/lessons/[lessonId]/tutor?id=xxx - Delete a saved question
+ *
+ * POST with `Accept: text/event-stream` streams the answer as SSE
+ * (`token`..., then `done` with the saved question); cancelled answers are not saved.
+ */
+
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-
-const N8N_WEBHOOK = 'http://localhost:5678/webhook/classmind-ai'
+import { streamComplete } from '@/lib/ai'
+import { renderPrompt, tutorPrompt } from '@/lib/prompts'
+import { sseResponse, wantsEventStream, type SSESend } from '@/lib/sse'
 
 // GET - Fetch saved tutor questions for a lesson
 export async function GET(
@@ -62,61 +73,38 @@ export async function POST(
     .map(c => c.text)
     .join(' ')
 
-  const lessonContext = `
-CONTENIDO DE LAS DIAPOSITIVAS:
-${slidesContent.slice(0, 5000)}
-
-TRANSCRIPCIÓN DEL PROFESOR:
-${transcriptContent.slice(0, 15000)}
-`.trim()
-
-  // Build the prompt
-  const prompt = `Eres un tutor de la asignatura "${lesson.title}".
-
-REGLAS ESTRICTAS:
-1. SOLO puedes responder usando la información del contenido de la lección que te proporciono abajo.
-2. NO uses conocimiento general o externo.
-3. Si la pregunta no puede responderse con el contenido de la lección, di: "Esta pregunta no está cubierta en el contenido de esta lección."
-4. Cita partes específicas del contenido cuando sea posible.
-5. Responde en español, de forma clara y educativa.
-
-${lessonContext}
-
----
-
-${selectedText ? `TEXTO SELECCIONADO POR EL ESTUDIANTE:
-"${selectedText}"
-
-` : ''}PREGUNTA DEL ESTUDIANTE:
-${question}
-
-RESPUESTA (basada ÚNICAMENTE en el contenido de la lección):`
+  const { prompt, promptVersion } = renderPrompt(tutorPrompt, {
+    lessonTitle: lesson.title,
+    slides: slidesContent,
+    transcript: transcriptContent,
+    selectedText,
+    question,
+  })
 
-  try {
-    const res = await fetch(N8N_WEBHOOK, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ prompt })
+  const answerQuestion = async (send?: SSESend) => {
+    const answer = await streamComplete(prompt, {
+      signal: request.signal,
+      onToken: text => send?.('token', { text })
     })
 
-    if (!res.ok) {
-      throw new Error('AI service error')
-    }
-
-    const data = await res.json()
-    const answer = data.response?.trim() || 'No se pudo generar una respuesta.'
-
     // Save to database
-    const tutorQuestion = await prisma.tutorQuestion.create({
+    return prisma.tutorQuestion.create({
       data: {
         lessonId,
         selectedText: selectedText || '',
         question,
-        answer
+        answer,
+        promptVersion
       }
     })
+  }
+
+  if (wantsEventStream(request)) {
+    return sseResponse(answerQuestion, request.signal)
+  }
 
-    return NextResponse.json(tutorQuestion)
+  try {
+    return NextResponse.json(await answerQuestion())
   } catch (error) {
     console.error('Tutor error:', error)
     return NextResponse.json(
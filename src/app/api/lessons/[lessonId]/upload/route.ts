@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { saveUploadedFile, moveToStorage } from '@/lib/storage'
+import { enqueueLessonPipeline } from '@/lib/jobs'
 import { writeFile, mkdir } from 'fs/promises'
 import { existsSync } from 'fs'
 import path from 'path'
@@ -42,7 +43,7 @@ export async function POST(
     }
 
     const results: {
-      audio?: { path: string; size: number }
+      audio?: { path: string; size: number; audioPartId: string }
       pdf?: { path: string; size: number; pageCount?: number }
     } = {}
 
@@ -61,7 +62,7 @@ export async function POST(
       await writeFile(audioPath, audioBuffer)
 
       // Create AudioPart record for this audio file
-      await prisma.audioPart.create({
+      const audioPart = await prisma.audioPart.create({
         data: {
           title: 'Audio Principal',
           order: 0,
@@ -72,7 +73,8 @@ export async function POST(
 
       results.audio = {
         path: audioPath,
-        size: audioBuffer.length
+        size: audioBuffer.length,
+        audioPartId: audioPart.id
       }
     }
 
@@ -98,32 +100,20 @@ export async function POST(
         size: pdfBuffer.length,
         pageCount
       }
-
-      // Create placeholder slides in DB
-      // (Actual extraction would happen in processing job)
-      for (let i = 0; i < pageCount; i++) {
-        await prisma.slide.create({
-          data: {
-            lessonId,
-            order: i,
-            imagePath: `${slidesDir}/slide_${String(i + 1).padStart(3, '0')}.png`,
-            ocrText: null // Will be filled during processing
-          }
-        })
-      }
     }
 
-    // Update lesson status to PENDING (ready for processing)
-    await prisma.lesson.update({
-      where: { id: lessonId },
-      data: { status: 'PENDING' }
+    // Slide extraction, OCR, transcription, matching and summary run in the worker
+    const jobs = await enqueueLessonPipeline(lessonId, {
+      pdfPath: results.pdf?.path,
+      audioPartIds: results.audio ? [results.audio.audioPartId] : [],
     })
 
     return NextResponse.json({
       success: true,
       lessonId,
       uploaded: results,
-      message: 'Files uploaded. Ready for processing.'
+      jobs: jobs.map(job => ({ id: job.id, type: job.type })),
+      message: 'Files uploaded. Processing queued.'
     })
   } catch (error) {
     console.error('Error uploading files:', error)
@@ -0,0 +1,34 @@
+/**
+ * Word-level transcript timing for a lesson's audio parts
+ *
+ * GET /api/lessons/[lessonId]/words?part=<audioPartId>
+ *   - Compact word data (lib/transcription/words.ts) per audio part;
+ *     parts transcribed without word timestamps are left out
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+
+type RouteContext = {
+  params: Promise<{ lessonId: string }>
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { lessonId } = await context.params
+    const part = request.nextUrl.searchParams.get('part')
+
+    const rows = await prisma.transcriptWords.findMany({
+      where: {
+        audioPart: { lessonId },
+        ...(part ? { audioPartId: part } : {}),
+      },
+      select: { audioPartId: true, data: true, wordCount: true },
+    })
+
+    return NextResponse.json({ parts: rows })
+  } catch (error) {
+    console.error('Failed to fetch transcript words:', error)
+    return NextResponse.json({ error: 'Failed to fetch transcript words' }, { status: 500 })
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Paper Indexing API
+ * POST /api/papers/[paperId]/index - Queue (re-)indexing into the knowledge base
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { enqueueJob } from '@/lib/jobs'
+
+type RouteContext = {
+  params: Promise<{ paperId: string }>
+}
+
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { paperId } = await context.params
+
+    const paper = await prisma.paper.findUnique({ where: { id: paperId }, select: { filePath: true } })
+    if (!paper) {
+      return NextResponse.json(
+        { error: 'Paper not found' },
+        { status: 404 }
+      )
+    }
+    if (!paper.filePath) {
+      return NextResponse.json(
+        { error: 'Paper has no PDF to index' },
+        { status: 400 }
+      )
+    }
+
+    const job = await enqueueJob('INDEX_PAPER', { inputData: { paperId } })
+
+    return NextResponse.json({ job: { id: job.id, type: job.type } })
+  } catch (error) {
+    console.error('Failed to queue paper indexing:', error)
+    return NextResponse.json(
+      { error: 'Failed to queue paper indexing' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Paper API
+ * GET /api/papers/[paperId] - Paper metadata
+ * PATCH /api/papers/[paperId] - Correct metadata (title, authors, year, abstract, doi, tags)
+ * DELETE /api/papers/[paperId] - Delete the paper, its PDF and its knowledge chunks
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { unlink } from 'fs/promises'
+import { prisma, Prisma } from '@/lib/db'
+import { enqueueJob } from '@/lib/jobs'
+import { deleteIndexedContent } from '@/lib/knowledge'
+import { serializePaper } from '@/lib/papers'
+import { getStorageFilePath } from '@/lib/storage'
+
+type RouteContext = {
+  params: Promise<{ paperId: string }>
+}
+
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { paperId } = await context.params
+
+    const paper = await prisma.paper.findUnique({ where: { id: paperId } })
+    if (!paper) {
+      return NextResponse.json(
+        { error: 'Paper not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ paper: serializePaper(paper) })
+  } catch (error) {
+    console.error('Failed to fetch paper:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch paper' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { paperId } = await context.params
+    const body = await request.json()
+
+    const data: Prisma.PaperUpdateInput = {}
+    if (typeof body.title === 'string' && body.title.trim()) data.title = body.title.trim()
+    for (const field of ['authors', 'abstract', 'doi'] as const) {
+      if (field in body) data[field] = typeof body[field] === 'string' && body[field].trim() ? body[field].trim() : null
+    }
+    if ('year' in body) data.year = Number.isInteger(body.year) ? body.year : null
+    if (Array.isArray(body.tags)) {
+      data.tags = body.tags.filter((t: unknown): t is string => typeof t === 'string' && t.trim().length > 0)
+    }
+
+    const paper = await prisma.paper.update({
+      where: { id: paperId },
+      data,
+    })
+
+    // Chunk titles carry the citation; re-indexing unchanged text only updates them
+    if (paper.isIndexed) {
+      await enqueueJob('INDEX_PAPER', { inputData: { paperId } })
+    }
+
+    return NextResponse.json({ paper: serializePaper(paper) })
+  } catch (error) {
+    console.error('Failed to update paper:', error)
+    return NextResponse.json(
+      { error: 'Failed to update paper' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { paperId } = await context.params
+
+    const paper = await prisma.paper.findUnique({ where: { id: paperId } })
+    if (!paper) {
+      return NextResponse.json(
+        { error: 'Paper not found' },
+        { status: 404 }
+      )
+    }
+
+    await deleteIndexedContent('paper', paperId)
+    await prisma.paper.delete({ where: { id: paperId } })
+    if (paper.filePath) {
+      await unlink(getStorageFilePath(paper.filePath)).catch(error => {
+        console.warn(`Could not delete ${paper.filePath}:`, error)
+      })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete paper:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete paper' },
+      { status: 500 }
+    )
+  }
+}
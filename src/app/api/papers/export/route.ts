@@ -0,0 +1,79 @@
+/**
+ * BibTeX Export API
+ * GET /api/papers/export - Download papers as a .bib file
+ *
+ * Query params (combinable):
+ * - q: text in the title, authors or abstract, or a tag
+ * - tag: papers with this tag
+ * - ids: comma-separated paper ids
+ * - savedId: the papers cited in a saved answer
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma, Prisma } from '@/lib/db'
+import { formatBibtex } from '@/lib/papers/references'
+
+interface SavedSource {
+  sourceType?: string
+  sourceId?: string
+  cited?: boolean
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const q = searchParams.get('q')?.trim()
+    const tag = searchParams.get('tag')?.trim()
+    const ids = searchParams.get('ids')?.split(',').map(id => id.trim()).filter(Boolean)
+    const savedId = searchParams.get('savedId')
+
+    const where: Prisma.PaperWhereInput[] = []
+
+    if (savedId) {
+      const saved = await prisma.savedQA.findUnique({ where: { id: savedId } })
+      if (!saved) {
+        return NextResponse.json(
+          { error: 'Saved Q&A not found' },
+          { status: 404 }
+        )
+      }
+
+      // Sources saved before `cited` existed count as cited
+      const sources = (Array.isArray(saved.sources) ? saved.sources : []) as SavedSource[]
+      const paperIds = sources
+        .filter(s => s.sourceType === 'paper' && s.sourceId && s.cited !== false)
+        .map(s => s.sourceId!)
+      where.push({ id: { in: paperIds } })
+    }
+    if (ids) where.push({ id: { in: ids } })
+    if (tag) where.push({ tags: { has: tag } })
+    if (q) {
+      where.push({
+        OR: [
+          { title: { contains: q, mode: 'insensitive' } },
+          { authors: { contains: q, mode: 'insensitive' } },
+          { abstract: { contains: q, mode: 'insensitive' } },
+          { tags: { has: q } },
+        ],
+      })
+    }
+
+    const papers = await prisma.paper.findMany({
+      where: { AND: where },
+      orderBy: [{ authors: 'asc' }, { year: 'asc' }],
+    })
+
+    return new NextResponse(papers.length > 0 ? formatBibtex(papers) : '', {
+      headers: {
+        'Content-Type': 'application/x-bibtex; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${savedId ? 'referencias-respuesta' : 'referencias'}.bib"`,
+      },
+    })
+  } catch (error) {
+    console.error('Failed to export papers:', error)
+    return NextResponse.json(
+      { error: 'Failed to export papers' },
+      { status: 500 }
+    )
+  }
+}
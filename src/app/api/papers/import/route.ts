@@ -0,0 +1,61 @@
+/**
+ * Reference Import API
+ * POST /api/papers/import - Import .bib or .ris files (multipart: one or more `file`, optional `tags`)
+ *
+ * Each entry becomes a Paper without a PDF, or is merged into the paper
+ * with the same DOI or title. Returns counts and the entries that failed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  detectReferenceFormat,
+  importReferences,
+  parseReferences,
+  type ImportReport,
+} from '@/lib/papers/references'
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const files = formData.getAll('file').filter((f): f is File => typeof f !== 'string')
+    const tagsValue = formData.get('tags')
+    const tags = (typeof tagsValue === 'string' ? tagsValue : '')
+      .split(',')
+      .map(t => t.trim())
+      .filter(Boolean)
+
+    if (files.length === 0) {
+      return NextResponse.json(
+        { error: 'A .bib or .ris file is required' },
+        { status: 400 }
+      )
+    }
+
+    const report: ImportReport = { created: 0, merged: 0, unchanged: 0, errors: [] }
+
+    for (const file of files) {
+      const text = await file.text()
+      const format = detectReferenceFormat(text, file.name)
+      if (!format) {
+        report.errors.push(`${file.name}: formato no reconocido (se admite BibTeX o RIS)`)
+        continue
+      }
+
+      const { entries, errors } = parseReferences(text, format)
+      const imported = await importReferences(entries, tags)
+
+      report.created += imported.created
+      report.merged += imported.merged
+      report.unchanged += imported.unchanged
+      report.errors.push(...[...errors, ...imported.errors].map(e => `${file.name}: ${e}`))
+    }
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Failed to import references:', error)
+    return NextResponse.json(
+      { error: 'Failed to import references' },
+      { status: 500 }
+    )
+  }
+}
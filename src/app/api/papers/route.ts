@@ -0,0 +1,135 @@
+/**
+ * Papers API
+ * GET /api/papers - List research papers
+ * POST /api/papers - Upload a PDF (multipart: file, and optional title, authors, year, tags)
+ *
+ * Metadata is read from the PDF (info dictionary, first page) unless given;
+ * chunking and embedding run in the worker as an INDEX_PAPER job. A PDF
+ * matching an imported reference (by DOI or title) is attached to it, and
+ * keeps that reference's metadata.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { enqueueJob } from '@/lib/jobs'
+import { savePaperFile } from '@/lib/storage'
+import { extractPdfText, guessPaperMetadata, serializePaper } from '@/lib/papers'
+import { findDuplicatePaper } from '@/lib/papers/references'
+
+// GET - All papers, newest first
+export async function GET() {
+  try {
+    const papers = await prisma.paper.findMany({
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return NextResponse.json({ papers: papers.map(serializePaper) })
+  } catch (error) {
+    console.error('Failed to fetch papers:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch papers' },
+      { status: 500 }
+    )
+  }
+}
+
+function formString(formData: FormData, key: string): string | null {
+  const value = formData.get(key)
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+// POST - Upload a paper and queue its indexing
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'A PDF file is required' },
+        { status: 400 }
+      )
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer())
+    if (buffer.subarray(0, 5).toString('latin1') !== '%PDF-') {
+      return NextResponse.json(
+        { error: 'File is not a PDF' },
+        { status: 400 }
+      )
+    }
+
+    let pdf
+    try {
+      pdf = await extractPdfText(buffer)
+    } catch (error) {
+      console.error('Failed to read PDF:', error)
+      return NextResponse.json(
+        { error: 'Could not read the PDF' },
+        { status: 422 }
+      )
+    }
+
+    const fullText = pdf.pages.join('\n\n')
+    const guessed = guessPaperMetadata(pdf, file.name)
+    const year = parseInt(formString(formData, 'year') || '')
+    const tags = (formString(formData, 'tags') || '')
+      .split(',')
+      .map(t => t.trim())
+      .filter(Boolean)
+
+    const title = formString(formData, 'title') || guessed.title
+    const duplicate = await findDuplicatePaper({ doi: guessed.doi, title })
+    if (duplicate?.filePath) {
+      return NextResponse.json(
+        { error: 'Paper already in the library', paper: serializePaper(duplicate) },
+        { status: 409 }
+      )
+    }
+
+    const filePath = await savePaperFile(buffer)
+
+    const paper = duplicate
+      ? await prisma.paper.update({
+          where: { id: duplicate.id },
+          data: {
+            abstract: duplicate.abstract ?? guessed.abstract,
+            doi: duplicate.doi ?? guessed.doi,
+            filePath,
+            tags: [...new Set([...duplicate.tags, ...tags])],
+            fullText,
+            pageCount: pdf.pages.length,
+          },
+        })
+      : await prisma.paper.create({
+          data: {
+            title,
+            authors: formString(formData, 'authors') || guessed.authors,
+            year: isNaN(year) ? guessed.year : year,
+            abstract: guessed.abstract,
+            doi: guessed.doi,
+            filePath,
+            tags,
+            fullText,
+            pageCount: pdf.pages.length,
+          },
+        })
+
+    // Scanned PDFs have no text layer to index
+    const job = fullText.trim()
+      ? await enqueueJob('INDEX_PAPER', { inputData: { paperId: paper.id } })
+      : null
+
+    return NextResponse.json({
+      paper: serializePaper(paper),
+      job: job && { id: job.id, type: job.type },
+      warning: job ? undefined : 'El PDF no tiene capa de texto (¿escaneado?); no se puede indexar',
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Failed to upload paper:', error)
+    return NextResponse.json(
+      { error: 'Failed to upload paper' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * One glossary term
+ *
+ * PATCH  /api/programs/[programId]/glossary/[termId]
+ *   - Body: { term?, variants?, category? }
+ * DELETE /api/programs/[programId]/glossary/[termId]
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma, Prisma } from '@/lib/db'
+
+type RouteContext = {
+  params: Promise<{ programId: string; termId: string }>
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { programId, termId } = await context.params
+    const body = await request.json()
+
+    const existing = await prisma.glossaryTerm.findFirst({ where: { id: termId, programId } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Glossary term not found' }, { status: 404 })
+    }
+
+    const data: Prisma.GlossaryTermUpdateInput = {}
+    if (typeof body.term === 'string') {
+      if (!body.term.trim()) {
+        return NextResponse.json({ error: 'term cannot be empty' }, { status: 400 })
+      }
+      data.term = body.term.trim()
+    }
+    if (Array.isArray(body.variants)) {
+      data.variants = [...new Set(
+        body.variants
+          .filter((v: unknown): v is string => typeof v === 'string')
+          .map((v: string) => v.trim())
+          .filter(Boolean)
+      )] as string[]
+    }
+    if (body.category !== undefined) {
+      data.category = typeof body.category === 'string' && body.category.trim() ? body.category.trim() : null
+    }
+
+    const term = await prisma.glossaryTerm.update({ where: { id: termId }, data })
+    return NextResponse.json(term)
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'That term is already in the glossary' }, { status: 409 })
+    }
+    console.error('Failed to update glossary term:', error)
+    return NextResponse.json({ error: 'Failed to update glossary term' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { programId, termId } = await context.params
+
+    const { count } = await prisma.glossaryTerm.deleteMany({ where: { id: termId, programId } })
+    if (count === 0) {
+      return NextResponse.json({ error: 'Glossary term not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete glossary term:', error)
+    return NextResponse.json({ error: 'Failed to delete glossary term' }, { status: 500 })
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Program glossary - canonical terms and their known mistranscriptions
+ *
+ * GET  /api/programs/[programId]/glossary
+ *   - Terms, alphabetically
+ * POST /api/programs/[programId]/glossary
+ *   - Body: { term, variants?, category? } to add one term, or
+ *     { text, category? } with lines "término: variante, variante";
+ *     variants of terms already in the glossary are merged
+ * POST /api/programs/[programId]/glossary?preview=1
+ *   - Body: { text } - the text with the glossary applied, and the changes
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { getGlossaryCorrector, correctText, parseGlossaryLines, type GlossaryEntry } from '@/lib/glossary'
+
+type RouteContext = {
+  params: Promise<{ programId: string }>
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === 'string').map(v => v.trim()).filter(Boolean)
+    : []
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { programId } = await context.params
+
+    const terms = await prisma.glossaryTerm.findMany({
+      where: { programId },
+      orderBy: { term: 'asc' },
+    })
+
+    return NextResponse.json(terms)
+  } catch (error) {
+    console.error('Failed to fetch glossary:', error)
+    return NextResponse.json({ error: 'Failed to fetch glossary' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { programId } = await context.params
+    const body = await request.json()
+
+    if (request.nextUrl.searchParams.get('preview')) {
+      if (typeof body.text !== 'string') {
+        return NextResponse.json({ error: 'text is required' }, { status: 400 })
+      }
+      const corrector = await getGlossaryCorrector(programId)
+      return NextResponse.json(corrector ? correctText(body.text, corrector) : { text: body.text, corrections: [] })
+    }
+
+    const program = await prisma.program.findUnique({ where: { id: programId }, select: { id: true } })
+    if (!program) {
+      return NextResponse.json({ error: 'Program not found' }, { status: 404 })
+    }
+
+    const entries: GlossaryEntry[] = typeof body.text === 'string'
+      ? parseGlossaryLines(body.text)
+      : typeof body.term === 'string' && body.term.trim()
+        ? [{ term: body.term.trim(), variants: stringList(body.variants) }]
+        : []
+    if (entries.length === 0) {
+      return NextResponse.json({ error: 'term or text is required' }, { status: 400 })
+    }
+    const category = typeof body.category === 'string' && body.category.trim() ? body.category.trim() : null
+
+    const existing = await prisma.glossaryTerm.findMany({
+      where: { programId, term: { in: entries.map(e => e.term) } },
+    })
+    const byTerm = new Map(existing.map(t => [t.term, t]))
+
+    const terms = []
+    for (const entry of entries) {
+      const current = byTerm.get(entry.term)
+      const variants = [...new Set([...(current?.variants || []), ...entry.variants])]
+        .filter(v => v !== entry.term)
+      const term = current
+        ? await prisma.glossaryTerm.update({
+            where: { id: current.id },
+            data: { variants, ...(category ? { category } : {}) },
+          })
+        : await prisma.glossaryTerm.create({
+            data: { programId, term: entry.term, variants, category },
+          })
+      byTerm.set(term.term, term)
+      terms.push(term)
+    }
+
+    return NextResponse.json(terms, { status: 201 })
+  } catch (error) {
+    console.error('Failed to save glossary terms:', error)
+    return NextResponse.json({ error: 'Failed to save glossary terms' }, { status: 500 })
+  }
+}
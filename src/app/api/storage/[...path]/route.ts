@@ -0,0 +1,133 @@
+/**
+ * Storage File API
+ * GET /api/storage/[...path] - Stream audio, slide and PDF files from storage
+ * HEAD /api/storage/[...path] - Same headers, no body
+ *
+ * Supports single byte ranges (206) so the audio player can seek,
+ * plus ETag/Last-Modified revalidation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createReadStream } from 'fs'
+import { stat } from 'fs/promises'
+import { Readable } from 'stream'
+import { resolveStoragePath, getMimeType } from '@/lib/storage'
+
+type RouteContext = {
+  params: Promise<{ path: string[] }>
+}
+
+interface ByteRange {
+  start: number
+  end: number
+}
+
+/**
+ * Parse a "bytes=start-end" header into an inclusive range.
+ * Returns null for unsatisfiable or multi-range requests.
+ */
+function parseRange(header: string, size: number): ByteRange | null {
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/)
+  if (!match || (!match[1] && !match[2])) return null
+
+  let start: number
+  let end: number
+
+  if (!match[1]) {
+    // Suffix range: last N bytes
+    const suffix = parseInt(match[2])
+    if (suffix === 0) return null
+    start = Math.max(0, size - suffix)
+    end = size - 1
+  } else {
+    start = parseInt(match[1])
+    end = match[2] ? Math.min(parseInt(match[2]), size - 1) : size - 1
+  }
+
+  if (start >= size || start > end) return null
+  return { start, end }
+}
+
+async function serveFile(request: NextRequest, context: RouteContext, includeBody: boolean) {
+  try {
+    const { path: segments } = await context.params
+    const filePath = resolveStoragePath(segments.join('/'))
+
+    if (!filePath) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const stats = await stat(filePath).catch(() => null)
+    if (!stats || !stats.isFile()) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 })
+    }
+
+    const etag = `W/"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`
+    const lastModified = stats.mtime.toUTCString()
+
+    const headers = new Headers({
+      'Content-Type': getMimeType(filePath),
+      'Accept-Ranges': 'bytes',
+      'ETag': etag,
+      'Last-Modified': lastModified,
+      'Cache-Control': 'public, max-age=0, must-revalidate',
+    })
+
+    // Conditional GET
+    const ifNoneMatch = request.headers.get('if-none-match')
+    const ifModifiedSince = request.headers.get('if-modified-since')
+    const notModified = ifNoneMatch
+      ? ifNoneMatch.split(',').some(tag => tag.trim() === etag || tag.trim() === '*')
+      : ifModifiedSince
+        ? Math.floor(stats.mtimeMs / 1000) <= Math.floor(new Date(ifModifiedSince).getTime() / 1000)
+        : false
+
+    if (notModified) {
+      return new NextResponse(null, { status: 304, headers })
+    }
+
+    // Range requests (ignored when If-Range no longer matches)
+    const rangeHeader = request.headers.get('range')
+    const ifRange = request.headers.get('if-range')
+    const rangeValid = !ifRange || ifRange === etag || ifRange === lastModified
+
+    let status = 200
+    let start = 0
+    let end = stats.size - 1
+
+    if (rangeHeader && rangeValid) {
+      const range = parseRange(rangeHeader, stats.size)
+      if (!range) {
+        headers.set('Content-Range', `bytes */${stats.size}`)
+        return new NextResponse(null, { status: 416, headers })
+      }
+      status = 206
+      start = range.start
+      end = range.end
+      headers.set('Content-Range', `bytes ${start}-${end}/${stats.size}`)
+    }
+
+    headers.set('Content-Length', String(stats.size === 0 ? 0 : end - start + 1))
+
+    if (!includeBody || stats.size === 0) {
+      return new NextResponse(null, { status, headers })
+    }
+
+    const stream = Readable.toWeb(createReadStream(filePath, { start, end })) as ReadableStream<Uint8Array>
+    return new NextResponse(stream, { status, headers })
+  } catch (error) {
+    console.error('Error serving file:', error)
+    return NextResponse.json(
+      { error: 'Failed to serve file' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  return serveFile(request, context, true)
+}
+
+export async function HEAD(request: NextRequest, context: RouteContext) {
+  return serveFile(request, context, false)
+}
@@ -1,13 +1,22 @@
 'use client'
 
-import { useState, useRef, useEffect } from 'react'
-import { Send, Loader2, BookOpen, Star, Copy, Check, ArrowLeft } from 'lucide-react'
+import { useState, useRef, useEffect, useCallback } from 'react'
+import { Send, Loader2, BookOpen, Star, Copy, Check, ArrowLeft, Plus, MessageSquare, Pencil, Trash2, Square, SlidersHorizontal } from 'lucide-react'
 import Link from 'next/link'
+import { CitedText } from '@/components/CitedText'
+import { ScopeFilter, isScoped } from '@/components/ScopeFilter'
+import { readEventStream } from '@/lib/sse'
+import type { KnowledgeScope } from '@/lib/knowledge'
 
 interface Source {
+  // Number used by the [n] markers in the answer
+  n?: number
   title: string
   lessonId: string | null
+  headingPath?: string[]
+  href?: string | null
   similarity: number
+  cited?: boolean
   preview: string
 }
 
@@ -17,39 +26,101 @@ interface Message {
   content: string
   sources?: Source[]
   saved?: boolean
+  // Still receiving tokens
+  streaming?: boolean
+  // Stopped by the user; not stored in the thread
+  cancelled?: boolean
   timestamp: Date
 }
 
+interface ThreadSummary {
+  id: string
+  title: string | null
+  messageCount: number
+  updatedAt: string
+}
+
+interface StoredMessage {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  sources: Source[]
+  createdAt: string
+}
+
+// The open thread is kept in the URL so it survives reloads
+function setThreadParam(threadId: string | null) {
+  const url = new URL(window.location.href)
+  if (threadId) url.searchParams.set('thread', threadId)
+  else url.searchParams.delete('thread')
+  window.history.replaceState(null, '', url)
+}
+
+// Sources the answer cites; answers without markers list the top 3
+function citedSources(sources: Source[]) {
+  const numbered = sources.map((s, i) => ({ ...s, n: s.n ?? i + 1 }))
+  const cited = numbered.filter(s => s.cited)
+  return cited.length > 0 ? cited : numbered.slice(0, 3)
+}
+
 export default function AskPage() {
   const [messages, setMessages] = useState<Message[]>([])
+  const [threads, setThreads] = useState<ThreadSummary[]>([])
+  const [threadId, setThreadId] = useState<string | null>(null)
+  const [isLoadingThread, setIsLoadingThread] = useState(false)
+  // Where questions are searched; kept per thread
+  const [scope, setScope] = useState<KnowledgeScope>({})
+  const [showScope, setShowScope] = useState(false)
   const [input, setInput] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [copiedId, setCopiedId] = useState<string | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLTextAreaElement>(null)
+  // Cancels the answer being streamed
+  const abortRef = useRef<AbortController | null>(null)
 
-  // Load history from localStorage on mount
-  useEffect(() => {
-    const saved = localStorage.getItem('classmind-chat-history')
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved)
-        setMessages(parsed.map((m: Message) => ({
-          ...m,
-          timestamp: new Date(m.timestamp)
-        })))
-      } catch (e) {
-        console.error('Failed to parse chat history')
+  const fetchThreads = useCallback(async () => {
+    try {
+      const res = await fetch('/api/knowledge/threads')
+      const data = await res.json()
+      setThreads(data.threads || [])
+    } catch (error) {
+      console.error('Failed to fetch threads:', error)
+    }
+  }, [])
+
+  const openThread = useCallback(async (id: string) => {
+    abortRef.current?.abort()
+    setIsLoadingThread(true)
+    try {
+      const res = await fetch(`/api/knowledge/threads/${id}`)
+      if (!res.ok) {
+        setThreadParam(null)
+        return
       }
+      const data = await res.json()
+      setThreadId(id)
+      setScope(data.thread.scope || {})
+      setThreadParam(id)
+      setMessages(data.thread.messages.map((m: StoredMessage) => ({
+        id: m.id,
+        role: m.role,
+        content: m.content,
+        sources: m.role === 'assistant' ? m.sources : undefined,
+        timestamp: new Date(m.createdAt),
+      })))
+    } catch (error) {
+      console.error('Failed to open thread:', error)
+    } finally {
+      setIsLoadingThread(false)
     }
   }, [])
 
-  // Save to localStorage on change
+  // Thread list, and the thread from the URL if there is one
   useEffect(() => {
-    if (messages.length > 0) {
-      localStorage.setItem('classmind-chat-history', JSON.stringify(messages))
-    }
-  }, [messages])
+    const id = new URLSearchParams(window.location.search).get('thread')
+    void Promise.all([fetchThreads(), id ? openThread(id) : null])
+  }, [fetchThreads, openThread])
 
   // Scroll to bottom on new messages
   useEffect(() => {
@@ -66,48 +137,86 @@ export default function AskPage() {
       timestamp: new Date(),
     }
 
-    setMessages(prev => [...prev, userMessage])
+    // Filled in as the answer streams
+    const assistantId = crypto.randomUUID()
+    const updateAssistant = (update: (m: Message) => Message) =>
+      setMessages(prev => prev.map(m => m.id === assistantId ? update(m) : m))
+
+    setMessages(prev => [...prev, userMessage, {
+      id: assistantId,
+      role: 'assistant',
+      content: '',
+      streaming: true,
+      timestamp: new Date(),
+    }])
     setInput('')
     setIsLoading(true)
 
+    const controller = new AbortController()
+    abortRef.current = controller
+
     try {
       const res = await fetch('/api/knowledge/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
         body: JSON.stringify({
           message: userMessage.content,
-          history: messages.map(m => ({
-            role: m.role,
-            content: m.content,
-          })),
+          threadId,
+          scope,
         }),
+        signal: controller.signal,
       })
 
-      const data = await res.json()
+      if (!res.ok) throw new Error((await res.json()).error)
 
-      const assistantMessage: Message = {
-        id: crypto.randomUUID(),
-        role: 'assistant',
-        content: data.response || 'No pude generar una respuesta.',
-        sources: data.sources,
-        timestamp: new Date(),
+      for await (const { event, data } of readEventStream(res)) {
+        if (event === 'sources') {
+          const { sources } = data as { sources: Source[] }
+          updateAssistant(m => ({ ...m, sources }))
+        } else if (event === 'token') {
+          const { text } = data as { text: string }
+          updateAssistant(m => ({ ...m, content: m.content + text }))
+        } else if (event === 'done') {
+          const done = data as { response: string; sources: Source[]; threadId: string }
+          // The final text has invalid citation markers removed
+          updateAssistant(m => ({
+            ...m,
+            content: done.response || 'No pude generar una respuesta.',
+            sources: done.sources,
+            streaming: false,
+          }))
+          if (done.threadId !== threadId) {
+            setThreadId(done.threadId)
+            setThreadParam(done.threadId)
+          }
+          fetchThreads()
+        } else if (event === 'error') {
+          throw new Error((data as { error: string }).error)
+        }
       }
-
-      setMessages(prev => [...prev, assistantMessage])
     } catch (error) {
-      console.error('Chat error:', error)
-      setMessages(prev => [...prev, {
-        id: crypto.randomUUID(),
-        role: 'assistant',
-        content: 'Error al procesar tu pregunta. Intenta de nuevo.',
-        timestamp: new Date(),
-      }])
+      if (controller.signal.aborted) {
+        updateAssistant(m => ({ ...m, streaming: false, cancelled: true }))
+      } else {
+        console.error('Chat error:', error)
+        updateAssistant(m => ({
+          ...m,
+          content: 'Error al procesar tu pregunta. Intenta de nuevo.',
+          sources: undefined,
+          streaming: false,
+        }))
+      }
     } finally {
+      if (abortRef.current === controller) abortRef.current = null
       setIsLoading(false)
       inputRef.current?.focus()
     }
   }
 
+  const stopAnswer = () => {
+    abortRef.current?.abort()
+  }
+
   const copyToClipboard = async (text: string, id: string) => {
     await navigator.clipboard.writeText(text)
     setCopiedId(id)
@@ -135,10 +244,40 @@ export default function AskPage() {
     }
   }
 
-  const clearHistory = () => {
-    if (confirm('¿Borrar todo el historial de esta sesión?')) {
-      setMessages([])
-      localStorage.removeItem('classmind-chat-history')
+  const newThread = () => {
+    abortRef.current?.abort()
+    setThreadId(null)
+    setThreadParam(null)
+    setMessages([])
+    setScope({})
+    inputRef.current?.focus()
+  }
+
+  const renameThread = async (thread: ThreadSummary) => {
+    const title = prompt('Nuevo título de la conversación:', thread.title || '')?.trim()
+    if (!title) return
+
+    try {
+      await fetch(`/api/knowledge/threads/${thread.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title }),
+      })
+      setThreads(prev => prev.map(t => t.id === thread.id ? { ...t, title } : t))
+    } catch (error) {
+      console.error('Failed to rename thread:', error)
+    }
+  }
+
+  const deleteThread = async (thread: ThreadSummary) => {
+    if (!confirm(`¿Borrar la conversación "${thread.title || 'Sin título'}"?`)) return
+
+    try {
+      await fetch(`/api/knowledge/threads/${thread.id}`, { method: 'DELETE' })
+      setThreads(prev => prev.filter(t => t.id !== thread.id))
+      if (thread.id === threadId) newThread()
+    } catch (error) {
+      console.error('Failed to delete thread:', error)
     }
   }
 
@@ -150,7 +289,7 @@ export default function AskPage() {
   }
 
   return (
-    <div className="min-h-screen bg-zinc-50 dark:bg-zinc-950 flex flex-col">
+    <div className="h-screen bg-zinc-50 dark:bg-zinc-950 flex flex-col">
       {/* Header */}
       <header className="border-b border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 px-4 py-3">
         <div className="max-w-3xl mx-auto flex items-center justify-between">
@@ -177,165 +316,261 @@ export default function AskPage() {
             >
               Guardados
             </Link>
-            {messages.length > 0 && (
-              <button
-                onClick={clearHistory}
-                className="text-sm px-3 py-1.5 text-zinc-500 hover:text-red-600"
-              >
-                Limpiar
-              </button>
-            )}
+            <Link
+              href="/papers"
+              className="text-sm px-3 py-1.5 text-zinc-600 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-white"
+            >
+              Artículos
+            </Link>
+            <button
+              onClick={newThread}
+              className="text-sm px-3 py-1.5 text-zinc-500 hover:text-zinc-900 dark:hover:text-white md:hidden"
+            >
+              Nueva
+            </button>
           </div>
         </div>
       </header>
 
-      {/* Messages */}
-      <main className="flex-1 overflow-y-auto">
-        <div className="max-w-3xl mx-auto px-4 py-6">
-          {messages.length === 0 ? (
-            <div className="text-center py-20">
-              <div className="w-16 h-16 bg-blue-100 dark:bg-blue-900/30 rounded-full flex items-center justify-center mx-auto mb-4">
-                <BookOpen className="w-8 h-8 text-blue-600 dark:text-blue-400" />
-              </div>
-              <h2 className="text-xl font-medium text-zinc-900 dark:text-white mb-2">
-                ¿Qué quieres saber?
-              </h2>
-              <p className="text-zinc-500 mb-6">
-                Pregunta cualquier cosa sobre tus apuntes de nutrición y entrenamiento
+      <div className="flex-1 flex min-h-0">
+        {/* Threads */}
+        <aside className="hidden md:flex w-64 flex-col border-r border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900">
+          <div className="p-3">
+            <button
+              onClick={newThread}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Nueva conversación
+            </button>
+          </div>
+          <nav className="flex-1 overflow-y-auto px-2 pb-3 space-y-1">
+            {threads.length === 0 && (
+              <p className="px-2 py-4 text-xs text-zinc-400 text-center">
+                Aún no hay conversaciones
               </p>
-              <div className="flex flex-wrap justify-center gap-2">
-                {[
-                  '¿Qué es la hipertrofia muscular?',
-                  '¿Cuánta proteína en déficit?',
-                  'Explica el sistema nervioso',
-                ].map((suggestion) => (
-                  <button
-                    key={suggestion}
-                    onClick={() => setInput(suggestion)}
-                    className="px-3 py-1.5 text-sm bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 rounded-full hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors"
-                  >
-                    {suggestion}
-                  </button>
-                ))}
-              </div>
-            </div>
-          ) : (
-            <div className="space-y-6">
-              {messages.map((msg, idx) => (
-                <div
-                  key={msg.id}
-                  className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
+            )}
+            {threads.map(thread => (
+              <div
+                key={thread.id}
+                className={`group flex items-center gap-2 px-2 py-2 rounded-lg cursor-pointer text-sm ${
+                  thread.id === threadId
+                    ? 'bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+                    : 'text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800'
+                }`}
+                onClick={() => openThread(thread.id)}
+              >
+                <MessageSquare className="w-4 h-4 flex-shrink-0 opacity-60" />
+                <div className="flex-1 min-w-0">
+                  <p className="truncate">{thread.title || 'Sin título'}</p>
+                  <p className="text-xs text-zinc-400">
+                    {new Date(thread.updatedAt).toLocaleDateString('es-ES', { day: 'numeric', month: 'short' })}
+                    {' · '}{Math.ceil(thread.messageCount / 2)} preguntas
+                  </p>
+                </div>
+                <button
+                  onClick={(e) => { e.stopPropagation(); renameThread(thread) }}
+                  className="p-1 opacity-0 group-hover:opacity-100 text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200"
+                  title="Renombrar"
                 >
-                  <div
-                    className={`max-w-[85%] ${
-                      msg.role === 'user'
-                        ? 'bg-blue-600 text-white rounded-2xl rounded-br-md px-4 py-2'
-                        : 'bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-2xl rounded-bl-md px-4 py-3'
-                    }`}
-                  >
-                    <p className="whitespace-pre-wrap">{msg.content}</p>
-
-                    {/* Sources */}
-                    {msg.sources && msg.sources.length > 0 && (
-                      <div className="mt-3 pt-3 border-t border-zinc-200 dark:border-zinc-700">
-                        <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-2">
-                          📚 Fuentes:
-                        </p>
-                        <div className="space-y-1">
-                          {msg.sources.slice(0, 3).map((source, i) => (
-                            <Link
-                              key={i}
-                              href={source.lessonId ? `/lessons/${source.lessonId}/cornell` : '#'}
-                              className="block text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                  <Pencil className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); deleteThread(thread) }}
+                  className="p-1 opacity-0 group-hover:opacity-100 text-zinc-400 hover:text-red-600"
+                  title="Borrar"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </nav>
+        </aside>
+
+        <div className="flex-1 flex flex-col min-w-0">
+          {/* Messages */}
+          <main className="flex-1 overflow-y-auto">
+            <div className="max-w-3xl mx-auto px-4 py-6">
+              {isLoadingThread ? (
+                <div className="flex justify-center py-20">
+                  <Loader2 className="w-6 h-6 animate-spin text-zinc-400" />
+                </div>
+              ) : messages.length === 0 ? (
+                <div className="text-center py-20">
+                  <div className="w-16 h-16 bg-blue-100 dark:bg-blue-900/30 rounded-full flex items-center justify-center mx-auto mb-4">
+                    <BookOpen className="w-8 h-8 text-blue-600 dark:text-blue-400" />
+                  </div>
+                  <h2 className="text-xl font-medium text-zinc-900 dark:text-white mb-2">
+                    ¿Qué quieres saber?
+                  </h2>
+                  <p className="text-zinc-500 mb-6">
+                    Pregunta cualquier cosa sobre tus apuntes de nutrición y entrenamiento
+                  </p>
+                  <div className="flex flex-wrap justify-center gap-2">
+                    {[
+                      '¿Qué es la hipertrofia muscular?',
+                      '¿Cuánta proteína en déficit?',
+                      'Explica el sistema nervioso',
+                    ].map((suggestion) => (
+                      <button
+                        key={suggestion}
+                        onClick={() => setInput(suggestion)}
+                        className="px-3 py-1.5 text-sm bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 rounded-full hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors"
+                      >
+                        {suggestion}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-6">
+                  {messages.map((msg, idx) => (
+                    <div
+                      key={msg.id}
+                      className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                    >
+                      <div
+                        className={`max-w-[85%] ${
+                          msg.role === 'user'
+                            ? 'bg-blue-600 text-white rounded-2xl rounded-br-md px-4 py-2'
+                            : 'bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-2xl rounded-bl-md px-4 py-3'
+                        }`}
+                      >
+                        {msg.streaming && !msg.content ? (
+                          <Loader2 className="w-5 h-5 animate-spin text-zinc-400" />
+                        ) : msg.role === 'assistant' && msg.sources ? (
+                          <CitedText text={msg.content} sources={msg.sources} className="whitespace-pre-wrap" />
+                        ) : (
+                          <p className="whitespace-pre-wrap">{msg.content}</p>
+                        )}
+
+                        {msg.cancelled && (
+                          <p className="mt-2 text-xs text-zinc-400 italic">
+                            Respuesta cancelada (no se guarda en la conversación)
+                          </p>
+                        )}
+
+                        {/* Sources */}
+                        {msg.sources && msg.sources.length > 0 && (
+                          <div className="mt-3 pt-3 border-t border-zinc-200 dark:border-zinc-700">
+                            <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-2">
+                              📚 Fuentes:
+                            </p>
+                            <div className="space-y-1">
+                              {citedSources(msg.sources).map(source => (
+                                <Link
+                                  key={source.n}
+                                  href={source.href || (source.lessonId ? `/lessons/${source.lessonId}/cornell` : '#')}
+                                  className="block text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                                >
+                                  [{source.n}] {[source.title, ...(source.headingPath || [])].join(' › ')} ({Math.round(source.similarity * 100)}%)
+                                </Link>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+
+                        {/* Actions for assistant messages */}
+                        {msg.role === 'assistant' && !msg.streaming && !msg.cancelled && (
+                          <div className="mt-3 flex items-center gap-2">
+                            <button
+                              onClick={() => copyToClipboard(msg.content, msg.id)}
+                              className="text-xs text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 flex items-center gap-1"
                             >
-                              {source.title} ({Math.round(source.similarity * 100)}%)
-                            </Link>
-                          ))}
-                        </div>
-                      </div>
-                    )}
-
-                    {/* Actions for assistant messages */}
-                    {msg.role === 'assistant' && (
-                      <div className="mt-3 flex items-center gap-2">
-                        <button
-                          onClick={() => copyToClipboard(msg.content, msg.id)}
-                          className="text-xs text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 flex items-center gap-1"
-                        >
-                          {copiedId === msg.id ? (
-                            <>
-                              <Check className="w-3 h-3" />
-                              Copiado
-                            </>
-                          ) : (
-                            <>
-                              <Copy className="w-3 h-3" />
-                              Copiar
-                            </>
-                          )}
-                        </button>
-
-                        {idx > 0 && messages[idx - 1]?.role === 'user' && (
-                          <button
-                            onClick={() => saveQA(messages[idx - 1], msg)}
-                            disabled={msg.saved}
-                            className={`text-xs flex items-center gap-1 ${
-                              msg.saved
-                                ? 'text-yellow-500'
-                                : 'text-zinc-400 hover:text-yellow-500'
-                            }`}
-                          >
-                            <Star className={`w-3 h-3 ${msg.saved ? 'fill-current' : ''}`} />
-                            {msg.saved ? 'Guardado' : 'Guardar'}
-                          </button>
+                              {copiedId === msg.id ? (
+                                <>
+                                  <Check className="w-3 h-3" />
+                                  Copiado
+                                </>
+                              ) : (
+                                <>
+                                  <Copy className="w-3 h-3" />
+                                  Copiar
+                                </>
+                              )}
+                            </button>
+
+                            {idx > 0 && messages[idx - 1]?.role === 'user' && (
+                              <button
+                                onClick={() => saveQA(messages[idx - 1], msg)}
+                                disabled={msg.saved}
+                                className={`text-xs flex items-center gap-1 ${
+                                  msg.saved
+                                    ? 'text-yellow-500'
+                                    : 'text-zinc-400 hover:text-yellow-500'
+                                }`}
+                              >
+                                <Star className={`w-3 h-3 ${msg.saved ? 'fill-current' : ''}`} />
+                                {msg.saved ? 'Guardado' : 'Guardar'}
+                              </button>
+                            )}
+                          </div>
                         )}
                       </div>
-                    )}
-                  </div>
-                </div>
-              ))}
+                    </div>
+                  ))}
 
-              {isLoading && (
-                <div className="flex justify-start">
-                  <div className="bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-2xl rounded-bl-md px-4 py-3">
-                    <Loader2 className="w-5 h-5 animate-spin text-zinc-400" />
-                  </div>
+                  <div ref={messagesEndRef} />
                 </div>
               )}
+            </div>
+          </main>
 
-              <div ref={messagesEndRef} />
+          {/* Input */}
+          <footer className="border-t border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 px-4 py-3">
+            <div className="max-w-3xl mx-auto">
+              {showScope && (
+                <ScopeFilter value={scope} onChange={setScope} className="mb-3" />
+              )}
+              <div className="flex items-end gap-2 bg-zinc-100 dark:bg-zinc-800 rounded-xl px-3 py-2">
+                <button
+                  onClick={() => setShowScope(v => !v)}
+                  title="Filtrar por programa, asignatura, clase o tipo de fuente"
+                  className={`p-2 rounded-lg transition-colors ${
+                    isScoped(scope)
+                      ? 'text-blue-600 bg-blue-100 dark:bg-blue-900/40'
+                      : 'text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300'
+                  }`}
+                >
+                  <SlidersHorizontal className="w-4 h-4" />
+                </button>
+                <textarea
+                  ref={inputRef}
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  placeholder="Escribe tu pregunta..."
+                  rows={1}
+                  className="flex-1 bg-transparent resize-none focus:outline-none text-zinc-900 dark:text-white placeholder-zinc-400 max-h-32"
+                  style={{ minHeight: '24px' }}
+                />
+                {isLoading ? (
+                  <button
+                    onClick={stopAnswer}
+                    title="Detener respuesta"
+                    className="p-2 bg-zinc-600 text-white rounded-lg hover:bg-zinc-700 transition-colors"
+                  >
+                    <Square className="w-4 h-4 fill-current" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={sendMessage}
+                    disabled={!input.trim()}
+                    className="p-2 bg-blue-600 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-blue-700 transition-colors"
+                  >
+                    <Send className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-zinc-400 text-center mt-2">
+                {isScoped(scope)
+                  ? 'Las respuestas se basan solo en las fuentes del filtro activo'
+                  : 'Las respuestas se basan únicamente en tus apuntes indexados'}
+              </p>
             </div>
-          )}
-        </div>
-      </main>
-
-      {/* Input */}
-      <footer className="border-t border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 px-4 py-3">
-        <div className="max-w-3xl mx-auto">
-          <div className="flex items-end gap-2 bg-zinc-100 dark:bg-zinc-800 rounded-xl px-3 py-2">
-            <textarea
-              ref={inputRef}
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder="Escribe tu pregunta..."
-              rows={1}
-              className="flex-1 bg-transparent resize-none focus:outline-none text-zinc-900 dark:text-white placeholder-zinc-400 max-h-32"
-              style={{ minHeight: '24px' }}
-            />
-            <button
-              onClick={sendMessage}
-              disabled={!input.trim() || isLoading}
-              className="p-2 bg-blue-600 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-blue-700 transition-colors"
-            >
-              <Send className="w-4 h-4" />
-            </button>
-          </div>
-          <p className="text-xs text-zinc-400 text-center mt-2">
-            Las respuestas se basan únicamente en tus apuntes indexados
-          </p>
+          </footer>
         </div>
-      </footer>
+      </div>
     </div>
   )
 }
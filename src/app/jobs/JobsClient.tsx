@@ -0,0 +1,332 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+
+type JobStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED'
+type JobType = 'EXTRACT_SLIDES' | 'OCR' | 'TRANSCRIBE' | 'AI_MATCH' | 'GENERATE_SUMMARY' | 'GENERATE_FLASHCARDS' | 'INDEX_PAPER'
+
+interface Job {
+  id: string
+  type: JobType
+  status: JobStatus
+  progress: number
+  error: string | null
+  attempts: number
+  maxAttempts: number
+  runAfter: string
+  createdAt: string
+  startedAt: string | null
+  completedAt: string | null
+  lessonId: string | null
+  lesson: {
+    id: string
+    title: string
+    status: 'PENDING' | 'PROCESSING' | 'READY' | 'ERROR'
+    subject: {
+      id: string
+      name: string
+      color: string
+    }
+  } | null
+}
+
+interface Props {
+  lessonId?: string
+  subjectId?: string
+  status?: string
+  type?: string
+}
+
+// Pipeline order for a lesson upload
+const STAGES: { type: JobType; label: string }[] = [
+  { type: 'EXTRACT_SLIDES', label: 'Diapositivas' },
+  { type: 'OCR', label: 'OCR' },
+  { type: 'TRANSCRIBE', label: 'Transcripción' },
+  { type: 'AI_MATCH', label: 'Emparejado' },
+  { type: 'GENERATE_SUMMARY', label: 'Resumen' },
+  { type: 'GENERATE_FLASHCARDS', label: 'Flashcards' },
+]
+
+// Jobs outside the lesson pipeline
+const OTHER_JOBS: { type: JobType; label: string }[] = [
+  { type: 'INDEX_PAPER', label: 'Indexar artículo' },
+]
+
+const ALL_JOBS = [...STAGES, ...OTHER_JOBS]
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  PENDING: 'Pendiente',
+  RUNNING: 'En curso',
+  COMPLETED: 'Completado',
+  FAILED: 'Fallido',
+  CANCELLED: 'Cancelado',
+}
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  PENDING: 'bg-gray-100 text-gray-600',
+  RUNNING: 'bg-blue-100 text-blue-700',
+  COMPLETED: 'bg-green-100 text-green-700',
+  FAILED: 'bg-red-100 text-red-700',
+  CANCELLED: 'bg-yellow-100 text-yellow-700',
+}
+
+const LESSON_STATUS_LABELS = {
+  PENDING: 'Pendiente',
+  PROCESSING: 'Procesando',
+  READY: 'Lista',
+  ERROR: 'Error',
+}
+
+function formatDate(dateStr: string) {
+  return new Date(dateStr).toLocaleString('es-ES', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+export default function JobsClient({ lessonId, subjectId, status, type }: Props) {
+  const [jobs, setJobs] = useState<Job[]>([])
+  const [loading, setLoading] = useState(true)
+  const [connected, setConnected] = useState(false)
+  const [statusFilter, setStatusFilter] = useState(status || '')
+  const [typeFilter, setTypeFilter] = useState(type || '')
+  const [busyJobId, setBusyJobId] = useState<string | null>(null)
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  // Live job list over Server-Sent Events
+  useEffect(() => {
+    const params = new URLSearchParams()
+    if (lessonId) params.set('lessonId', lessonId)
+    if (subjectId) params.set('subjectId', subjectId)
+    if (statusFilter) params.set('status', statusFilter)
+    if (typeFilter) params.set('type', typeFilter)
+
+    const source = new EventSource(`/api/jobs/stream?${params.toString()}`)
+    source.onopen = () => setConnected(true)
+    source.onerror = () => setConnected(false)
+    source.addEventListener('jobs', event => {
+      setJobs(JSON.parse((event as MessageEvent).data))
+      setLoading(false)
+    })
+
+    return () => source.close()
+  }, [lessonId, subjectId, statusFilter, typeFilter])
+
+  // Group by lesson, keeping the newest-first order of the API
+  const groups = useMemo(() => {
+    const byLesson = new Map<string, { lesson: Job['lesson']; jobs: Job[] }>()
+    for (const job of jobs) {
+      const key = job.lessonId || 'none'
+      if (!byLesson.has(key)) byLesson.set(key, { lesson: job.lesson, jobs: [] })
+      byLesson.get(key)!.jobs.push(job)
+    }
+    return Array.from(byLesson.values())
+  }, [jobs])
+
+  const counts = useMemo(() => {
+    const result: Partial<Record<JobStatus, number>> = {}
+    for (const job of jobs) result[job.status] = (result[job.status] || 0) + 1
+    return result
+  }, [jobs])
+
+  const runAction = async (jobId: string, action: 'cancel' | 'retry') => {
+    setBusyJobId(jobId)
+    setActionError(null)
+    try {
+      const res = await fetch(`/api/jobs/${jobId}/${action}`, { method: 'POST' })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || `Failed to ${action} job`)
+      }
+    } catch (e) {
+      setActionError(e instanceof Error ? e.message : 'Unknown error')
+    } finally {
+      setBusyJobId(null)
+    }
+  }
+
+  const backHref = lessonId ? `/lessons/${lessonId}` : subjectId ? `/subjects/${subjectId}` : '/'
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b sticky top-0 z-10">
+        <div className="max-w-5xl mx-auto px-4 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link href={backHref} className="text-gray-500 hover:text-gray-700">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </Link>
+            <div>
+              <h1 className="font-semibold text-gray-900">Procesamiento</h1>
+              <p className="text-sm text-gray-500">
+                {jobs.length} tareas
+                {counts.RUNNING ? ` · ${counts.RUNNING} en curso` : ''}
+                {counts.PENDING ? ` · ${counts.PENDING} pendientes` : ''}
+                {counts.FAILED ? ` · ${counts.FAILED} fallidas` : ''}
+              </p>
+            </div>
+          </div>
+          <span className={`flex items-center gap-2 text-xs ${connected ? 'text-green-600' : 'text-gray-400'}`}>
+            <span className={`w-2 h-2 rounded-full ${connected ? 'bg-green-500 animate-pulse' : 'bg-gray-300'}`} />
+            {connected ? 'En vivo' : 'Reconectando...'}
+          </span>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 py-6 space-y-4">
+        {/* Filters */}
+        <div className="flex flex-wrap gap-3">
+          <select
+            value={statusFilter}
+            onChange={e => setStatusFilter(e.target.value)}
+            className="px-3 py-2 text-sm bg-white border rounded-lg"
+          >
+            <option value="">Todos los estados</option>
+            {(Object.keys(STATUS_LABELS) as JobStatus[]).map(s => (
+              <option key={s} value={s}>{STATUS_LABELS[s]}</option>
+            ))}
+          </select>
+          <select
+            value={typeFilter}
+            onChange={e => setTypeFilter(e.target.value)}
+            className="px-3 py-2 text-sm bg-white border rounded-lg"
+          >
+            <option value="">Todas las etapas</option>
+            {ALL_JOBS.map(stage => (
+              <option key={stage.type} value={stage.type}>{stage.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {actionError && (
+          <div className="px-4 py-3 bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg">
+            {actionError}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : groups.length === 0 ? (
+          <div className="bg-white rounded-xl border p-10 text-center text-gray-500">
+            No hay tareas de procesamiento
+          </div>
+        ) : (
+          groups.map(group => (
+            <div key={group.lesson?.id || 'none'} className="bg-white rounded-xl border overflow-hidden">
+              {/* Lesson header */}
+              <div className="px-5 py-3 border-b flex items-center justify-between">
+                {group.lesson ? (
+                  <Link href={`/lessons/${group.lesson.id}`} className="flex items-center gap-2 hover:underline">
+                    <span
+                      className="w-2 h-2 rounded-full"
+                      style={{ backgroundColor: group.lesson.subject.color }}
+                    />
+                    <span className="text-sm text-gray-500">{group.lesson.subject.name}</span>
+                    <span className="font-medium text-gray-900">{group.lesson.title}</span>
+                  </Link>
+                ) : (
+                  <span className="font-medium text-gray-900">Sin lección</span>
+                )}
+                {group.lesson && (
+                  <span className="text-xs text-gray-500">
+                    {LESSON_STATUS_LABELS[group.lesson.status]}
+                  </span>
+                )}
+              </div>
+
+              {/* Pipeline stages: latest job of each type */}
+              {group.lesson && (
+                <div className="px-5 py-3 grid grid-cols-3 md:grid-cols-6 gap-2 bg-gray-50 border-b">
+                  {STAGES.map(stage => {
+                    const latest = group.jobs.find(j => j.type === stage.type)
+                    return (
+                      <div key={stage.type} className="text-xs">
+                        <div className="text-gray-500 mb-1">{stage.label}</div>
+                        {latest ? (
+                          <>
+                            <span className={`px-2 py-0.5 rounded ${STATUS_STYLES[latest.status]}`}>
+                              {STATUS_LABELS[latest.status]}
+                            </span>
+                            {latest.status === 'RUNNING' && (
+                              <div className="mt-1.5 h-1 bg-gray-200 rounded-full overflow-hidden">
+                                <div
+                                  className="h-full bg-blue-600 transition-all"
+                                  style={{ width: `${latest.progress}%` }}
+                                />
+                              </div>
+                            )}
+                          </>
+                        ) : (
+                          <span className="text-gray-300">—</span>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+
+              {/* Jobs */}
+              <ul className="divide-y">
+                {group.jobs.map(job => (
+                  <li key={job.id} className="px-5 py-3 flex items-start gap-4 text-sm">
+                    <span className={`px-2 py-0.5 text-xs rounded shrink-0 ${STATUS_STYLES[job.status]}`}>
+                      {STATUS_LABELS[job.status]}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-gray-900">
+                          {ALL_JOBS.find(s => s.type === job.type)?.label || job.type}
+                        </span>
+                        {job.status === 'RUNNING' && (
+                          <span className="text-gray-500">{job.progress}%</span>
+                        )}
+                        <span className="text-xs text-gray-400">
+                          intento {job.attempts}/{job.maxAttempts} · {formatDate(job.createdAt)}
+                        </span>
+                      </div>
+                      {job.status === 'PENDING' && job.attempts > 0 && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Reintento a partir de {formatDate(job.runAfter)}
+                        </p>
+                      )}
+                      {job.error && (
+                        <p className="text-xs text-red-600 mt-1 whitespace-pre-wrap break-words">
+                          {job.error}
+                        </p>
+                      )}
+                    </div>
+                    {(job.status === 'PENDING' || job.status === 'RUNNING') && (
+                      <button
+                        onClick={() => runAction(job.id, 'cancel')}
+                        disabled={busyJobId === job.id}
+                        className="px-3 py-1 text-xs text-gray-600 bg-gray-100 rounded hover:bg-gray-200 disabled:opacity-50"
+                      >
+                        Cancelar
+                      </button>
+                    )}
+                    {(job.status === 'FAILED' || job.status === 'CANCELLED') && (
+                      <button
+                        onClick={() => runAction(job.id, 'retry')}
+                        disabled={busyJobId === job.id}
+                        className="px-3 py-1 text-xs text-blue-700 bg-blue-100 rounded hover:bg-blue-200 disabled:opacity-50"
+                      >
+                        Reintentar
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,15 @@
+import type { Metadata } from 'next'
+import JobsClient from './JobsClient'
+
+export const metadata: Metadata = {
+  title: 'ClassMind - Procesamiento',
+}
+
+type PageProps = {
+  searchParams: Promise<{ lessonId?: string; subjectId?: string; status?: string; type?: string }>
+}
+
+export default async function JobsPage({ searchParams }: PageProps) {
+  const { lessonId, subjectId, status, type } = await searchParams
+  return <JobsClient lessonId={lessonId} subjectId={subjectId} status={status} type={type} />
+}
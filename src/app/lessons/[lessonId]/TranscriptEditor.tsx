@@ -0,0 +1,194 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { DiffPart, TranscriptStaleness } from '@/lib/transcription'
+
+export interface EditedChunk {
+  id: string
+  text: string
+  startTime: number
+  endTime: number
+  _count?: { revisions: number }
+}
+
+// Dates arrive as ISO strings
+export type StaleInfo = Omit<TranscriptStaleness, 'lastEditAt'> & { lastEditAt: string | null }
+
+interface Revision {
+  id: string
+  diff: DiffPart[]
+  author: string | null
+  revertsId: string | null
+  createdAt: string
+}
+
+interface SaveResult {
+  chunk: EditedChunk
+  stale: StaleInfo
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString('es-ES', { dateStyle: 'short', timeStyle: 'short' })
+}
+
+function DiffText({ diff }: { diff: DiffPart[] }) {
+  return (
+    <p className="text-sm leading-relaxed">
+      {diff.map((part, i) => (
+        <span
+          key={i}
+          className={
+            part.op === 'insert'
+              ? 'bg-green-100 text-green-800'
+              : part.op === 'delete'
+                ? 'bg-red-100 text-red-700 line-through'
+                : 'text-gray-500'
+          }
+        >
+          {part.text}{' '}
+        </span>
+      ))}
+    </p>
+  )
+}
+
+/**
+ * Inline editor for one transcript chunk, with its revision history
+ */
+export function TranscriptChunkEditor({
+  lessonId,
+  chunk,
+  author,
+  onSaved,
+  onClose,
+}: {
+  lessonId: string
+  chunk: EditedChunk
+  author: string
+  onSaved: (result: SaveResult) => void
+  onClose: () => void
+}) {
+  const [text, setText] = useState(chunk.text)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [revisions, setRevisions] = useState<Revision[] | null>(null)
+
+  const revisionCount = chunk._count?.revisions ?? 0
+
+  useEffect(() => {
+    if (revisionCount === 0) {
+      setRevisions([])
+      return
+    }
+    fetch(`/api/lessons/${lessonId}/transcript/revisions?chunk=${chunk.id}`)
+      .then(res => (res.ok ? res.json() : { revisions: [] }))
+      .then(data => setRevisions(data.revisions))
+      .catch(() => setRevisions([]))
+  }, [lessonId, chunk.id, revisionCount])
+
+  const request = async (url: string, init: RequestInit) => {
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json' } })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'No se pudo guardar')
+      setText(data.chunk.text)
+      onSaved(data)
+      return data
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'No se pudo guardar')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const save = async () => {
+    const data = await request(`/api/lessons/${lessonId}/transcript/${chunk.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ text, author }),
+    })
+    if (data && !data.revision) onClose()
+  }
+
+  const revert = (revisionId: string) =>
+    request(`/api/lessons/${lessonId}/transcript/revisions/${revisionId}/revert`, {
+      method: 'POST',
+      body: JSON.stringify({ author }),
+    })
+
+  return (
+    <div className="space-y-3" onClick={e => e.stopPropagation()}>
+      <textarea
+        value={text}
+        onChange={e => setText(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) save()
+          if (e.key === 'Escape') onClose()
+        }}
+        rows={Math.min(10, Math.max(3, Math.ceil(text.length / 80)))}
+        autoFocus
+        className="w-full p-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex items-center gap-2">
+        <button
+          onClick={save}
+          disabled={saving || !text.trim() || text.trim() === chunk.text.trim()}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Guardando...' : 'Guardar'}
+        </button>
+        <button onClick={onClose} className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900">
+          Cerrar
+        </button>
+        <span className="text-xs text-gray-400 ml-auto">Ctrl+Enter para guardar · Esc para cerrar</span>
+      </div>
+
+      {revisions && revisions.length > 0 && (
+        <div className="border-t pt-3 space-y-3">
+          <p className="text-xs font-medium text-gray-500 uppercase">Historial</p>
+          {revisions.map((revision, i) => (
+            <div key={revision.id} className="space-y-1">
+              <div className="flex items-center gap-2 text-xs text-gray-500">
+                <span>{revision.author || 'Anónimo'}</span>
+                <span>·</span>
+                <span>{formatDate(revision.createdAt)}</span>
+                {revision.revertsId && <span className="text-amber-600">(deshace un cambio)</span>}
+                <button
+                  onClick={() => revert(revision.id)}
+                  disabled={saving}
+                  title={i === 0 ? 'Volver al texto anterior' : 'Restaurar el texto que había antes de este cambio'}
+                  className="ml-auto text-blue-600 hover:underline disabled:opacity-50"
+                >
+                  {i === 0 ? 'Deshacer' : 'Restaurar anterior'}
+                </button>
+              </div>
+              <DiffText diff={revision.diff} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * What was generated from the transcript before its latest correction
+ */
+export function StaleNotice({ stale }: { stale: StaleInfo }) {
+  const items = [
+    stale.knowledgeSources.length > 0 &&
+      `${stale.knowledgeSources.length} fragmentos del buscador (se actualizan al reindexar)`,
+    stale.cornellNoteIds.length > 0 && 'las notas Cornell',
+    stale.summary && 'el resumen',
+  ].filter((item): item is string => !!item)
+
+  if (!stale.lastEditAt || items.length === 0) return null
+
+  return (
+    <div className="mx-4 mt-3 p-3 text-sm bg-amber-50 border border-amber-200 rounded-lg text-amber-800">
+      Generado antes de la última corrección ({formatDate(stale.lastEditAt)}): {items.join(', ')}.
+    </div>
+  )
+}
@@ -5,6 +5,8 @@ import { useParams } from 'next/navigation'
 import Link from 'next/link'
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
+import { cleanHeading, headingAnchor } from '@/lib/utils'
+import { readEventStream } from '@/lib/sse'
 
 // Extract headers from markdown for navigation
 interface TocItem {
@@ -22,17 +24,26 @@ function extractToc(markdown: string): TocItem[] {
     if (match) {
       const level = match[1].length
       const text = match[2].replace(/[*_`]/g, '').trim()
-      const id = text
-        .toLowerCase()
-        .replace(/[^\w\sáéíóúñü-]/g, '')
-        .replace(/\s+/g, '-')
-        .slice(0, 50)
-      toc.push({ id, text, level })
+      toc.push({ id: headingAnchor(text), text, level })
     }
   }
   return toc
 }
 
+interface MarkdownNode {
+  type: string
+  value?: string
+  children?: MarkdownNode[]
+}
+
+// Plain text of a rendered markdown node, so headings with inline markup
+// (**bold**, `code`) get the same anchor as the text search indexes
+function nodeText(node: MarkdownNode | undefined): string {
+  if (!node) return ''
+  if (node.type === 'text') return node.value || ''
+  return (node.children || []).map(nodeText).join('')
+}
+
 interface LessonInfo {
   id: string
   title: string
@@ -73,6 +84,8 @@ export default function CornellNotesPage() {
   const lessonId = params.lessonId as string
 
   const [content, setContent] = useState<string | null>(null)
+  // Transcript corrected since these notes were generated
+  const [stale, setStale] = useState(false)
   const [lesson, setLesson] = useState<LessonInfo | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -137,6 +150,8 @@ export default function CornellNotesPage() {
   ] as const
 
   const tutorRef = useRef<HTMLDivElement>(null)
+  // Cancels the tutor answer being streamed
+  const tutorAbortRef = useRef<AbortController | null>(null)
   const contentRef = useRef<HTMLElement>(null)
 
   // Extract TOC from content
@@ -161,6 +176,7 @@ export default function CornellNotesPage() {
         }
         const data = await res.json()
         setContent(data.content)
+        setStale(!!data.stale)
 
         // Fetch saved tutor questions
         const tutorRes = await fetch(`/api/lessons/${lessonId}/tutor`)
@@ -397,31 +413,55 @@ export default function CornellNotesPage() {
     setTutorLoading(true)
     setTutorAnswer(null)
 
+    const controller = new AbortController()
+    tutorAbortRef.current = controller
+
     try {
       const res = await fetch(`/api/lessons/${lessonId}/tutor`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
         body: JSON.stringify({
           selectedText,
           question: tutorQuestion
-        })
+        }),
+        signal: controller.signal
       })
 
-      if (res.ok) {
-        const data = await res.json()
-        setTutorAnswer(data.answer)
-        setSavedQuestions(prev => [data, ...prev])
-        setTutorQuestion('')
-      } else {
+      if (!res.ok) {
         setTutorAnswer('Error: No se pudo obtener respuesta.')
+        return
+      }
+
+      // Partial answer is shown as it arrives
+      for await (const { event, data } of readEventStream(res)) {
+        if (event === 'token') {
+          const { text } = data as { text: string }
+          setTutorAnswer(prev => (prev || '') + text)
+        } else if (event === 'done') {
+          const saved = data as TutorQuestion
+          setTutorAnswer(saved.answer)
+          setSavedQuestions(prev => [saved, ...prev])
+          setTutorQuestion('')
+        } else if (event === 'error') {
+          setTutorAnswer('Error: No se pudo obtener respuesta.')
+        }
       }
     } catch (e) {
-      setTutorAnswer('Error: Conexión fallida.')
+      if (controller.signal.aborted) {
+        setTutorAnswer(prev => prev ? `${prev}\n\n(Respuesta cancelada)` : null)
+      } else {
+        setTutorAnswer('Error: Conexión fallida.')
+      }
     } finally {
+      if (tutorAbortRef.current === controller) tutorAbortRef.current = null
       setTutorLoading(false)
     }
   }
 
+  function stopTutor() {
+    tutorAbortRef.current?.abort()
+  }
+
   // Delete question
   async function deleteQuestion(id: string) {
     await fetch(`/api/lessons/${lessonId}/tutor?id=${id}`, { method: 'DELETE' })
@@ -438,6 +478,13 @@ export default function CornellNotesPage() {
     }
   }, [])
 
+  // Deep links from search results (#section-anchor) once the notes render
+  useEffect(() => {
+    if (!content) return
+    const hash = decodeURIComponent(window.location.hash.slice(1))
+    if (hash) scrollToSection(hash)
+  }, [content, scrollToSection])
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -642,6 +689,13 @@ export default function CornellNotesPage() {
             </div>
           </div>
 
+          {stale && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6 text-sm text-amber-800">
+              La transcripción de esta lección se ha corregido después de generar estas notas. Puede que
+              contengan los errores ya corregidos hasta que se vuelvan a generar.
+            </div>
+          )}
+
           <article ref={contentRef} className={`cornell-notes bg-white rounded-xl border shadow-sm p-8 ${showAnswers ? 'show-answers' : 'hide-answers'}`}>
             <style jsx global>{`
               .cornell-notes h1 {
@@ -891,24 +945,12 @@ export default function CornellNotesPage() {
             <ReactMarkdown
               remarkPlugins={[remarkGfm]}
               components={{
-                h1: ({ children }) => {
-                  const raw = String(children)
-                  const clean = raw.replace(/[\u{1F300}-\u{1F9FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]|[\u{1F600}-\u{1F64F}]|[\u{1F680}-\u{1F6FF}]/gu, '').replace(/[*_`]/g, '').trim()
-                  const id = clean.toLowerCase().replace(/[^\w\sáéíóúñü-]/g, '').replace(/\s+/g, '-').slice(0, 50)
-                  return <h1 id={id}>{clean}</h1>
-                },
-                h2: ({ children }) => {
-                  const raw = String(children)
-                  const clean = raw.replace(/[\u{1F300}-\u{1F9FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]|[\u{1F600}-\u{1F64F}]|[\u{1F680}-\u{1F6FF}]/gu, '').replace(/[*_`]/g, '').trim()
-                  const id = clean.toLowerCase().replace(/[^\w\sáéíóúñü-]/g, '').replace(/\s+/g, '-').slice(0, 50)
-                  return <h2 id={id}>{clean}</h2>
-                },
-                h3: ({ children }) => {
-                  const raw = String(children)
-                  const clean = raw.replace(/[\u{1F300}-\u{1F9FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]|[\u{1F600}-\u{1F64F}]|[\u{1F680}-\u{1F6FF}]/gu, '').replace(/[*_`]/g, '').trim()
-                  const id = clean.toLowerCase().replace(/[^\w\sáéíóúñü-]/g, '').replace(/\s+/g, '-').slice(0, 50)
-                  return <h3 id={id}>{clean}</h3>
-                },
+                h1: ({ node }) => <h1 id={headingAnchor(nodeText(node))}>{cleanHeading(nodeText(node))}</h1>,
+                h2: ({ node }) => <h2 id={headingAnchor(nodeText(node))}>{cleanHeading(nodeText(node))}</h2>,
+                h3: ({ node }) => <h3 id={headingAnchor(nodeText(node))}>{cleanHeading(nodeText(node))}</h3>,
+                h4: ({ node }) => <h4 id={headingAnchor(nodeText(node))}>{cleanHeading(nodeText(node))}</h4>,
+                h5: ({ node }) => <h5 id={headingAnchor(nodeText(node))}>{cleanHeading(nodeText(node))}</h5>,
+                h6: ({ node }) => <h6 id={headingAnchor(nodeText(node))}>{cleanHeading(nodeText(node))}</h6>,
               }}
             >{content || ''}</ReactMarkdown>
           </article>
@@ -1113,7 +1155,7 @@ export default function CornellNotesPage() {
               <span className="font-medium text-gray-900">AI Tutor</span>
             </div>
             <button
-              onClick={() => { setShowTutor(false); setTutorAnswer(null); setSelectedText(''); }}
+              onClick={() => { stopTutor(); setShowTutor(false); setTutorAnswer(null); setSelectedText(''); }}
               className="text-gray-400 hover:text-gray-600"
             >
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -1142,20 +1184,26 @@ export default function CornellNotesPage() {
                 className="flex-1 px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
                 disabled={tutorLoading}
               />
-              <button
-                onClick={askTutor}
-                disabled={tutorLoading || !tutorQuestion.trim()}
-                className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
-              >
-                {tutorLoading ? (
+              {tutorLoading ? (
+                <button
+                  onClick={stopTutor}
+                  className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 flex items-center gap-2"
+                >
                   <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                ) : (
+                  Detener
+                </button>
+              ) : (
+                <button
+                  onClick={askTutor}
+                  disabled={!tutorQuestion.trim()}
+                  className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                >
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
                   </svg>
-                )}
-                Preguntar
-              </button>
+                  Preguntar
+                </button>
+              )}
             </div>
 
             {tutorAnswer && (
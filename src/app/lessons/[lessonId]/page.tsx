@@ -1,15 +1,19 @@
 'use client'
 
-import { useEffect, useState, useRef, useCallback } from 'react'
+import { useEffect, useState, useRef, useCallback, useMemo, memo } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import Link from 'next/link'
 import Image from 'next/image'
+import type { TranscriptWord } from '@/lib/transcription'
+import { decodeWords, wordIndexAt, LOW_CONFIDENCE_THRESHOLD } from '@/lib/transcription/words'
+import { TranscriptChunkEditor, StaleNotice, type StaleInfo } from './TranscriptEditor'
 
 interface TranscriptChunk {
   id: string
   text: string
   startTime: number
   endTime: number
+  _count: { revisions: number }
 }
 
 interface AudioPart {
@@ -38,6 +42,7 @@ interface Lesson {
   id: string
   title: string
   description: string | null
+  status: 'PENDING' | 'PROCESSING' | 'READY' | 'ERROR'
   subject: {
     id: string
     name: string
@@ -47,6 +52,9 @@ interface Lesson {
   audioParts: AudioPart[]
   slides: Slide[]
   quizzes: Quiz[]
+  _count: {
+    flashcards: number
+  }
 }
 
 function formatTime(seconds: number): string {
@@ -55,6 +63,51 @@ function formatTime(seconds: number): string {
   return `${mins}:${secs.toString().padStart(2, '0')}`
 }
 
+interface IndexedWord {
+  word: TranscriptWord
+  index: number
+}
+
+// One chunk's words; memoized so only the chunk with the current word re-renders
+const ChunkWords = memo(function ChunkWords({
+  words,
+  activeIndex,
+  flagLowConfidence,
+  onSeek,
+}: {
+  words: IndexedWord[]
+  // -1 unless the current word is in this chunk
+  activeIndex: number
+  flagLowConfidence: boolean
+  onSeek: (time: number) => void
+}) {
+  return (
+    <>
+      {words.map(({ word, index }) => {
+        const doubtful = word.confidence < LOW_CONFIDENCE_THRESHOLD
+        return (
+          <span key={index}>
+            <span
+              onClick={e => {
+                e.stopPropagation()
+                onSeek(word.start)
+              }}
+              title={doubtful ? `Confianza baja (${Math.round(word.confidence * 100)}%)` : undefined}
+              className={`rounded-sm transition-colors ${
+                index === activeIndex ? 'bg-yellow-200 text-gray-900' : 'hover:bg-blue-200/60'
+              } ${
+                flagLowConfidence && doubtful ? 'underline decoration-dotted decoration-amber-500 decoration-2 underline-offset-2' : ''
+              }`}
+            >
+              {word.word}
+            </span>{' '}
+          </span>
+        )
+      })}
+    </>
+  )
+})
+
 export default function LessonPage() {
   const params = useParams()
   const router = useRouter()
@@ -68,14 +121,27 @@ export default function LessonPage() {
   const [currentTime, setCurrentTime] = useState(0)
   const [isPlaying, setIsPlaying] = useState(false)
   const [activeChunkId, setActiveChunkId] = useState<string | null>(null)
+  // Word timing per audio part id; null when the part has none
+  const [wordsByPart, setWordsByPart] = useState<Record<string, TranscriptWord[] | null>>({})
+  const [activeWordIndex, setActiveWordIndex] = useState(-1)
+  const [flagLowConfidence, setFlagLowConfidence] = useState(true)
+
+  // Correction mode: clicking a chunk edits it instead of seeking
+  const [editMode, setEditMode] = useState(false)
+  const [editingChunkId, setEditingChunkId] = useState<string | null>(null)
+  const [author, setAuthor] = useState('')
+  const [stale, setStale] = useState<StaleInfo | null>(null)
 
   const [currentSlideIndex, setCurrentSlideIndex] = useState(0)
   const [showSlides, setShowSlides] = useState(true)
   const [viewMode, setViewMode] = useState<'split' | 'transcript' | 'slides'>('split')
   const [generatingQuiz, setGeneratingQuiz] = useState(false)
+  const [generatingFlashcards, setGeneratingFlashcards] = useState(false)
 
   const audioRef = useRef<HTMLAudioElement>(null)
   const transcriptRef = useRef<HTMLDivElement>(null)
+  // Time to jump to once the audio is loaded (?t= deep link)
+  const pendingSeekRef = useRef<number | null>(null)
 
   // Fetch lesson data
   useEffect(() => {
@@ -83,8 +149,17 @@ export default function LessonPage() {
       try {
         const res = await fetch(`/api/lessons/${lessonId}`)
         if (!res.ok) throw new Error('Failed to fetch lesson')
-        const data = await res.json()
+        const data: Lesson = await res.json()
         setLesson(data)
+
+        // Deep links from cited sources: ?part=<audioPartId>&t=<seconds>, ?slide=<slideId>
+        const query = new URLSearchParams(window.location.search)
+        const partIndex = data.audioParts.findIndex(p => p.id === query.get('part'))
+        if (partIndex >= 0) setCurrentPartIndex(partIndex)
+        const time = parseFloat(query.get('t') || '')
+        if (!isNaN(time)) pendingSeekRef.current = time
+        const slideIndex = data.slides.findIndex(s => s.id === query.get('slide'))
+        if (slideIndex >= 0) setCurrentSlideIndex(slideIndex)
       } catch (e) {
         setError(e instanceof Error ? e.message : 'Unknown error')
       } finally {
@@ -94,6 +169,107 @@ export default function LessonPage() {
     fetchLesson()
   }, [lessonId])
 
+  // Word timing for the current part, fetched once per part
+  const currentPartId = lesson?.audioParts[currentPartIndex]?.id
+  useEffect(() => {
+    if (!currentPartId || currentPartId in wordsByPart) return
+
+    fetch(`/api/lessons/${lessonId}/words?part=${currentPartId}`)
+      .then(res => (res.ok ? res.json() : { parts: [] }))
+      .then((data: { parts: { audioPartId: string; data: unknown }[] }) => {
+        const row = data.parts.find(p => p.audioPartId === currentPartId)
+        setWordsByPart(prev => ({ ...prev, [currentPartId]: row ? decodeWords(row.data) : null }))
+      })
+      .catch(e => console.error('Error fetching transcript words:', e))
+  }, [lessonId, currentPartId, wordsByPart])
+
+  const currentWords = currentPartId ? wordsByPart[currentPartId] : null
+
+  // Words grouped by the chunk they fall in (by their midpoint)
+  const chunkWords = useMemo(() => {
+    const groups: Record<string, IndexedWord[]> = {}
+    const chunks = lesson?.audioParts[currentPartIndex]?.transcriptChunks
+    if (!chunks || !currentWords) return groups
+
+    let c = 0
+    currentWords.forEach((word, index) => {
+      const mid = (word.start + word.end) / 2
+      while (c < chunks.length - 1 && mid >= chunks[c].endTime) c++
+      ;(groups[chunks[c].id] ||= []).push({ word, index })
+    })
+
+    // Corrected chunks no longer match their recognized words
+    const compact = (text: string) => text.replace(/\s+/g, '')
+    for (const chunk of chunks) {
+      const group = groups[chunk.id]
+      if (group && compact(group.map(w => w.word.word).join('')) !== compact(chunk.text)) delete groups[chunk.id]
+    }
+    return groups
+  }, [lesson, currentPartIndex, currentWords])
+
+  const lowConfidenceCount = useMemo(
+    () => currentWords?.filter(w => w.confidence < LOW_CONFIDENCE_THRESHOLD).length ?? 0,
+    [currentWords]
+  )
+
+  // Karaoke highlight: follow the audio every frame while playing
+  useEffect(() => {
+    if (!currentWords) {
+      setActiveWordIndex(-1)
+      return
+    }
+    const update = () => {
+      if (audioRef.current) setActiveWordIndex(wordIndexAt(currentWords, audioRef.current.currentTime))
+    }
+    update()
+    if (!isPlaying) return
+
+    let frame = requestAnimationFrame(function tick() {
+      update()
+      frame = requestAnimationFrame(tick)
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [currentWords, isPlaying, currentTime])
+
+  // Remembered name for correction history
+  useEffect(() => {
+    setAuthor(localStorage.getItem('classmind-author') || '')
+  }, [])
+
+  // What the existing corrections have made stale
+  useEffect(() => {
+    if (!editMode) return
+    fetch(`/api/lessons/${lessonId}/transcript/revisions`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => data && setStale(data.stale))
+      .catch(e => console.error('Error fetching transcript staleness:', e))
+  }, [editMode, lessonId])
+
+  const updateAuthor = (value: string) => {
+    setAuthor(value)
+    localStorage.setItem('classmind-author', value)
+  }
+
+  const handleChunkSaved = useCallback(
+    ({ chunk, stale }: { chunk: Pick<TranscriptChunk, 'id' | 'text'>; stale: StaleInfo }) => {
+      setStale(stale)
+      setLesson(prev =>
+        prev && {
+          ...prev,
+          audioParts: prev.audioParts.map(part => ({
+            ...part,
+            transcriptChunks: part.transcriptChunks.map(c =>
+              c.id === chunk.id && c.text !== chunk.text
+                ? { ...c, text: chunk.text, _count: { revisions: c._count.revisions + 1 } }
+                : c
+            ),
+          })),
+        }
+      )
+    },
+    []
+  )
+
   // Update active chunk based on current time
   useEffect(() => {
     if (!lesson || !lesson.audioParts[currentPartIndex]) return
@@ -121,15 +297,23 @@ export default function LessonPage() {
     }
   }
 
+  const handleLoadedMetadata = () => {
+    if (audioRef.current && pendingSeekRef.current !== null) {
+      audioRef.current.currentTime = pendingSeekRef.current
+      setCurrentTime(pendingSeekRef.current)
+      pendingSeekRef.current = null
+    }
+  }
+
   const handlePlay = () => setIsPlaying(true)
   const handlePause = () => setIsPlaying(false)
 
-  const seekToTime = (time: number) => {
+  const seekToTime = useCallback((time: number) => {
     if (audioRef.current) {
       audioRef.current.currentTime = time
       audioRef.current.play()
     }
-  }
+  }, [])
 
   const switchPart = (index: number) => {
     setCurrentPartIndex(index)
@@ -168,6 +352,27 @@ export default function LessonPage() {
     }
   }, [lessonId, router])
 
+  const generateFlashcards = useCallback(async () => {
+    setGeneratingFlashcards(true)
+    try {
+      const res = await fetch(`/api/lessons/${lessonId}/flashcards/generate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ maxCards: 20 })
+      })
+      if (res.ok) {
+        const data = await res.json()
+        if (data.created > 0) {
+          router.push(`/review?lessonId=${lessonId}`)
+        }
+      }
+    } catch (e) {
+      console.error('Error generating flashcards:', e)
+    } finally {
+      setGeneratingFlashcards(false)
+    }
+  }, [lessonId, router])
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -215,6 +420,18 @@ export default function LessonPage() {
                 <p className="text-sm text-gray-500">{lesson.subject.name}</p>
                 <h1 className="font-semibold text-gray-900">{lesson.title}</h1>
               </div>
+              {(lesson.status === 'PROCESSING' || lesson.status === 'ERROR') && (
+                <Link
+                  href={`/jobs?lessonId=${lessonId}`}
+                  className={`px-2 py-0.5 text-xs rounded-full ${
+                    lesson.status === 'ERROR'
+                      ? 'bg-red-100 text-red-700 hover:bg-red-200'
+                      : 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200'
+                  }`}
+                >
+                  {lesson.status === 'ERROR' ? 'Error de procesamiento' : 'Procesando...'}
+                </Link>
+              )}
             </div>
 
             {/* View Mode Switcher */}
@@ -278,6 +495,7 @@ export default function LessonPage() {
                 ref={audioRef}
                 src={`/api/storage/${currentPart?.audioPath}`}
                 onTimeUpdate={handleTimeUpdate}
+                onLoadedMetadata={handleLoadedMetadata}
                 onPlay={handlePlay}
                 onPause={handlePause}
                 controls
@@ -364,11 +582,50 @@ export default function LessonPage() {
           {(viewMode === 'split' || viewMode === 'transcript') && (
             <div className="bg-white rounded-lg border">
               <div className="p-4 border-b">
-                <h3 className="font-medium text-gray-900">Transcripcion</h3>
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className="font-medium text-gray-900">Transcripcion</h3>
+                  <div className="flex-1" />
+                  <button
+                    onClick={() => {
+                      setEditMode(!editMode)
+                      setEditingChunkId(null)
+                    }}
+                    className={`px-2 py-0.5 text-xs rounded-full transition ${
+                      editMode ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                    }`}
+                  >
+                    {editMode ? 'Terminar correcciones' : 'Corregir'}
+                  </button>
+                  {lowConfidenceCount > 0 && (
+                    <button
+                      onClick={() => setFlagLowConfidence(!flagLowConfidence)}
+                      title="Palabras que el reconocimiento de voz no ha entendido con seguridad"
+                      className={`px-2 py-0.5 text-xs rounded-full transition ${
+                        flagLowConfidence
+                          ? 'bg-amber-100 text-amber-800 hover:bg-amber-200'
+                          : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                      }`}
+                    >
+                      {flagLowConfidence ? 'Ocultar' : 'Marcar'} {lowConfidenceCount} palabras dudosas
+                    </button>
+                  )}
+                </div>
                 <p className="text-sm text-gray-500 mt-1">
                   {currentPart?.transcriptChunks.length || 0} segmentos
+                  {editMode
+                    ? ' · haz clic en un segmento para corregirlo'
+                    : currentWords && ' · haz clic en una palabra para ir a ese momento'}
                 </p>
+                {editMode && (
+                  <input
+                    value={author}
+                    onChange={e => updateAuthor(e.target.value)}
+                    placeholder="Tu nombre (aparece en el historial)"
+                    className="mt-2 w-full px-2 py-1 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                )}
               </div>
+              {editMode && stale && <StaleNotice stale={stale} />}
               <div
                 ref={transcriptRef}
                 className={`p-4 overflow-y-auto space-y-2 ${
@@ -384,7 +641,7 @@ export default function LessonPage() {
                     <div
                       key={chunk.id}
                       id={`chunk-${chunk.id}`}
-                      onClick={() => seekToTime(chunk.startTime)}
+                      onClick={() => (editMode ? setEditingChunkId(chunk.id) : seekToTime(chunk.startTime))}
                       className={`p-3 rounded-lg cursor-pointer transition ${
                         activeChunkId === chunk.id
                           ? 'bg-blue-100 border-l-4 border-blue-600'
@@ -394,9 +651,35 @@ export default function LessonPage() {
                       <span className="text-xs text-gray-400 font-mono mr-2">
                         {formatTime(chunk.startTime)}
                       </span>
-                      <span className={activeChunkId === chunk.id ? 'text-gray-900' : 'text-gray-700'}>
-                        {chunk.text}
-                      </span>
+                      {chunk._count.revisions > 0 && (
+                        <span className="text-xs text-blue-600 mr-2" title="Texto corregido a mano">
+                          corregido
+                        </span>
+                      )}
+                      {editingChunkId === chunk.id ? (
+                        <TranscriptChunkEditor
+                          lessonId={lessonId}
+                          chunk={chunk}
+                          author={author}
+                          onSaved={handleChunkSaved}
+                          onClose={() => setEditingChunkId(null)}
+                        />
+                      ) : (
+                        <span className={activeChunkId === chunk.id ? 'text-gray-900' : 'text-gray-700'}>
+                          {chunkWords[chunk.id] && !editMode ? (
+                            <ChunkWords
+                              words={chunkWords[chunk.id]}
+                              activeIndex={
+                                chunkWords[chunk.id].some(w => w.index === activeWordIndex) ? activeWordIndex : -1
+                              }
+                              flagLowConfidence={flagLowConfidence}
+                              onSeek={seekToTime}
+                            />
+                          ) : (
+                            chunk.text
+                          )}
+                        </span>
+                      )}
                     </div>
                   ))
                 )}
@@ -429,6 +712,38 @@ export default function LessonPage() {
             Cornell Notes
           </Link>
 
+          {lesson._count.flashcards > 0 ? (
+            <Link
+              href={`/review?lessonId=${lessonId}`}
+              className="inline-flex items-center gap-2 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+              Repasar Flashcards ({lesson._count.flashcards})
+            </Link>
+          ) : (
+            <button
+              onClick={generateFlashcards}
+              disabled={generatingFlashcards}
+              className="inline-flex items-center gap-2 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium disabled:opacity-50"
+            >
+              {generatingFlashcards ? (
+                <>
+                  <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                  Generando...
+                </>
+              ) : (
+                <>
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                  </svg>
+                  Generar Flashcards
+                </>
+              )}
+            </button>
+          )}
+
           {lesson.quizzes.length > 0 ? (
             <Link
               href={`/quiz/${lesson.quizzes[0].id}`}
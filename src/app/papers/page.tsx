@@ -0,0 +1,509 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import {
+  ArrowLeft,
+  Upload,
+  Loader2,
+  Search,
+  Newspaper,
+  Pencil,
+  RefreshCw,
+  Trash2,
+  ExternalLink,
+  CheckCircle2,
+  Clock,
+  FileUp,
+  Download,
+} from 'lucide-react'
+import Link from 'next/link'
+
+interface Paper {
+  id: string
+  title: string
+  authors: string | null
+  year: number | null
+  abstract: string | null
+  doi: string | null
+  tags: string[]
+  pageCount: number | null
+  isIndexed: boolean
+  chunkCount: number
+  hasText: boolean
+  citation: string
+  // Null for references imported without a PDF
+  fileUrl: string | null
+  createdAt: string
+}
+
+interface PaperDraft {
+  title: string
+  authors: string
+  year: string
+  doi: string
+  tags: string
+  abstract: string
+}
+
+const inputClass =
+  'w-full px-3 py-2 text-sm bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg text-zinc-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+function toDraft(paper: Paper): PaperDraft {
+  return {
+    title: paper.title,
+    authors: paper.authors || '',
+    year: paper.year ? String(paper.year) : '',
+    doi: paper.doi || '',
+    tags: paper.tags.join(', '),
+    abstract: paper.abstract || '',
+  }
+}
+
+function parseTags(tags: string): string[] {
+  return tags.split(',').map(t => t.trim()).filter(Boolean)
+}
+
+export default function PapersPage() {
+  const [papers, setPapers] = useState<Paper[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isUploading, setIsUploading] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [uploadTags, setUploadTags] = useState('')
+  const [notice, setNotice] = useState<string | null>(null)
+  const [query, setQuery] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<PaperDraft | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const referenceInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    fetchPapers()
+  }, [])
+
+  // Poll while some paper is still waiting for its indexing job
+  const pending = papers.some(p => p.hasText && !p.isIndexed)
+  useEffect(() => {
+    if (!pending) return
+    const timer = setInterval(fetchPapers, 5000)
+    return () => clearInterval(timer)
+  }, [pending])
+
+  const fetchPapers = async () => {
+    try {
+      const res = await fetch('/api/papers')
+      const data = await res.json()
+      setPapers(data.papers || [])
+    } catch (error) {
+      console.error('Failed to fetch papers:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const uploadFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    setIsUploading(true)
+    setNotice(null)
+
+    const warnings: string[] = []
+    for (const file of Array.from(files)) {
+      try {
+        const formData = new FormData()
+        formData.append('file', file)
+        if (uploadTags.trim()) formData.append('tags', uploadTags)
+
+        const res = await fetch('/api/papers', { method: 'POST', body: formData })
+        const data = await res.json()
+        if (!res.ok) {
+          warnings.push(`${file.name}: ${data.error || 'error al subir'}`)
+          continue
+        }
+        if (data.warning) warnings.push(`${file.name}: ${data.warning}`)
+        // A PDF matching an imported reference is attached to it
+        setPapers(prev => [data.paper, ...prev.filter(p => p.id !== data.paper.id)])
+      } catch (error) {
+        console.error('Failed to upload paper:', error)
+        warnings.push(`${file.name}: error al subir`)
+      }
+    }
+
+    setNotice(warnings.length > 0 ? warnings.join('\n') : null)
+    setIsUploading(false)
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  const importReferences = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    setIsImporting(true)
+    setNotice(null)
+
+    try {
+      const formData = new FormData()
+      for (const file of Array.from(files)) formData.append('file', file)
+      if (uploadTags.trim()) formData.append('tags', uploadTags)
+
+      const res = await fetch('/api/papers/import', { method: 'POST', body: formData })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || `Import failed: ${res.status}`)
+
+      const summary = `Importación: ${data.created} nuevas, ${data.merged} fusionadas, ${data.unchanged} sin cambios`
+      setNotice([summary, ...data.errors].join('\n'))
+      await fetchPapers()
+    } catch (error) {
+      console.error('Failed to import references:', error)
+      setNotice('Error al importar las referencias')
+    } finally {
+      setIsImporting(false)
+      if (referenceInputRef.current) referenceInputRef.current.value = ''
+    }
+  }
+
+  const startEditing = (paper: Paper) => {
+    setEditingId(paper.id)
+    setDraft(toDraft(paper))
+  }
+
+  const saveEdit = async () => {
+    if (!editingId || !draft) return
+    const year = parseInt(draft.year)
+
+    try {
+      const res = await fetch(`/api/papers/${editingId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: draft.title,
+          authors: draft.authors,
+          year: isNaN(year) ? null : year,
+          doi: draft.doi,
+          abstract: draft.abstract,
+          tags: parseTags(draft.tags),
+        }),
+      })
+      if (!res.ok) throw new Error(`Update failed: ${res.status}`)
+      const data = await res.json()
+      setPapers(prev => prev.map(p => (p.id === editingId ? data.paper : p)))
+      setEditingId(null)
+      setDraft(null)
+    } catch (error) {
+      console.error('Failed to update paper:', error)
+    }
+  }
+
+  const reindex = async (paper: Paper) => {
+    try {
+      const res = await fetch(`/api/papers/${paper.id}/index`, { method: 'POST' })
+      if (!res.ok) throw new Error(`Indexing request failed: ${res.status}`)
+      setNotice(`"${paper.title}" se reindexará en segundo plano`)
+    } catch (error) {
+      console.error('Failed to queue indexing:', error)
+    }
+  }
+
+  const deletePaper = async (paper: Paper) => {
+    if (!confirm(`¿Eliminar "${paper.title}" y su PDF?`)) return
+
+    try {
+      await fetch(`/api/papers/${paper.id}`, { method: 'DELETE' })
+      setPapers(prev => prev.filter(p => p.id !== paper.id))
+    } catch (error) {
+      console.error('Failed to delete paper:', error)
+    }
+  }
+
+  const normalizedQuery = query.trim().toLowerCase()
+  const visiblePapers = normalizedQuery
+    ? papers.filter(p =>
+        [p.title, p.authors, p.citation, p.abstract, ...p.tags]
+          .some(field => field?.toLowerCase().includes(normalizedQuery))
+      )
+    : papers
+
+  // Exports exactly what the filter shows
+  const exportHref = normalizedQuery
+    ? `/api/papers/export?ids=${visiblePapers.map(p => p.id).join(',')}`
+    : '/api/papers/export'
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-zinc-950">
+      {/* Header */}
+      <header className="border-b border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 px-4 py-3">
+        <div className="max-w-3xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link
+              href="/ask"
+              className="p-2 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+            <div>
+              <h1 className="font-semibold text-zinc-900 dark:text-white">
+                Artículos
+              </h1>
+              <p className="text-sm text-zinc-500">
+                {papers.length} {papers.length === 1 ? 'artículo' : 'artículos'}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 py-6 space-y-4">
+        {/* Upload */}
+        <div className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-xl p-4 space-y-3">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={uploadTags}
+              onChange={e => setUploadTags(e.target.value)}
+              placeholder="Etiquetas para lo que subas o importes (separadas por comas)"
+              className={inputClass}
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors whitespace-nowrap"
+            >
+              {isUploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              Subir PDF
+            </button>
+            <button
+              onClick={() => referenceInputRef.current?.click()}
+              disabled={isImporting}
+              title="Importar referencias desde Zotero u otro gestor"
+              className="flex items-center gap-2 px-4 py-2 border border-zinc-200 dark:border-zinc-700 text-zinc-700 dark:text-zinc-300 text-sm rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-50 transition-colors whitespace-nowrap"
+            >
+              {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileUp className="w-4 h-4" />}
+              BibTeX / RIS
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/pdf,.pdf"
+              multiple
+              className="hidden"
+              onChange={e => uploadFiles(e.target.files)}
+            />
+            <input
+              ref={referenceInputRef}
+              type="file"
+              accept=".bib,.ris,.bibtex,text/plain"
+              multiple
+              className="hidden"
+              onChange={e => importReferences(e.target.files)}
+            />
+          </div>
+          <p className="text-xs text-zinc-500">
+            Título, autores, año y resumen se extraen del PDF; puedes corregirlos después.
+            Las referencias importadas que coinciden por DOI o título se fusionan, y un PDF
+            que coincide con una referencia se le adjunta.
+          </p>
+          {notice && (
+            <p className="text-xs text-amber-600 dark:text-amber-400 whitespace-pre-line">{notice}</p>
+          )}
+        </div>
+
+        {/* Filter */}
+        {papers.length > 0 && (
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="w-4 h-4 text-zinc-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={query}
+                onChange={e => setQuery(e.target.value)}
+                placeholder="Filtrar por título, autor o etiqueta..."
+                className={`${inputClass} pl-9`}
+              />
+            </div>
+            <a
+              href={exportHref}
+              download
+              aria-disabled={visiblePapers.length === 0}
+              className={`flex items-center gap-2 px-3 py-2 text-sm text-zinc-700 dark:text-zinc-300 border border-zinc-200 dark:border-zinc-700 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 whitespace-nowrap ${
+                visiblePapers.length === 0 ? 'pointer-events-none opacity-50' : ''
+              }`}
+            >
+              <Download className="w-4 h-4" />
+              Exportar BibTeX ({visiblePapers.length})
+            </a>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-12 text-zinc-500">
+            Cargando...
+          </div>
+        ) : papers.length === 0 ? (
+          <div className="text-center py-20">
+            <div className="w-16 h-16 bg-zinc-100 dark:bg-zinc-800 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Newspaper className="w-8 h-8 text-zinc-400" />
+            </div>
+            <h2 className="text-lg font-medium text-zinc-900 dark:text-white mb-2">
+              No hay artículos
+            </h2>
+            <p className="text-zinc-500">
+              Sube PDFs para buscarlos y citarlos desde tus preguntas
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {visiblePapers.map(paper => (
+              <div
+                key={paper.id}
+                className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-xl p-4"
+              >
+                {editingId === paper.id && draft ? (
+                  <div className="space-y-2">
+                    <input
+                      value={draft.title}
+                      onChange={e => setDraft({ ...draft, title: e.target.value })}
+                      placeholder="Título"
+                      className={inputClass}
+                    />
+                    <div className="flex gap-2">
+                      <input
+                        value={draft.authors}
+                        onChange={e => setDraft({ ...draft, authors: e.target.value })}
+                        placeholder="Autores (separados por ;)"
+                        className={inputClass}
+                      />
+                      <input
+                        value={draft.year}
+                        onChange={e => setDraft({ ...draft, year: e.target.value })}
+                        placeholder="Año"
+                        inputMode="numeric"
+                        className={`${inputClass} w-24`}
+                      />
+                    </div>
+                    <div className="flex gap-2">
+                      <input
+                        value={draft.doi}
+                        onChange={e => setDraft({ ...draft, doi: e.target.value })}
+                        placeholder="DOI"
+                        className={inputClass}
+                      />
+                      <input
+                        value={draft.tags}
+                        onChange={e => setDraft({ ...draft, tags: e.target.value })}
+                        placeholder="Etiquetas"
+                        className={inputClass}
+                      />
+                    </div>
+                    <textarea
+                      value={draft.abstract}
+                      onChange={e => setDraft({ ...draft, abstract: e.target.value })}
+                      placeholder="Resumen"
+                      rows={4}
+                      className={inputClass}
+                    />
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => { setEditingId(null); setDraft(null) }}
+                        className="px-3 py-1.5 text-sm text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg"
+                      >
+                        Cancelar
+                      </button>
+                      <button
+                        onClick={saveEdit}
+                        disabled={!draft.title.trim()}
+                        className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        Guardar
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <span className="text-xs text-zinc-500">{paper.citation}</span>
+                    <h2 className="text-zinc-900 dark:text-white font-medium mt-0.5">
+                      {paper.title}
+                    </h2>
+                    {paper.authors && (
+                      <p className="text-sm text-zinc-600 dark:text-zinc-400">{paper.authors}</p>
+                    )}
+                    {paper.abstract && (
+                      <p className="text-sm text-zinc-700 dark:text-zinc-300 mt-2 line-clamp-4">
+                        {paper.abstract}
+                      </p>
+                    )}
+                    {paper.tags.length > 0 && (
+                      <div className="mt-2 flex flex-wrap gap-1.5">
+                        {paper.tags.map(tag => (
+                          <span
+                            key={tag}
+                            className="text-xs px-2 py-0.5 bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-400 rounded-full"
+                          >
+                            {tag}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+
+                    {/* Footer */}
+                    <div className="flex items-center justify-between mt-3 pt-3 border-t border-zinc-100 dark:border-zinc-800">
+                      <span className="text-xs text-zinc-400 flex items-center gap-1">
+                        {!paper.fileUrl ? (
+                          'Solo referencia (sin PDF)'
+                        ) : !paper.hasText ? (
+                          'Sin texto (PDF escaneado)'
+                        ) : paper.isIndexed ? (
+                          <>
+                            <CheckCircle2 className="w-3 h-3 text-green-500" />
+                            Indexado · {paper.chunkCount} fragmentos
+                          </>
+                        ) : (
+                          <>
+                            <Clock className="w-3 h-3" />
+                            Indexando...
+                          </>
+                        )}
+                        {paper.pageCount ? ` · ${paper.pageCount} págs.` : ''}
+                      </span>
+                      <div className="flex items-center gap-3">
+                        {paper.fileUrl && (
+                          <a
+                            href={paper.fileUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-xs text-zinc-400 hover:text-blue-600 flex items-center gap-1"
+                          >
+                            <ExternalLink className="w-3 h-3" />
+                            PDF
+                          </a>
+                        )}
+                        <button
+                          onClick={() => startEditing(paper)}
+                          className="text-xs text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 flex items-center gap-1"
+                        >
+                          <Pencil className="w-3 h-3" />
+                          Editar
+                        </button>
+                        {paper.hasText && (
+                          <button
+                            onClick={() => reindex(paper)}
+                            className="text-xs text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 flex items-center gap-1"
+                          >
+                            <RefreshCw className="w-3 h-3" />
+                            Reindexar
+                          </button>
+                        )}
+                        <button
+                          onClick={() => deletePaper(paper)}
+                          className="text-xs text-zinc-400 hover:text-red-500 flex items-center gap-1"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                          Eliminar
+                        </button>
+                      </div>
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
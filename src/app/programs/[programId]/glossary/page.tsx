@@ -0,0 +1,295 @@
+'use client'
+
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { useCallback, useEffect, useState } from 'react'
+
+interface GlossaryTerm {
+  id: string
+  term: string
+  variants: string[]
+  category: string | null
+}
+
+interface PreviewCorrection {
+  from: string
+  to: string
+  kind: 'accent' | 'variant' | 'fuzzy'
+}
+
+const KIND_LABELS: Record<PreviewCorrection['kind'], string> = {
+  accent: 'acentos',
+  variant: 'variante',
+  fuzzy: 'aproximado',
+}
+
+function splitVariants(value: string): string[] {
+  return value.split(',').map(v => v.trim()).filter(Boolean)
+}
+
+function TermRow({
+  programId,
+  term,
+  onChange,
+}: {
+  programId: string
+  term: GlossaryTerm
+  onChange: () => void
+}) {
+  const [editing, setEditing] = useState(false)
+  const [name, setName] = useState(term.term)
+  const [variants, setVariants] = useState(term.variants.join(', '))
+  const [category, setCategory] = useState(term.category || '')
+  const [error, setError] = useState<string | null>(null)
+
+  const save = async () => {
+    setError(null)
+    const res = await fetch(`/api/programs/${programId}/glossary/${term.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ term: name, variants: splitVariants(variants), category }),
+    })
+    if (!res.ok) {
+      setError(res.status === 409 ? 'Ese término ya existe' : 'No se pudo guardar')
+      return
+    }
+    setEditing(false)
+    onChange()
+  }
+
+  const remove = async () => {
+    if (!confirm(`¿Eliminar "${term.term}" del glosario?`)) return
+    await fetch(`/api/programs/${programId}/glossary/${term.id}`, { method: 'DELETE' })
+    onChange()
+  }
+
+  if (editing) {
+    return (
+      <li className="space-y-2 py-3">
+        <div className="grid gap-2 sm:grid-cols-[1fr_2fr_1fr]">
+          <input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            className="rounded-lg border border-zinc-300 px-3 py-1.5 text-sm dark:border-zinc-700 dark:bg-zinc-800"
+          />
+          <input
+            value={variants}
+            onChange={e => setVariants(e.target.value)}
+            placeholder="Variantes, separadas por comas"
+            className="rounded-lg border border-zinc-300 px-3 py-1.5 text-sm dark:border-zinc-700 dark:bg-zinc-800"
+          />
+          <input
+            value={category}
+            onChange={e => setCategory(e.target.value)}
+            placeholder="Categoría"
+            className="rounded-lg border border-zinc-300 px-3 py-1.5 text-sm dark:border-zinc-700 dark:bg-zinc-800"
+          />
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div className="flex gap-2">
+          <button
+            onClick={save}
+            disabled={!name.trim()}
+            className="rounded-lg bg-blue-600 px-3 py-1 text-sm text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            Guardar
+          </button>
+          <button onClick={() => setEditing(false)} className="px-3 py-1 text-sm text-zinc-500 hover:text-zinc-900">
+            Cancelar
+          </button>
+        </div>
+      </li>
+    )
+  }
+
+  return (
+    <li className="flex items-start gap-4 py-3">
+      <div className="min-w-0 flex-1">
+        <p className="font-medium text-zinc-900 dark:text-white">
+          {term.term}
+          {term.category && (
+            <span className="ml-2 rounded-full bg-zinc-100 px-2 py-0.5 text-xs font-normal text-zinc-500 dark:bg-zinc-800">
+              {term.category}
+            </span>
+          )}
+        </p>
+        {term.variants.length > 0 && (
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">{term.variants.join(', ')}</p>
+        )}
+      </div>
+      <button onClick={() => setEditing(true)} className="text-sm text-blue-600 hover:underline">
+        Editar
+      </button>
+      <button onClick={remove} className="text-sm text-red-600 hover:underline">
+        Eliminar
+      </button>
+    </li>
+  )
+}
+
+export default function GlossaryPage() {
+  const params = useParams()
+  const programId = params.programId as string
+  const [terms, setTerms] = useState<GlossaryTerm[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filter, setFilter] = useState('')
+  const [bulk, setBulk] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [sample, setSample] = useState('')
+  const [preview, setPreview] = useState<{ text: string; corrections: PreviewCorrection[] } | null>(null)
+
+  const fetchTerms = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/programs/${programId}/glossary`)
+      if (res.ok) setTerms(await res.json())
+    } finally {
+      setLoading(false)
+    }
+  }, [programId])
+
+  useEffect(() => {
+    fetchTerms()
+  }, [fetchTerms])
+
+  const addTerms = async () => {
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/programs/${programId}/glossary`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text: bulk }),
+      })
+      if (res.ok) {
+        setBulk('')
+        await fetchTerms()
+      }
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const runPreview = async () => {
+    const res = await fetch(`/api/programs/${programId}/glossary?preview=1`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text: sample }),
+    })
+    if (res.ok) setPreview(await res.json())
+  }
+
+  const query = filter.trim().toLowerCase()
+  const visible = query
+    ? terms.filter(t => [t.term, ...t.variants, t.category || ''].some(v => v.toLowerCase().includes(query)))
+    : terms
+
+  return (
+    <div className="min-h-screen">
+      <header className="border-b border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900">
+        <div className="mx-auto max-w-4xl px-4 py-6 sm:px-6 lg:px-8">
+          <div className="flex items-center gap-4">
+            <Link
+              href={`/programs/${programId}`}
+              className="rounded-lg p-2 text-zinc-500 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+            >
+              <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold text-zinc-900 dark:text-white">Glosario</h1>
+              <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                Términos que se corrigen automáticamente en las transcripciones
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-4xl space-y-8 px-4 py-8 sm:px-6 lg:px-8">
+        <section className="rounded-xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+          <h2 className="mb-2 font-semibold text-zinc-900 dark:text-white">Añadir términos</h2>
+          <p className="mb-3 text-sm text-zinc-500 dark:text-zinc-400">
+            Uno por línea, con las formas en que suele transcribirse mal: <code>término: variante, variante</code>.
+            Las palabras parecidas (una o dos letras distintas) también se corrigen.
+          </p>
+          <textarea
+            value={bulk}
+            onChange={e => setBulk(e.target.value)}
+            rows={5}
+            placeholder={'ácido láctico: acido lactico, ácido lático\nglucólisis: glucolisis, glicolisis'}
+            className="w-full rounded-lg border border-zinc-300 p-3 font-mono text-sm dark:border-zinc-700 dark:bg-zinc-800"
+          />
+          <button
+            onClick={addTerms}
+            disabled={saving || !bulk.trim()}
+            className="mt-2 rounded-lg bg-blue-600 px-4 py-2 text-sm text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Guardando...' : 'Añadir'}
+          </button>
+        </section>
+
+        <section className="rounded-xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+          <div className="mb-2 flex items-center gap-4">
+            <h2 className="font-semibold text-zinc-900 dark:text-white">Términos ({terms.length})</h2>
+            <input
+              value={filter}
+              onChange={e => setFilter(e.target.value)}
+              placeholder="Buscar..."
+              className="ml-auto rounded-lg border border-zinc-300 px-3 py-1.5 text-sm dark:border-zinc-700 dark:bg-zinc-800"
+            />
+          </div>
+          {loading ? (
+            <p className="text-sm text-zinc-500">Cargando...</p>
+          ) : visible.length === 0 ? (
+            <p className="text-sm text-zinc-500">{terms.length === 0 ? 'El glosario está vacío.' : 'Sin resultados.'}</p>
+          ) : (
+            <ul className="divide-y divide-zinc-100 dark:divide-zinc-800">
+              {visible.map(term => (
+                <TermRow key={term.id} programId={programId} term={term} onChange={fetchTerms} />
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="rounded-xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+          <h2 className="mb-2 font-semibold text-zinc-900 dark:text-white">Probar</h2>
+          <p className="mb-3 text-sm text-zinc-500 dark:text-zinc-400">
+            Pega un fragmento de transcripción para ver qué cambiaría. Para corregir las lecciones ya
+            transcritas: <code>npx tsx scripts/apply-glossary.ts --program {programId}</code>
+          </p>
+          <textarea
+            value={sample}
+            onChange={e => setSample(e.target.value)}
+            rows={3}
+            className="w-full rounded-lg border border-zinc-300 p-3 text-sm dark:border-zinc-700 dark:bg-zinc-800"
+          />
+          <button
+            onClick={runPreview}
+            disabled={!sample.trim()}
+            className="mt-2 rounded-lg border border-zinc-300 px-4 py-2 text-sm hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-700 dark:hover:bg-zinc-800"
+          >
+            Probar
+          </button>
+          {preview && (
+            <div className="mt-4 space-y-2 text-sm">
+              <p className="rounded-lg bg-zinc-50 p-3 dark:bg-zinc-800">{preview.text}</p>
+              {preview.corrections.length === 0 ? (
+                <p className="text-zinc-500">Sin cambios.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {preview.corrections.map((c, i) => (
+                    <li key={i}>
+                      <span className="text-red-600 line-through">{c.from}</span> →{' '}
+                      <span className="font-medium text-green-700">{c.to}</span>{' '}
+                      <span className="text-xs text-zinc-400">({KIND_LABELS[c.kind]})</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  )
+}
@@ -132,6 +132,12 @@ export default function ProgramPage() {
                 {program.fullName}
               </p>
             </div>
+            <Link
+              href={`/programs/${program.id}/glossary`}
+              className="ml-auto rounded-lg border border-zinc-200 px-3 py-1.5 text-sm text-zinc-600 hover:bg-zinc-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+            >
+              Glosario
+            </Link>
           </div>
         </div>
       </header>
@@ -0,0 +1,268 @@
+'use client'
+
+import { useEffect, useState, useCallback, useRef } from 'react'
+import Link from 'next/link'
+import { getIntervalText, type Rating } from '@/lib/srs'
+
+interface Flashcard {
+  id: string
+  front: string
+  back: string
+  type: 'CONCEPT' | 'DEFINITION' | 'PROCESS' | 'FACT'
+  interval: number
+  easeFactor: number
+  repetitions: number
+  nextReview: string
+  lesson: {
+    id: string
+    title: string
+    subject: {
+      id: string
+      name: string
+      color: string
+    }
+  }
+}
+
+interface Props {
+  lessonId?: string
+  subjectId?: string
+  programId?: string
+}
+
+const RATING_BUTTONS: { rating: Rating; label: string; key: string; className: string }[] = [
+  { rating: 'AGAIN', label: 'Otra vez', key: '1', className: 'bg-red-100 text-red-700 hover:bg-red-200' },
+  { rating: 'HARD', label: 'Difícil', key: '2', className: 'bg-orange-100 text-orange-700 hover:bg-orange-200' },
+  { rating: 'GOOD', label: 'Bien', key: '3', className: 'bg-green-100 text-green-700 hover:bg-green-200' },
+  { rating: 'EASY', label: 'Fácil', key: '4', className: 'bg-blue-100 text-blue-700 hover:bg-blue-200' },
+]
+
+const TYPE_LABELS: Record<Flashcard['type'], string> = {
+  CONCEPT: 'Concepto',
+  DEFINITION: 'Definición',
+  PROCESS: 'Proceso',
+  FACT: 'Dato',
+}
+
+export default function ReviewClient({ lessonId, subjectId, programId }: Props) {
+  const [queue, setQueue] = useState<Flashcard[]>([])
+  const [dueCount, setDueCount] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showBack, setShowBack] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [stats, setStats] = useState({ reviewed: 0, correct: 0 })
+  const shownAtRef = useRef(0)
+
+  // Fetch due cards for the requested scope
+  useEffect(() => {
+    async function fetchCards() {
+      try {
+        const params = new URLSearchParams()
+        if (lessonId) params.set('lessonId', lessonId)
+        if (subjectId) params.set('subjectId', subjectId)
+        if (programId) params.set('programId', programId)
+
+        const res = await fetch(`/api/flashcards?${params.toString()}`)
+        if (!res.ok) throw new Error('Failed to fetch flashcards')
+        const data = await res.json()
+        setQueue(data.cards)
+        setDueCount(data.dueCount)
+        shownAtRef.current = Date.now()
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Unknown error')
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchCards()
+  }, [lessonId, subjectId, programId])
+
+  const current = queue[0]
+
+  const rate = useCallback(async (rating: Rating) => {
+    if (!current || submitting) return
+
+    setSubmitting(true)
+    try {
+      const duration = Math.round((Date.now() - shownAtRef.current) / 1000)
+      const res = await fetch(`/api/flashcards/${current.id}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rating, duration })
+      })
+      if (!res.ok) throw new Error('Failed to save review')
+      const updated = await res.json()
+
+      setStats(prev => ({
+        reviewed: prev.reviewed + 1,
+        correct: prev.correct + (rating === 'AGAIN' ? 0 : 1),
+      }))
+
+      // Failed cards go back to the end of the session queue
+      setQueue(prev => {
+        const [, ...rest] = prev
+        return rating === 'AGAIN' ? [...rest, { ...current, ...updated }] : rest
+      })
+      setShowBack(false)
+      shownAtRef.current = Date.now()
+    } catch (e) {
+      console.error('Error reviewing flashcard:', e)
+    } finally {
+      setSubmitting(false)
+    }
+  }, [current, submitting])
+
+  // Keyboard shortcuts: space reveals, 1-4 rate
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (!current) return
+      if (e.key === ' ' && !showBack) {
+        e.preventDefault()
+        setShowBack(true)
+        return
+      }
+      if (showBack) {
+        const button = RATING_BUTTONS.find(b => b.key === e.key)
+        if (button) rate(button.rating)
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [current, showBack, rate])
+
+  const backHref = lessonId
+    ? `/lessons/${lessonId}`
+    : subjectId
+      ? `/subjects/${subjectId}`
+      : programId
+        ? `/programs/${programId}`
+        : '/'
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-red-600 mb-4">{error}</p>
+          <Link href={backHref} className="text-blue-600 hover:underline">
+            Volver
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b sticky top-0 z-10">
+        <div className="max-w-3xl mx-auto px-4 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link href={backHref} className="text-gray-500 hover:text-gray-700">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </Link>
+            <div>
+              <h1 className="font-semibold text-gray-900">Repaso de Flashcards</h1>
+              <p className="text-sm text-gray-500">
+                {queue.length} pendientes · {stats.reviewed} repasadas
+              </p>
+            </div>
+          </div>
+          {dueCount > queue.length + stats.reviewed && (
+            <span className="text-xs text-gray-400">
+              {dueCount} vencidas en total
+            </span>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 py-8">
+        {!current ? (
+          <div className="bg-white rounded-xl border p-10 text-center">
+            <p className="text-4xl mb-4">🎉</p>
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">
+              {stats.reviewed > 0 ? '¡Repaso completado!' : 'No hay tarjetas pendientes'}
+            </h2>
+            {stats.reviewed > 0 && (
+              <p className="text-gray-500 mb-6">
+                {stats.reviewed} tarjetas · {Math.round((stats.correct / stats.reviewed) * 100)}% acertadas
+              </p>
+            )}
+            <Link href={backHref} className="text-blue-600 hover:underline">
+              Volver
+            </Link>
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl border shadow-sm overflow-hidden">
+            <div className="px-6 py-3 border-b flex items-center justify-between text-sm">
+              <span className="flex items-center gap-2 text-gray-500">
+                <span
+                  className="w-2 h-2 rounded-full"
+                  style={{ backgroundColor: current.lesson.subject.color }}
+                />
+                {current.lesson.subject.name} · {current.lesson.title}
+              </span>
+              <span className="px-2 py-0.5 text-xs bg-gray-100 text-gray-600 rounded">
+                {TYPE_LABELS[current.type]}
+              </span>
+            </div>
+
+            <div className="px-8 py-10 min-h-[220px] flex flex-col justify-center">
+              <p className="text-xl text-gray-900 text-center whitespace-pre-wrap">
+                {current.front}
+              </p>
+              {showBack && (
+                <>
+                  <hr className="my-6" />
+                  <p className="text-lg text-gray-700 text-center whitespace-pre-wrap">
+                    {current.back}
+                  </p>
+                </>
+              )}
+            </div>
+
+            <div className="px-6 py-4 bg-gray-50 border-t">
+              {!showBack ? (
+                <button
+                  onClick={() => setShowBack(true)}
+                  className="w-full py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+                >
+                  Mostrar respuesta
+                  <span className="ml-2 text-xs text-blue-200">(espacio)</span>
+                </button>
+              ) : (
+                <div className="grid grid-cols-4 gap-2">
+                  {RATING_BUTTONS.map(button => (
+                    <button
+                      key={button.rating}
+                      onClick={() => rate(button.rating)}
+                      disabled={submitting}
+                      className={`py-3 rounded-lg font-medium transition disabled:opacity-50 ${button.className}`}
+                    >
+                      <span className="block text-xs opacity-70">
+                        {getIntervalText(button.rating, { ...current, nextReview: new Date(current.nextReview) })}
+                      </span>
+                      {button.label}
+                      <span className="block text-xs opacity-50">{button.key}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
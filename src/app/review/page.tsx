@@ -0,0 +1,15 @@
+import type { Metadata } from 'next'
+import ReviewClient from './ReviewClient'
+
+export const metadata: Metadata = {
+  title: 'ClassMind - Repaso de Flashcards',
+}
+
+type PageProps = {
+  searchParams: Promise<{ lessonId?: string; subjectId?: string; programId?: string }>
+}
+
+export default async function ReviewPage({ searchParams }: PageProps) {
+  const { lessonId, subjectId, programId } = await searchParams
+  return <ReviewClient lessonId={lessonId} subjectId={subjectId} programId={programId} />
+}
@@ -1,17 +1,24 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { ArrowLeft, Trash2, Copy, Check, BookOpen } from 'lucide-react'
+import { ArrowLeft, Trash2, Copy, Check, BookOpen, Download } from 'lucide-react'
 import Link from 'next/link'
+import { CitedText } from '@/components/CitedText'
 
 interface SavedQA {
   id: string
   question: string
   answer: string
   sources: {
+    n?: number
     title: string
+    sourceType?: string
+    sourceId?: string
     lessonId: string | null
+    headingPath?: string[]
+    href?: string | null
     similarity: number
+    cited?: boolean
   }[]
   createdAt: string
 }
@@ -134,9 +141,11 @@ export default function SavedPage() {
                   <span className="text-xs text-zinc-500 uppercase tracking-wide">
                     Respuesta
                   </span>
-                  <p className="text-zinc-700 dark:text-zinc-300 mt-1 whitespace-pre-wrap">
-                    {item.answer}
-                  </p>
+                  <CitedText
+                    text={item.answer}
+                    sources={item.sources || []}
+                    className="text-zinc-700 dark:text-zinc-300 mt-1 whitespace-pre-wrap"
+                  />
                 </div>
 
                 {/* Sources */}
@@ -149,10 +158,10 @@ export default function SavedPage() {
                       {item.sources.map((source, i) => (
                         <Link
                           key={i}
-                          href={source.lessonId ? `/lessons/${source.lessonId}/cornell` : '#'}
+                          href={source.href || (source.lessonId ? `/lessons/${source.lessonId}/cornell` : '#')}
                           className="text-xs px-2 py-1 bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 rounded hover:underline"
                         >
-                          {source.title}
+                          {source.n ? `[${source.n}] ` : ''}{source.title}
                         </Link>
                       ))}
                     </div>
@@ -165,6 +174,16 @@ export default function SavedPage() {
                     {formatDate(item.createdAt)}
                   </span>
                   <div className="flex items-center gap-2">
+                    {item.sources?.some(s => s.sourceType === 'paper' && s.sourceId && s.cited !== false) && (
+                      <a
+                        href={`/api/papers/export?savedId=${item.id}`}
+                        download
+                        className="text-xs text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 flex items-center gap-1"
+                      >
+                        <Download className="w-3 h-3" />
+                        BibTeX
+                      </a>
+                    )}
                     <button
                       onClick={() => copyToClipboard(item.answer, item.id)}
                       className="text-xs text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 flex items-center gap-1"
@@ -142,12 +142,15 @@ export default async function SubjectPage({ params }: PageProps) {
             <p className="text-2xl font-bold text-gray-900">{totalSegments}</p>
             <p className="text-sm text-gray-500">Segmentos</p>
           </div>
-          <div className="bg-white rounded-lg border p-4">
+          <Link
+            href={`/review?subjectId=${subject.id}`}
+            className="bg-white rounded-lg border p-4 hover:border-blue-300 transition"
+          >
             <p className="text-2xl font-bold text-gray-900">
               {subject.lessons.reduce((sum, l) => sum + l._count.flashcards, 0)}
             </p>
-            <p className="text-sm text-gray-500">Flashcards</p>
-          </div>
+            <p className="text-sm text-gray-500">Flashcards · Repasar →</p>
+          </Link>
         </div>
 
         {/* Study Progress */}
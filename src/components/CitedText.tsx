@@ -0,0 +1,47 @@
+'use client'
+
+import Link from 'next/link'
+
+export interface CitationSource {
+  title: string
+  href?: string | null
+}
+
+interface Props {
+  text: string
+  // sources[n - 1] is the source of marker [n]
+  sources: CitationSource[]
+  className?: string
+}
+
+/**
+ * Answer text with its [n] markers rendered as links to the cited source
+ */
+export function CitedText({ text, sources, className }: Props) {
+  const parts = text.split(/(\[\d+\])/g)
+
+  return (
+    <p className={className}>
+      {parts.map((part, i) => {
+        const marker = part.match(/^\[(\d+)\]$/)
+        const source = marker ? sources[parseInt(marker[1]) - 1] : undefined
+        if (!marker || !source) return part
+
+        return source.href ? (
+          <Link
+            key={i}
+            href={source.href}
+            title={source.title}
+            className="inline-block align-super text-[0.7em] leading-none px-1 mx-px rounded bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300 hover:underline no-underline"
+          >
+            {marker[1]}
+          </Link>
+        ) : (
+          <sup key={i} title={source.title} className="px-1 text-blue-700 dark:text-blue-300">
+            {marker[1]}
+          </sup>
+        )
+      })}
+    </p>
+  )
+}
@@ -1,17 +1,34 @@
 'use client'
 
-import { useState, useEffect, useCallback, useRef } from 'react'
-import { Search, X, Loader2, FileText, BookOpen, StickyNote, ClipboardList, ExternalLink } from 'lucide-react'
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
+import { usePathname } from 'next/navigation'
+import { Search, X, Loader2, FileText, BookOpen, StickyNote, ClipboardList, Newspaper, ExternalLink, SlidersHorizontal } from 'lucide-react'
 import Link from 'next/link'
+import { CitedText } from './CitedText'
+import { ScopeFilter, SOURCE_TYPE_LABELS, isScoped } from './ScopeFilter'
+import type { KnowledgeScope } from '@/lib/knowledge'
 
 interface SearchResult {
+  // Number used by the [n] markers in the answer
+  n: number
   id: string
   content: string
   similarity: number
+  scores: {
+    rrf: number
+    vector: number | null
+    vectorRank: number | null
+    text: number | null
+    textRank: number | null
+    rerank: number | null
+    mmr: number | null
+  }
   sourceType: string
   lessonId: string | null
   subjectId: string | null
   title: string | null
+  headingPath: string[]
+  href: string | null
 }
 
 interface SearchResponse {
@@ -26,13 +43,19 @@ const sourceTypeIcons: Record<string, typeof FileText> = {
   slide: BookOpen,
   cornell: StickyNote,
   summary: ClipboardList,
+  paper: Newspaper,
 }
 
-const sourceTypeLabels: Record<string, string> = {
-  transcript: 'Transcripción',
-  slide: 'Diapositiva',
-  cornell: 'Cornell Notes',
-  summary: 'Resumen',
+// Tooltip explaining the fused relevance
+function describeScores(scores: SearchResult['scores']) {
+  const text = scores.textRank
+    ? `Texto: #${scores.textRank} (${scores.text?.toFixed(3)})`
+    : 'Texto: sin coincidencia'
+  const vector = scores.vectorRank
+    ? `Semántica: #${scores.vectorRank} (${Math.round((scores.vector ?? 0) * 100)}%)`
+    : 'Semántica: sin coincidencia'
+  const rerank = scores.rerank !== null ? `\nReranker: ${Math.round(scores.rerank * 100)}%` : ''
+  return `${text}\n${vector}\nRRF: ${scores.rrf.toFixed(4)}${rerank}`
 }
 
 export function CommandPalette() {
@@ -42,15 +65,31 @@ export function CommandPalette() {
   const [answer, setAnswer] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [selectedIndex, setSelectedIndex] = useState(0)
+  const [scope, setScope] = useState<KnowledgeScope>({})
+  const [showFilters, setShowFilters] = useState(false)
+  // Restrict to the lesson whose Cornell notes are open
+  const [lessonOnly, setLessonOnly] = useState(false)
   const inputRef = useRef<HTMLInputElement>(null)
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null)
 
+  const pathname = usePathname()
+  const cornellLessonId = pathname?.match(/^\/lessons\/([^/]+)\/cornell/)?.[1] ?? null
+
+  const activeScope = useMemo<KnowledgeScope>(
+    () => lessonOnly && cornellLessonId
+      ? { sourceTypes: scope.sourceTypes, lessonId: cornellLessonId }
+      : scope,
+    [scope, lessonOnly, cornellLessonId]
+  )
+
   // Handle keyboard shortcut
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       // ⌘K or Ctrl+K to open
       if ((e.metaKey || e.ctrlKey) && e.key === 'k') {
         e.preventDefault()
+        // From a Cornell page, start with that lesson only
+        if (!isOpen) setLessonOnly(!!cornellLessonId)
         setIsOpen(true)
       }
       // Escape to close
@@ -64,7 +103,7 @@ export function CommandPalette() {
 
     document.addEventListener('keydown', handleKeyDown)
     return () => document.removeEventListener('keydown', handleKeyDown)
-  }, [isOpen])
+  }, [isOpen, cornellLessonId])
 
   // Focus input when opened
   useEffect(() => {
@@ -84,8 +123,8 @@ export function CommandPalette() {
       } else if (e.key === 'ArrowUp') {
         e.preventDefault()
         setSelectedIndex(i => (i - 1 + results.length) % results.length)
-      } else if (e.key === 'Enter' && results[selectedIndex]?.lessonId) {
-        window.location.href = `/lessons/${results[selectedIndex].lessonId}/cornell`
+      } else if (e.key === 'Enter' && results[selectedIndex]?.href) {
+        window.location.href = results[selectedIndex].href
       }
     }
 
@@ -94,7 +133,7 @@ export function CommandPalette() {
   }, [isOpen, results, selectedIndex])
 
   // Debounced search
-  const search = useCallback(async (searchQuery: string) => {
+  const search = useCallback(async (searchQuery: string, searchScope: KnowledgeScope) => {
     if (!searchQuery.trim() || searchQuery.length < 3) {
       setResults([])
       setAnswer(null)
@@ -110,6 +149,7 @@ export function CommandPalette() {
         body: JSON.stringify({
           query: searchQuery,
           limit: 5,
+          filters: searchScope,
           includeAnswer: true,  // This triggers AI to synthesize answer from your notes
         }),
       })
@@ -134,7 +174,7 @@ export function CommandPalette() {
     }
 
     searchTimeoutRef.current = setTimeout(() => {
-      search(query)
+      search(query, activeScope)
     }, 300)
 
     return () => {
@@ -142,7 +182,7 @@ export function CommandPalette() {
         clearTimeout(searchTimeoutRef.current)
       }
     }
-  }, [query, search])
+  }, [query, activeScope, search])
 
   if (!isOpen) return null
 
@@ -173,6 +213,28 @@ export function CommandPalette() {
               placeholder="Buscar en tu base de conocimiento..."
               className="flex-1 px-4 py-4 bg-transparent text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none"
             />
+            {cornellLessonId && (
+              <button
+                onClick={() => setLessonOnly(v => !v)}
+                title="Buscar solo en la clase abierta"
+                className={`mr-2 px-2 py-1 text-xs rounded-full whitespace-nowrap transition-colors ${
+                  lessonOnly
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'
+                }`}
+              >
+                Solo esta clase
+              </button>
+            )}
+            <button
+              onClick={() => setShowFilters(v => !v)}
+              title="Filtrar por programa, asignatura, clase o tipo de fuente"
+              className={`mr-2 p-1 rounded ${
+                isScoped(scope) ? 'text-blue-600' : 'text-slate-400 hover:text-slate-600'
+              }`}
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+            </button>
             {isLoading ? (
               <Loader2 className="w-5 h-5 text-slate-400 animate-spin" />
             ) : query ? (
@@ -193,6 +255,19 @@ export function CommandPalette() {
             )}
           </div>
 
+          {/* Scope */}
+          {showFilters && (
+            <div className="px-4 py-3 border-b border-slate-200 dark:border-slate-700">
+              {lessonOnly && cornellLessonId ? (
+                <p className="text-xs text-slate-500">
+                  Buscando solo en esta clase. Desactiva &quot;Solo esta clase&quot; para elegir otro ámbito.
+                </p>
+              ) : (
+                <ScopeFilter value={scope} onChange={setScope} />
+              )}
+            </div>
+          )}
+
           {/* AI Answer */}
           {answer && (
             <div className="px-4 py-3 bg-blue-50 dark:bg-blue-900/30 border-b border-slate-200 dark:border-slate-700">
@@ -200,9 +275,11 @@ export function CommandPalette() {
                 <span className="px-2 py-0.5 text-xs font-medium bg-blue-100 dark:bg-blue-800 text-blue-700 dark:text-blue-200 rounded">
                   IA
                 </span>
-                <p className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap">
-                  {answer}
-                </p>
+                <CitedText
+                  text={answer}
+                  sources={results.map(r => ({ title: r.title || 'Sin título', href: r.href }))}
+                  className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap"
+                />
               </div>
             </div>
           )}
@@ -218,7 +295,7 @@ export function CommandPalette() {
                 return (
                   <Link
                     key={result.id}
-                    href={result.lessonId ? `/lessons/${result.lessonId}/cornell` : '#'}
+                    href={result.href || '#'}
                     className={`flex items-start gap-3 px-4 py-3 cursor-pointer transition-colors ${
                       index === selectedIndex
                         ? 'bg-blue-50 dark:bg-blue-900/30'
@@ -235,15 +312,20 @@ export function CommandPalette() {
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center gap-2 mb-1">
                         <span className="text-sm font-medium text-slate-900 dark:text-white truncate">
-                          {result.title || 'Sin título'}
+                          [{result.n}] {result.title || 'Sin título'}
                         </span>
                         <span className="px-1.5 py-0.5 text-xs text-slate-500 bg-slate-100 dark:bg-slate-800 rounded">
-                          {sourceTypeLabels[result.sourceType] || result.sourceType}
+                          {SOURCE_TYPE_LABELS[result.sourceType] || result.sourceType}
                         </span>
-                        <span className="text-xs text-slate-400">
+                        <span className="text-xs text-slate-400" title={describeScores(result.scores)}>
                           {Math.round(result.similarity * 100)}%
                         </span>
                       </div>
+                      {result.headingPath.length > 0 && (
+                        <p className="text-xs text-blue-600 dark:text-blue-400 mb-1 truncate">
+                          {result.headingPath.join(' › ')}
+                        </p>
+                      )}
                       <p className="text-sm text-slate-600 dark:text-slate-400 line-clamp-2">
                         {result.content}
                       </p>
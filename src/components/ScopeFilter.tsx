@@ -0,0 +1,145 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { KnowledgeScope } from '@/lib/knowledge'
+
+export const SOURCE_TYPE_LABELS: Record<string, string> = {
+  transcript: 'Transcripción',
+  slide: 'Diapositiva',
+  cornell: 'Cornell Notes',
+  summary: 'Resumen',
+  paper: 'Artículo',
+}
+
+export interface ScopeOptions {
+  programs: { id: string; name: string }[]
+  subjects: { id: string; name: string; programId: string | null }[]
+  lessons: { id: string; title: string; subjectId: string }[]
+}
+
+// Fetched once per page load and shared by every selector
+let scopeOptions: Promise<ScopeOptions> | null = null
+export function loadScopeOptions(): Promise<ScopeOptions> {
+  if (!scopeOptions) {
+    scopeOptions = fetch('/api/knowledge/scopes')
+      .then(res => {
+        if (!res.ok) throw new Error(`Scopes request failed: ${res.status}`)
+        return res.json()
+      })
+    scopeOptions.catch(() => {
+      scopeOptions = null
+    })
+  }
+  return scopeOptions
+}
+
+export function isScoped(scope: KnowledgeScope): boolean {
+  return !!(scope.programId || scope.subjectId || scope.lessonId || scope.sourceTypes?.length)
+}
+
+interface Props {
+  value: KnowledgeScope
+  onChange: (scope: KnowledgeScope) => void
+  className?: string
+}
+
+const selectClass =
+  'min-w-0 flex-1 px-2 py-1 text-xs bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 rounded-md border border-zinc-200 dark:border-zinc-700 focus:outline-none focus:ring-1 focus:ring-blue-500'
+
+/**
+ * Program / subject / lesson selectors and source type toggles
+ */
+export function ScopeFilter({ value, onChange, className = '' }: Props) {
+  const [options, setOptions] = useState<ScopeOptions | null>(null)
+
+  useEffect(() => {
+    loadScopeOptions()
+      .then(setOptions)
+      .catch(error => console.error('Failed to load scopes:', error))
+  }, [])
+
+  const subjects = options?.subjects.filter(s => !value.programId || s.programId === value.programId) || []
+  const lessons = options?.lessons.filter(l =>
+    value.subjectId ? l.subjectId === value.subjectId : l.id === value.lessonId
+  ) || []
+
+  const toggleSourceType = (type: string) => {
+    const current = value.sourceTypes || []
+    const next = current.includes(type) ? current.filter(t => t !== type) : [...current, type]
+    onChange({ ...value, sourceTypes: next.length > 0 ? next : undefined })
+  }
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <div className="flex gap-2">
+        <select
+          value={value.programId || ''}
+          onChange={e => onChange({ ...value, programId: e.target.value || undefined, subjectId: undefined, lessonId: undefined })}
+          className={selectClass}
+        >
+          <option value="">Todos los programas</option>
+          {options?.programs.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <select
+          value={value.subjectId || ''}
+          onChange={e => {
+            const subject = options?.subjects.find(s => s.id === e.target.value)
+            onChange({
+              ...value,
+              programId: subject?.programId || value.programId,
+              subjectId: subject?.id,
+              lessonId: undefined,
+            })
+          }}
+          className={selectClass}
+        >
+          <option value="">Todas las asignaturas</option>
+          {subjects.map(s => (
+            <option key={s.id} value={s.id}>{s.name}</option>
+          ))}
+        </select>
+        <select
+          value={value.lessonId || ''}
+          onChange={e => onChange({ ...value, lessonId: e.target.value || undefined })}
+          disabled={lessons.length === 0}
+          className={`${selectClass} disabled:opacity-50`}
+        >
+          <option value="">Todas las clases</option>
+          {lessons.map(l => (
+            <option key={l.id} value={l.id}>{l.title}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex flex-wrap items-center gap-1.5">
+        {Object.entries(SOURCE_TYPE_LABELS).map(([type, label]) => {
+          const active = value.sourceTypes?.includes(type)
+          return (
+            <button
+              key={type}
+              type="button"
+              onClick={() => toggleSourceType(type)}
+              className={`px-2 py-0.5 text-xs rounded-full border transition-colors ${
+                active
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'border-zinc-300 dark:border-zinc-600 text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800'
+              }`}
+            >
+              {label}
+            </button>
+          )
+        })}
+        {isScoped(value) && (
+          <button
+            type="button"
+            onClick={() => onChange({})}
+            className="ml-auto text-xs text-zinc-500 hover:text-red-600"
+          >
+            Quitar filtros
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
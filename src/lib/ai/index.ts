@@ -1,56 +1,241 @@
 /**
- * AI Integration via n8n webhook
- * Sends requests to n8n which uses Claude via SSH
+ * AI Integration
+ * Every model call goes through complete() / completeJSON() / streamComplete(),
+ * which add timeouts, retries and JSON validation on top of the configured provider
+ * (see ./providers - n8n, OpenAI, Ollama or mock)
  */
 
-const N8N_WEBHOOK_URL = process.env.N8N_WEBHOOK_URL || 'http://localhost:5678/webhook/classmind-ai'
+import { getAIProvider, isTransientError, type CompletionRequest } from './providers'
+import {
+  renderPrompt,
+  slideMatchPrompt,
+  lessonSummaryPrompt,
+  flashcardsPrompt,
+  quizPrompt,
+  explainConceptPrompt,
+} from '../prompts'
 
-export type AIAction =
-  | 'match_slides'      // Match transcript chunks to slides
-  | 'generate_summary'  // Generate lesson summary
-  | 'generate_flashcards' // Generate flashcards from content
-  | 'generate_quiz'     // Generate quiz questions
-  | 'explain_concept'   // Tutor: explain a concept
-  | 'answer_question'   // Tutor: answer a question
+export {
+  getAIProvider,
+  setMockResponder,
+  type AIProvider,
+  type AIProviderName,
+  type CompletionRequest,
+  type MockResponder,
+} from './providers'
 
-interface AIRequest {
-  action: AIAction
-  data: Record<string, unknown>
-  context?: string
+const AI_TIMEOUT_MS = parseInt(process.env.AI_TIMEOUT_MS || '180000')
+const AI_MAX_RETRIES = parseInt(process.env.AI_MAX_RETRIES || '2')
+const RETRY_BASE_MS = 1000
+
+export interface AICallOptions extends Omit<CompletionRequest, 'prompt'> {
+  timeoutMs?: number
+  retries?: number
+  provider?: string
 }
 
-interface AIResponse<T = unknown> {
-  success: boolean
-  result?: T
-  error?: string
+function timeoutError(message: string): Error {
+  const error = new Error(message)
+  error.name = 'TimeoutError'
+  return error
 }
 
-export async function callAI<T = unknown>(request: AIRequest): Promise<AIResponse<T>> {
+async function completeOnce(
+  request: CompletionRequest,
+  options: AICallOptions
+): Promise<string> {
+  const provider = getAIProvider(options.provider)
+  const controller = new AbortController()
+  const timeoutMs = options.timeoutMs ?? AI_TIMEOUT_MS
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+
   try {
-    const response = await fetch(N8N_WEBHOOK_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(request),
-    })
-
-    if (!response.ok) {
-      throw new Error(`AI request failed: ${response.statusText}`)
+    return (await provider.complete(request, controller.signal)).trim()
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw timeoutError(`${provider.name} timed out after ${timeoutMs}ms`)
     }
+    throw error
+  } finally {
+    clearTimeout(timer)
+  }
+}
 
-    const data = await response.json()
-    return { success: true, result: data as T }
-  } catch (error) {
-    console.error('AI call error:', error)
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
+/**
+ * Run `attempt` until it succeeds, with exponential backoff between tries.
+ * Only transient errors (network, timeout, 429, 5xx) are retried, and only
+ * while `canRetry` allows; others are thrown straight away.
+ */
+async function withRetries<T>(
+  attempt: () => Promise<T>,
+  retries: number,
+  canRetry: () => boolean = () => true
+): Promise<T> {
+  let lastError: unknown
+
+  for (let retry = 0; retry <= retries; retry++) {
+    if (retry > 0) {
+      await new Promise(r => setTimeout(r, RETRY_BASE_MS * 2 ** (retry - 1)))
+    }
+    try {
+      return await attempt()
+    } catch (error) {
+      if (!isTransientError(error) || !canRetry()) throw error
+      lastError = error
+      console.warn(
+        `AI call failed (attempt ${retry + 1}/${retries + 1}):`,
+        error instanceof Error ? error.message : error
+      )
+    }
+  }
+
+  throw lastError instanceof Error ? lastError : new Error(String(lastError))
+}
+
+/**
+ * Plain-text completion. Throws if every attempt fails or comes back empty.
+ */
+export async function complete(prompt: string, options: AICallOptions = {}): Promise<string> {
+  const { timeoutMs, retries, provider, ...request } = options
+
+  return withRetries(async () => {
+    const text = await completeOnce({ ...request, prompt }, { timeoutMs, provider })
+    if (!text) throw new Error('Empty AI response')
+    return text
+  }, retries ?? AI_MAX_RETRIES)
+}
+
+export interface AIStreamOptions extends AICallOptions {
+  // Called with each text delta as it arrives
+  onToken: (text: string) => void
+  // Cancellation from the caller, e.g. the client went away
+  signal?: AbortSignal
+}
+
+/**
+ * Streamed completion: deltas go to onToken, the full text is returned.
+ * Failures are only retried while nothing has been delivered yet, and a
+ * provider that cannot stream delivers its whole answer as one delta.
+ */
+export async function streamComplete(prompt: string, options: AIStreamOptions): Promise<string> {
+  const { timeoutMs, retries, provider: providerName, onToken, signal, ...request } = options
+  const provider = getAIProvider(providerName)
+  const limit = timeoutMs ?? AI_TIMEOUT_MS
+  let delivered = false
+
+  return withRetries(async () => {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), limit)
+    const cancel = () => controller.abort()
+    signal?.addEventListener('abort', cancel)
+
+    // Leading whitespace is dropped, as complete() trims
+    let text = ''
+    const deliver = (delta: string) => {
+      // Also stops providers that do not watch the signal themselves
+      controller.signal.throwIfAborted()
+      const chunk = text ? delta : delta.trimStart()
+      if (!chunk) return
+      text += chunk
+      delivered = true
+      onToken(chunk)
     }
+
+    try {
+      const fullRequest = { ...request, prompt }
+      if (provider.stream) {
+        for await (const delta of provider.stream(fullRequest, controller.signal)) {
+          deliver(delta)
+        }
+      } else {
+        deliver(await provider.complete(fullRequest, controller.signal))
+      }
+    } catch (error) {
+      if (controller.signal.aborted && !signal?.aborted) {
+        throw timeoutError(`${provider.name} timed out after ${limit}ms`)
+      }
+      throw error
+    } finally {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', cancel)
+    }
+
+    if (!text.trim()) throw new Error('Empty AI response')
+    return text.trim()
+  }, retries ?? AI_MAX_RETRIES, () => !delivered && !signal?.aborted)
+}
+
+/**
+ * Extract a JSON value from a model answer
+ * (tolerates ```json fences and text around the JSON)
+ */
+export function parseJSONResponse(text: string): unknown {
+  const cleaned = text.replace(/```(?:json)?/gi, '').trim()
+
+  try {
+    return JSON.parse(cleaned)
+  } catch {
+    // Fall through to the outermost array/object
   }
+
+  const start = cleaned.search(/[[{]/)
+  if (start === -1) throw new Error('No JSON found in AI response')
+
+  const close = cleaned[start] === '[' ? ']' : '}'
+  const end = cleaned.lastIndexOf(close)
+  if (end <= start) throw new Error('Unterminated JSON in AI response')
+
+  return JSON.parse(cleaned.slice(start, end + 1))
+}
+
+/**
+ * JSON completion validated with a type guard.
+ * Malformed or invalid output is an error; only provider failures are retried.
+ */
+export async function completeJSON<T>(
+  prompt: string,
+  validate: (value: unknown) => value is T,
+  options: AICallOptions = {}
+): Promise<T> {
+  const { timeoutMs, retries, provider, ...request } = options
+
+  const text = await withRetries(
+    () => completeOnce({ ...request, json: true, prompt }, { timeoutMs, provider }),
+    retries ?? AI_MAX_RETRIES
+  )
+
+  const value = parseJSONResponse(text)
+  if (validate(value)) return value
+
+  // JSON modes only produce objects, so an array may come wrapped in one
+  if (isRecord(value)) {
+    const arrays = Object.values(value).filter(Array.isArray)
+    if (arrays.length === 1 && validate(arrays[0])) return arrays[0]
+  }
+  throw new Error('AI response does not match the expected JSON shape')
+}
+
+// ============================================
+// Validators
+// ============================================
+
+type Guard<T> = (value: unknown) => value is T
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function arrayOf<T>(guard: Guard<T>): Guard<T[]> {
+  return (value): value is T[] => Array.isArray(value) && value.every(guard)
+}
+
+export function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string')
 }
 
+// ============================================
 // Specific AI functions
+// ============================================
 
 export interface SlideMatch {
   slideIndex: number
@@ -59,17 +244,21 @@ export interface SlideMatch {
   reasoning?: string
 }
 
+export function isSlideMatch(value: unknown): value is SlideMatch {
+  return (
+    isRecord(value) &&
+    typeof value.slideIndex === 'number' &&
+    typeof value.transcriptChunkIndex === 'number' &&
+    typeof value.confidence === 'number'
+  )
+}
+
 export async function matchSlidesToTranscript(
   slides: { index: number; ocrText: string }[],
   transcriptChunks: { index: number; text: string; startTime: number; endTime: number }[]
 ): Promise<SlideMatch[]> {
-  const response = await callAI<SlideMatch[]>({
-    action: 'match_slides',
-    data: { slides, transcriptChunks },
-    context: 'Nutrition university lecture in Spanish',
-  })
-
-  return response.result || []
+  const { prompt, system } = renderPrompt(slideMatchPrompt, { slides, transcriptChunks })
+  return completeJSON(prompt, arrayOf(isSlideMatch), { system })
 }
 
 export interface GeneratedSummary {
@@ -77,17 +266,19 @@ export interface GeneratedSummary {
   keyPoints: string[]
 }
 
+export function isGeneratedSummary(value: unknown): value is GeneratedSummary {
+  return isRecord(value) && typeof value.content === 'string' && isStringArray(value.keyPoints)
+}
+
 export async function generateSummary(
   transcript: string,
   slideTexts: string[]
-): Promise<GeneratedSummary | null> {
-  const response = await callAI<GeneratedSummary>({
-    action: 'generate_summary',
-    data: { transcript, slideTexts },
-    context: 'Nutrition university lecture in Spanish',
+): Promise<GeneratedSummary> {
+  const { prompt, system } = renderPrompt(lessonSummaryPrompt, { transcript, slideTexts })
+  return completeJSON(prompt, isGeneratedSummary, {
+    system,
+    mockResponse: { content: '[mock] Resumen de la lección', keyPoints: [] } satisfies GeneratedSummary,
   })
-
-  return response.result || null
 }
 
 export interface GeneratedFlashcard {
@@ -96,48 +287,47 @@ export interface GeneratedFlashcard {
   type: 'CONCEPT' | 'DEFINITION' | 'PROCESS' | 'FACT'
 }
 
+export function isGeneratedFlashcard(value: unknown): value is GeneratedFlashcard {
+  return isRecord(value) && typeof value.front === 'string' && typeof value.back === 'string'
+}
+
 export async function generateFlashcards(
   content: string,
   maxCards: number = 10
 ): Promise<GeneratedFlashcard[]> {
-  const response = await callAI<GeneratedFlashcard[]>({
-    action: 'generate_flashcards',
-    data: { content, maxCards },
-    context: 'Nutrition university lecture in Spanish',
-  })
-
-  return response.result || []
+  const { prompt, system } = renderPrompt(flashcardsPrompt, { content, maxCards })
+  return completeJSON(prompt, arrayOf(isGeneratedFlashcard), { system })
 }
 
 export interface GeneratedQuestion {
-  type: 'MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'SHORT_ANSWER'
   question: string
   options: string[]
   correct: string
   explanation: string
 }
 
+export function isGeneratedQuestion(value: unknown): value is GeneratedQuestion {
+  return (
+    isRecord(value) &&
+    typeof value.question === 'string' &&
+    isStringArray(value.options) &&
+    typeof value.correct === 'string'
+  )
+}
+
 export async function generateQuiz(
   content: string,
-  questionCount: number = 5
+  questionCount: number = 5,
+  field?: string
 ): Promise<GeneratedQuestion[]> {
-  const response = await callAI<GeneratedQuestion[]>({
-    action: 'generate_quiz',
-    data: { content, questionCount },
-    context: 'Nutrition university exam questions in Spanish',
-  })
-
-  return response.result || []
+  const { prompt, system } = renderPrompt(quizPrompt, { content, questionCount, field })
+  return completeJSON(prompt, arrayOf(isGeneratedQuestion), { system })
 }
 
 export async function explainConcept(
   concept: string,
   context: string
 ): Promise<string> {
-  const response = await callAI<{ explanation: string }>({
-    action: 'explain_concept',
-    data: { concept, context },
-  })
-
-  return response.result?.explanation || 'Unable to generate explanation'
+  const { prompt, system } = renderPrompt(explainConceptPrompt, { concept, context })
+  return complete(prompt, { system })
 }
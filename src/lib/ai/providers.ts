@@ -0,0 +1,289 @@
+/**
+ * AI Providers - chat completion backends behind one interface
+ * Selected with AI_PROVIDER: n8n (default) | openai | ollama | mock
+ */
+
+import OpenAI from 'openai'
+
+export type AIProviderName = 'n8n' | 'openai' | 'ollama' | 'mock'
+
+export interface CompletionRequest {
+  prompt: string
+  system?: string
+  // Hint for providers that support a JSON output mode
+  json?: boolean
+  // Value the mock provider answers to a JSON request (default: [])
+  mockResponse?: unknown
+  temperature?: number
+  maxTokens?: number
+}
+
+export interface AIProvider {
+  name: AIProviderName
+  model: string
+  complete(request: CompletionRequest, signal: AbortSignal): Promise<string>
+  // Text deltas as they are generated; providers without it answer in one piece
+  stream?(request: CompletionRequest, signal: AbortSignal): AsyncIterable<string>
+}
+
+/**
+ * Error for a non-2xx response, keeping the status for isTransientError
+ */
+function requestFailed(provider: string, res: Response): Error {
+  return Object.assign(new Error(`${provider} request failed: ${res.status} ${res.statusText}`), {
+    status: res.status,
+  })
+}
+
+/**
+ * Whether a failed call may succeed if repeated: network errors, timeouts,
+ * 429 and 5xx. Auth, validation and other 4xx errors are not retried.
+ */
+export function isTransientError(error: unknown): boolean {
+  const status = (error as { status?: unknown } | null)?.status
+  if (typeof status === 'number') return status === 429 || status >= 500
+  return (
+    error instanceof OpenAI.APIConnectionError ||
+    // fetch() network failures
+    error instanceof TypeError ||
+    (error instanceof Error && error.name === 'TimeoutError')
+  )
+}
+
+/**
+ * Lines of a streamed response body (NDJSON)
+ */
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+    for (const line of lines) {
+      if (line.trim()) yield line
+    }
+  }
+  if (buffer.trim()) yield buffer
+}
+
+// ============================================
+// n8n webhook (Claude behind an n8n workflow)
+// ============================================
+
+const N8N_WEBHOOK_URL = process.env.N8N_WEBHOOK_URL || 'http://localhost:5678/webhook/classmind-ai'
+
+const n8nProvider: AIProvider = {
+  name: 'n8n',
+  model: 'n8n-workflow',
+  async complete(request, signal) {
+    // The workflow only reads `prompt`, so the system prompt goes in front
+    const prompt = request.system ? `${request.system}\n\n${request.prompt}` : request.prompt
+
+    const res = await fetch(N8N_WEBHOOK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ prompt }),
+      signal,
+    })
+
+    if (!res.ok) {
+      throw requestFailed('n8n', res)
+    }
+
+    const data = await res.json()
+    return String(data.response ?? data.output ?? data.answer ?? '')
+  },
+}
+
+// ============================================
+// OpenAI chat completions
+// ============================================
+
+const OPENAI_CHAT_MODEL = process.env.OPENAI_CHAT_MODEL || 'gpt-4o-mini'
+
+let _openai: OpenAI | null = null
+function getOpenAI() {
+  // Retries are handled by lib/ai, not the SDK
+  if (!_openai) _openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY, maxRetries: 0 })
+  return _openai
+}
+
+const openaiProvider: AIProvider = {
+  name: 'openai',
+  model: OPENAI_CHAT_MODEL,
+  async complete(request, signal) {
+    const response = await getOpenAI().chat.completions.create(
+      {
+        model: OPENAI_CHAT_MODEL,
+        messages: [
+          ...(request.system ? [{ role: 'system' as const, content: request.system }] : []),
+          { role: 'user' as const, content: request.prompt },
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        // JSON mode answers with an object; completeJSON unwraps arrays
+        ...(request.json && { response_format: { type: 'json_object' as const } }),
+      },
+      { signal }
+    )
+
+    return response.choices[0]?.message?.content || ''
+  },
+  async *stream(request, signal) {
+    const stream = await getOpenAI().chat.completions.create(
+      {
+        model: OPENAI_CHAT_MODEL,
+        messages: [
+          ...(request.system ? [{ role: 'system' as const, content: request.system }] : []),
+          { role: 'user' as const, content: request.prompt },
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream: true,
+      },
+      { signal }
+    )
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content
+      if (delta) yield delta
+    }
+  },
+}
+
+// ============================================
+// Ollama-compatible local endpoint
+// ============================================
+
+const OLLAMA_URL = process.env.OLLAMA_URL || 'http://localhost:11434'
+const OLLAMA_MODEL = process.env.OLLAMA_MODEL || 'llama3.1:8b'
+
+const ollamaProvider: AIProvider = {
+  name: 'ollama',
+  model: OLLAMA_MODEL,
+  async complete(request, signal) {
+    const res = await fetch(`${OLLAMA_URL}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: OLLAMA_MODEL,
+        stream: false,
+        messages: [
+          ...(request.system ? [{ role: 'system', content: request.system }] : []),
+          { role: 'user', content: request.prompt },
+        ],
+        ...(request.json && { format: 'json' }),
+        options: {
+          temperature: request.temperature,
+          num_predict: request.maxTokens,
+        },
+      }),
+      signal,
+    })
+
+    if (!res.ok) {
+      throw requestFailed('Ollama', res)
+    }
+
+    const data = await res.json()
+    return data.message?.content || ''
+  },
+  async *stream(request, signal) {
+    const res = await fetch(`${OLLAMA_URL}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: OLLAMA_MODEL,
+        stream: true,
+        messages: [
+          ...(request.system ? [{ role: 'system', content: request.system }] : []),
+          { role: 'user', content: request.prompt },
+        ],
+        options: {
+          temperature: request.temperature,
+          num_predict: request.maxTokens,
+        },
+      }),
+      signal,
+    })
+
+    if (!res.ok || !res.body) {
+      throw requestFailed('Ollama', res)
+    }
+
+    // One JSON object per line, the last one with done: true
+    for await (const line of readLines(res.body)) {
+      const data = JSON.parse(line)
+      if (data.error) throw new Error(`Ollama error: ${data.error}`)
+      if (data.message?.content) yield data.message.content
+    }
+  },
+}
+
+// ============================================
+// Deterministic mock (tests, offline development)
+// ============================================
+
+export type MockResponder = (request: CompletionRequest) => string
+
+// Same prompt always gives the same answer; JSON requests get the call's
+// mockResponse, or an empty array
+const defaultMockResponder: MockResponder = request => {
+  if (request.json) return JSON.stringify(request.mockResponse ?? [])
+
+  let hash = 0
+  for (const char of request.prompt) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0
+  }
+  return `[mock ${(hash >>> 0).toString(16)}] ${request.prompt.slice(0, 200)}`
+}
+
+let mockResponder: MockResponder = defaultMockResponder
+
+/**
+ * Override the mock provider's answers (pass nothing to restore the default)
+ */
+export function setMockResponder(responder?: MockResponder) {
+  mockResponder = responder || defaultMockResponder
+}
+
+const mockProvider: AIProvider = {
+  name: 'mock',
+  model: 'mock',
+  async complete(request) {
+    return mockResponder(request)
+  },
+  async *stream(request) {
+    // Word by word, so streaming UIs can be exercised offline
+    for (const word of mockResponder(request).match(/\S+\s*/g) || []) {
+      yield word
+    }
+  },
+}
+
+// ============================================
+// Provider selection
+// ============================================
+
+const PROVIDERS: Record<AIProviderName, AIProvider> = {
+  n8n: n8nProvider,
+  openai: openaiProvider,
+  ollama: ollamaProvider,
+  mock: mockProvider,
+}
+
+/**
+ * Provider from AI_PROVIDER, or a specific one by name
+ */
+export function getAIProvider(name = process.env.AI_PROVIDER || 'n8n'): AIProvider {
+  const provider = PROVIDERS[name as AIProviderName]
+  if (!provider) {
+    throw new Error(`Unknown AI provider: ${name} (expected ${Object.keys(PROVIDERS).join(', ')})`)
+  }
+  return provider
+}
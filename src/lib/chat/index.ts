@@ -0,0 +1,131 @@
+/**
+ * Chat threads - persisted /ask conversations
+ * Every exchange is stored with the sources retrieved for it, so an old
+ * thread reopens exactly as it was answered; the follow-up history sent
+ * to the model is read back from the thread.
+ */
+
+import { prisma } from '../db'
+import { complete } from '../ai'
+import { renderPrompt, chatThreadTitlePrompt } from '../prompts'
+import type { KnowledgeScope } from '../knowledge'
+
+// Earlier messages included as conversation history
+const HISTORY_MESSAGES = 6
+
+const MAX_TITLE_LENGTH = 80
+
+export type ChatRole = 'user' | 'assistant'
+
+export interface ChatSource {
+  // Number used by the [n] markers in the answer
+  n: number
+  title: string
+  sourceType: string
+  sourceId: string
+  lessonId: string | null
+  headingPath: string[]
+  href: string | null
+  similarity: number
+  cited: boolean
+  preview: string
+}
+
+export interface ChatAnswer {
+  content: string
+  sources: ChatSource[]
+  citations: number[]
+  promptVersion?: string
+}
+
+/**
+ * Last messages of a thread, oldest first
+ */
+export async function getThreadHistory(threadId: string): Promise<{ role: ChatRole; content: string }[]> {
+  const messages = await prisma.chatMessage.findMany({
+    where: { threadId },
+    orderBy: { createdAt: 'desc' },
+    take: HISTORY_MESSAGES,
+    select: { role: true, content: true },
+  })
+
+  return messages.reverse().map(m => ({ role: m.role as ChatRole, content: m.content }))
+}
+
+export function formatHistory(messages: { role: ChatRole; content: string }[]): string {
+  return messages
+    .map(m => `${m.role === 'user' ? 'Usuario' : 'Asistente'}: ${m.content}`)
+    .join('\n\n')
+}
+
+/**
+ * Store a question and its answer, and bump the thread to the top of the list.
+ * The thread keeps the scope searched, so it reopens with the same filters.
+ */
+export async function appendExchange(
+  threadId: string,
+  question: string,
+  answer: ChatAnswer,
+  scope: KnowledgeScope = {}
+) {
+  const now = Date.now()
+
+  const [userMessage, assistantMessage] = await prisma.$transaction([
+    prisma.chatMessage.create({
+      data: { threadId, role: 'user', content: question, createdAt: new Date(now) },
+    }),
+    // A millisecond later so the pair always sorts question-first
+    prisma.chatMessage.create({
+      data: {
+        threadId,
+        role: 'assistant',
+        content: answer.content,
+        sources: JSON.parse(JSON.stringify(answer.sources)),
+        citations: answer.citations,
+        promptVersion: answer.promptVersion,
+        createdAt: new Date(now + 1),
+      },
+    }),
+    prisma.chatThread.update({
+      where: { id: threadId },
+      data: { updatedAt: new Date(now), scope: JSON.parse(JSON.stringify(scope)) },
+    }),
+  ])
+
+  return { userMessage, assistantMessage }
+}
+
+function fallbackTitle(question: string): string {
+  const title = question.replace(/\s+/g, ' ').trim()
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title
+}
+
+/**
+ * Title an untitled thread from its first exchange.
+ * Falls back to the question itself if the AI call fails.
+ */
+export async function ensureThreadTitle(threadId: string, question: string, answer: string): Promise<string> {
+  const thread = await prisma.chatThread.findUnique({
+    where: { id: threadId },
+    select: { title: true },
+  })
+  if (thread?.title) return thread.title
+
+  let title = fallbackTitle(question)
+  try {
+    const { prompt } = renderPrompt(chatThreadTitlePrompt, { question, answer })
+    const generated = (await complete(prompt, { maxTokens: 30, retries: 0 }))
+      .split('\n')[0]
+      .replace(/^["'«]+|["'».]+$/g, '')
+      .trim()
+    if (generated) title = fallbackTitle(generated)
+  } catch (error) {
+    console.error('Thread title generation failed:', error)
+  }
+
+  await prisma.chatThread.update({
+    where: { id: threadId },
+    data: { title },
+  })
+  return title
+}
@@ -0,0 +1,307 @@
+/**
+ * ClassMind - Embeddings Library
+ * Embeddings for the RAG system (see ./providers - OpenAI or local model)
+ * and chunking of source text
+ */
+
+import { cleanHeading } from '../utils'
+import { getEmbeddingProvider } from './providers'
+
+export {
+  getEmbeddingProvider,
+  type EmbeddingProvider,
+  type EmbeddingProviderName,
+} from './providers'
+
+// Chunk configuration
+const MAX_CHUNK_TOKENS = 500 // Target chunk size
+const CHUNK_OVERLAP = 50 // Overlap between chunks
+
+/**
+ * A vector tagged with the model that produced it; vectors of
+ * different models must never be compared
+ */
+export interface Embedding {
+  vector: number[]
+  model: string
+  dimensions: number
+}
+
+/**
+ * Generate embeddings for multiple texts (batch) with the active provider
+ */
+export async function generateEmbeddings(texts: string[]): Promise<Embedding[]> {
+  if (texts.length === 0) return []
+
+  const provider = getEmbeddingProvider()
+  const vectors = await provider.embed(texts.map(t => t.trim()))
+
+  return vectors.map(vector => {
+    if (vector.length !== provider.dimensions) {
+      throw new Error(
+        `${provider.model} returned ${vector.length} dimensions, expected ${provider.dimensions}`
+      )
+    }
+    return { vector, model: provider.model, dimensions: provider.dimensions }
+  })
+}
+
+/**
+ * Generate embedding for a single text
+ */
+export async function generateEmbedding(text: string): Promise<Embedding> {
+  const [embedding] = await generateEmbeddings([text])
+  return embedding
+}
+
+/**
+ * Estimate token count (rough approximation)
+ * ~4 characters per token for Spanish text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Split text into chunks with overlap
+ */
+export function chunkText(text: string, maxTokens = MAX_CHUNK_TOKENS): string[] {
+  const chunks: string[] = []
+  const sentences = text.split(/(?<=[.!?])\s+/)
+
+  let currentChunk = ''
+  let currentTokens = 0
+
+  for (const sentence of sentences) {
+    const sentenceTokens = estimateTokens(sentence)
+
+    if (currentTokens + sentenceTokens > maxTokens && currentChunk) {
+      chunks.push(currentChunk.trim())
+
+      // Keep overlap - last few sentences
+      const overlapTokens = CHUNK_OVERLAP
+      const words = currentChunk.split(' ')
+      let overlap = ''
+      let overlapCount = 0
+
+      for (let i = words.length - 1; i >= 0 && overlapCount < overlapTokens; i--) {
+        overlap = words[i] + ' ' + overlap
+        overlapCount += estimateTokens(words[i])
+      }
+
+      currentChunk = overlap + sentence
+      currentTokens = estimateTokens(currentChunk)
+    } else {
+      currentChunk += (currentChunk ? ' ' : '') + sentence
+      currentTokens += sentenceTokens
+    }
+  }
+
+  if (currentChunk.trim()) {
+    chunks.push(currentChunk.trim())
+  }
+
+  return chunks
+}
+
+export interface MarkdownChunk {
+  content: string
+  // Headings the chunk sits under, outermost first
+  headingPath: string[]
+}
+
+interface MarkdownBlock {
+  kind: 'paragraph' | 'table' | 'list' | 'code'
+  lines: string[]
+}
+
+const FENCE = /^\s*```/
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+/
+const HORIZONTAL_RULE = /^\s*([-*_])(\s*\1){2,}\s*$/
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}/
+
+/**
+ * Split markdown (Cornell notes, summaries) along its structure:
+ * every chunk stays inside one heading section, and tables, lists and
+ * code blocks are only split when they alone exceed maxTokens
+ * (tables at row boundaries with the header repeated, lists per item).
+ */
+export function chunkMarkdown(text: string, maxTokens = MAX_CHUNK_TOKENS): MarkdownChunk[] {
+  const chunks: MarkdownChunk[] = []
+  const headings: { level: number; text: string }[] = []
+  let body: string[] = []
+  let inFence = false
+
+  const flush = () => {
+    const headingPath = headings.map(h => h.text).filter(Boolean)
+    for (const content of packBlocks(parseBlocks(body), maxTokens)) {
+      chunks.push({ content, headingPath })
+    }
+    body = []
+  }
+
+  for (const line of text.split('\n')) {
+    if (FENCE.test(line)) inFence = !inFence
+    const heading = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/)
+
+    if (heading) {
+      flush()
+      const level = heading[1].length
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+        headings.pop()
+      }
+      headings.push({ level, text: cleanHeading(heading[2]) })
+    } else {
+      body.push(line)
+    }
+  }
+  flush()
+
+  return chunks
+}
+
+function parseBlocks(lines: string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = []
+  let current: MarkdownBlock | null = null
+  let inFence = false
+
+  const end = () => {
+    if (current) blocks.push(current)
+    current = null
+  }
+
+  for (const line of lines) {
+    if (inFence) {
+      current!.lines.push(line)
+      if (FENCE.test(line)) {
+        inFence = false
+        end()
+      }
+      continue
+    }
+    if (FENCE.test(line)) {
+      end()
+      current = { kind: 'code', lines: [line] }
+      inFence = true
+      continue
+    }
+    if (!line.trim() || HORIZONTAL_RULE.test(line)) {
+      end()
+      continue
+    }
+
+    const kind: MarkdownBlock['kind'] = /^\s*\|/.test(line)
+      ? 'table'
+      : LIST_ITEM.test(line) || (current?.kind === 'list' && /^\s+\S/.test(line))
+        ? 'list'
+        : 'paragraph'
+
+    if (current?.kind !== kind) {
+      end()
+      current = { kind, lines: [] }
+    }
+    current.lines.push(line)
+  }
+  end()
+
+  return blocks
+}
+
+/**
+ * Join consecutive blocks of a section into chunks of up to maxTokens
+ */
+function packBlocks(blocks: MarkdownBlock[], maxTokens: number): string[] {
+  const chunks: string[] = []
+  let current = ''
+
+  for (const piece of blocks.flatMap(block => splitBlock(block, maxTokens))) {
+    if (current && estimateTokens(current) + estimateTokens(piece) > maxTokens) {
+      chunks.push(current)
+      current = ''
+    }
+    current = current ? `${current}\n\n${piece}` : piece
+  }
+  if (current.trim()) chunks.push(current)
+
+  return chunks
+}
+
+function splitBlock(block: MarkdownBlock, maxTokens: number): string[] {
+  const text = block.lines.join('\n').trim()
+  if (estimateTokens(text) <= maxTokens) return [text]
+
+  switch (block.kind) {
+    case 'paragraph':
+      return chunkText(text, maxTokens)
+
+    case 'table': {
+      const headerSize = TABLE_SEPARATOR.test(block.lines[1] || '') ? 2 : 0
+      const header = block.lines.slice(0, headerSize)
+      return groupUnits(block.lines.slice(headerSize), maxTokens, header.join('\n'))
+    }
+
+    case 'list': {
+      // An item is its first line plus any more-indented continuation lines
+      const indent = Math.min(...block.lines.filter(l => LIST_ITEM.test(l)).map(l => l.search(/\S/)))
+      const items: string[] = []
+      for (const line of block.lines) {
+        if (LIST_ITEM.test(line) && line.search(/\S/) <= indent) items.push(line)
+        else if (items.length > 0) items[items.length - 1] += `\n${line}`
+        else items.push(line)
+      }
+      return groupUnits(items, maxTokens)
+    }
+
+    case 'code':
+      return [text]
+  }
+}
+
+/**
+ * Group whole units (table rows, list items) into pieces of up to maxTokens,
+ * each starting with `prefix`
+ */
+function groupUnits(units: string[], maxTokens: number, prefix = ''): string[] {
+  const pieces: string[] = []
+  let current: string[] = []
+
+  const push = () => {
+    if (current.length > 0) pieces.push([prefix, ...current].filter(Boolean).join('\n'))
+    current = []
+  }
+
+  for (const unit of units) {
+    const size = estimateTokens([prefix, ...current, unit].join('\n'))
+    if (current.length > 0 && size > maxTokens) push()
+    current.push(unit)
+  }
+  push()
+
+  return pieces
+}
+
+/**
+ * Format embedding as PostgreSQL vector literal
+ */
+export function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(',')}]`
+}
+
+/**
+ * Calculate cosine similarity between two embeddings
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dotProduct = 0
+  let normA = 0
+  let normB = 0
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB))
+}
+
+export { MAX_CHUNK_TOKENS }
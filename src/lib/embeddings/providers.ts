@@ -0,0 +1,144 @@
+/**
+ * Embedding Providers - text embedding backends behind one interface
+ * Selected with EMBEDDING_PROVIDER: openai (default) | local
+ *
+ * Every stored vector records the model and dimension that produced it,
+ * and search only compares vectors from the active provider's model.
+ * A model with a new dimension needs its own HNSW index
+ * (see prisma/sql/03_embedding_models.sql).
+ */
+
+import path from 'path'
+import OpenAI from 'openai'
+
+export type EmbeddingProviderName = 'openai' | 'local'
+
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName
+  model: string
+  dimensions: number
+  embed(texts: string[]): Promise<number[][]>
+}
+
+// ============================================
+// OpenAI embeddings API
+// ============================================
+
+const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small'
+
+let _openai: OpenAI | null = null
+function getOpenAI() {
+  if (!_openai) _openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+  return _openai
+}
+
+const openaiProvider: EmbeddingProvider = {
+  name: 'openai',
+  model: OPENAI_EMBEDDING_MODEL,
+  dimensions: 1536,
+  async embed(texts) {
+    // OpenAI allows up to 2048 inputs per request
+    const batchSize = 100
+    const embeddings: number[][] = []
+
+    for (let i = 0; i < texts.length; i += batchSize) {
+      const response = await getOpenAI().embeddings.create({
+        model: OPENAI_EMBEDDING_MODEL,
+        input: texts.slice(i, i + batchSize),
+      })
+      embeddings.push(...response.data.map(d => d.embedding))
+    }
+
+    return embeddings
+  },
+}
+
+// ============================================
+// Local sentence-embedding model (CPU, no network once downloaded)
+// ============================================
+
+// Multilingual MiniLM: small, handles Spanish, mean pooling
+const LOCAL_EMBEDDING_MODEL =
+  process.env.LOCAL_EMBEDDING_MODEL || 'Xenova/paraphrase-multilingual-MiniLM-L12-v2'
+const LOCAL_EMBEDDING_DIMENSIONS = parseInt(process.env.LOCAL_EMBEDDING_DIMENSIONS || '384')
+// Where downloaded model files (embedding, reranker) are kept;
+// with LOCAL_EMBEDDING_OFFLINE=true only this cache is used
+const LOCAL_EMBEDDING_CACHE =
+  process.env.LOCAL_EMBEDDING_CACHE || path.join(process.env.STORAGE_PATH || '../storage', 'models')
+
+type FeatureExtractor = (
+  texts: string[],
+  options: { pooling: 'mean'; normalize: boolean }
+) => Promise<{ tolist(): number[][] }>
+
+/**
+ * transformers.js, configured for the local model cache.
+ * Loaded on first use: the ONNX runtime is heavy and only needed here.
+ */
+export async function loadTransformers() {
+  const transformers = await import('@huggingface/transformers')
+  transformers.env.cacheDir = LOCAL_EMBEDDING_CACHE
+  transformers.env.allowRemoteModels = process.env.LOCAL_EMBEDDING_OFFLINE !== 'true'
+  return transformers
+}
+
+let _extractor: Promise<FeatureExtractor> | null = null
+function getExtractor() {
+  if (!_extractor) {
+    _extractor = loadTransformers().then(async ({ pipeline }) => {
+      return (await pipeline('feature-extraction', LOCAL_EMBEDDING_MODEL, {
+        device: 'cpu',
+        dtype: 'q8',
+      })) as unknown as FeatureExtractor
+    })
+    _extractor.catch(() => {
+      _extractor = null
+    })
+  }
+  return _extractor
+}
+
+const localProvider: EmbeddingProvider = {
+  name: 'local',
+  model: LOCAL_EMBEDDING_MODEL,
+  dimensions: LOCAL_EMBEDDING_DIMENSIONS,
+  async embed(texts) {
+    const extractor = await getExtractor()
+
+    // Small batches keep memory flat on CPU
+    const batchSize = 16
+    const embeddings: number[][] = []
+
+    for (let i = 0; i < texts.length; i += batchSize) {
+      const output = await extractor(texts.slice(i, i + batchSize), {
+        pooling: 'mean',
+        normalize: true,
+      })
+      embeddings.push(...output.tolist())
+    }
+
+    return embeddings
+  },
+}
+
+// ============================================
+// Provider selection
+// ============================================
+
+const PROVIDERS: Record<EmbeddingProviderName, EmbeddingProvider> = {
+  openai: openaiProvider,
+  local: localProvider,
+}
+
+/**
+ * Provider from EMBEDDING_PROVIDER, or a specific one by name
+ */
+export function getEmbeddingProvider(
+  name = process.env.EMBEDDING_PROVIDER || 'openai'
+): EmbeddingProvider {
+  const provider = PROVIDERS[name as EmbeddingProviderName]
+  if (!provider) {
+    throw new Error(`Unknown embedding provider: ${name} (expected ${Object.keys(PROVIDERS).join(', ')})`)
+  }
+  return provider
+}
@@ -0,0 +1,76 @@
+/**
+ * Reranker - second-stage relevance scoring for search candidates
+ * A cross-encoder reads query and passage together, which ranks far
+ * better than comparing two independent embeddings.
+ * Selected with RERANKER: local | none (default, so a fresh install
+ * doesn't download a model). If the model fails to load, reranking stays
+ * off for the rest of the process instead of retrying on every search.
+ */
+
+import { loadTransformers } from './providers'
+
+// Multilingual MiniLM cross-encoder trained on mMARCO (Spanish included)
+const RERANKER_MODEL = process.env.RERANKER_MODEL || 'Xenova/mmarco-mMiniLMv2-L12-H384-v1'
+
+// Long chunks are truncated to the model's window anyway
+const MAX_PASSAGE_CHARS = 2000
+
+type CrossEncoder = (query: string, passages: string[]) => Promise<number[]>
+
+let _crossEncoder: Promise<CrossEncoder> | null = null
+let _loadFailed = false
+function getCrossEncoder() {
+  if (!_crossEncoder) {
+    _crossEncoder = loadTransformers().then(async ({ AutoTokenizer, AutoModelForSequenceClassification }) => {
+      const tokenizer = await AutoTokenizer.from_pretrained(RERANKER_MODEL)
+      const model = await AutoModelForSequenceClassification.from_pretrained(RERANKER_MODEL, {
+        device: 'cpu',
+        dtype: 'q8',
+      })
+
+      return async (query, passages) => {
+        const inputs = tokenizer(new Array(passages.length).fill(query), {
+          text_pair: passages,
+          padding: true,
+          truncation: true,
+        })
+        const { logits } = await model(inputs)
+        // One relevance logit per pair, squashed to 0-1
+        return (logits.sigmoid().tolist() as number[][]).map(row => row[0])
+      }
+    })
+    // The rejected promise stays cached: an offline machine would otherwise
+    // wait for a download timeout on every query
+    _crossEncoder.catch(error => {
+      _loadFailed = true
+      console.error(`Reranker ${RERANKER_MODEL} failed to load, searching without it:`, error)
+    })
+  }
+  return _crossEncoder
+}
+
+export function isRerankerEnabled(): boolean {
+  return !_loadFailed && (process.env.RERANKER || 'none') !== 'none'
+}
+
+export function rerankerModel(): string {
+  return RERANKER_MODEL
+}
+
+/**
+ * Relevance of each passage to the query in 0-1, in input order
+ */
+export async function rerank(query: string, passages: string[]): Promise<number[]> {
+  if (passages.length === 0) return []
+
+  const crossEncoder = await getCrossEncoder()
+
+  // Small batches keep memory flat on CPU
+  const batchSize = 8
+  const scores: number[] = []
+  for (let i = 0; i < passages.length; i += batchSize) {
+    const batch = passages.slice(i, i + batchSize).map(p => p.slice(0, MAX_PASSAGE_CHARS))
+    scores.push(...(await crossEncoder(query, batch)))
+  }
+  return scores
+}
@@ -0,0 +1,292 @@
+/**
+ * Retrieval evaluation - scores searchKnowledge against a golden set of
+ * questions whose relevant lessons or chunks are known, so changes to
+ * ranking, chunking or thresholds can be compared run against run.
+ *
+ * Golden set (JSON):
+ *   {
+ *     "name": "anatomia",
+ *     "questions": [
+ *       { "id": "homeostasis", "question": "¿Qué es la homeostasis?", "lessonIds": ["..."] },
+ *       { "id": "celula", "question": "...", "chunkIds": ["..."], "scope": { "subjectId": "..." } }
+ *     ]
+ *   }
+ *
+ * A result is relevant if it is one of the question's chunks or comes from
+ * one of its lessons. Chunk ids change whenever a source is re-chunked, so
+ * lesson-level questions are the ones that survive chunker changes.
+ */
+
+import { createHash } from 'crypto'
+import { readFile } from 'fs/promises'
+import { prisma } from '../db'
+import { getEmbeddingProvider } from '../embeddings'
+import { isRerankerEnabled, rerankerModel } from '../embeddings/reranker'
+import { searchKnowledge, parseScope, type KnowledgeScope, type SearchOptions } from '../knowledge'
+
+export interface GoldenQuestion {
+  id: string
+  question: string
+  lessonIds?: string[]
+  chunkIds?: string[]
+  scope?: KnowledgeScope
+}
+
+export interface GoldenSet {
+  name: string
+  questions: GoldenQuestion[]
+  // Hash of the questions, to tell whether two runs are comparable
+  hash: string
+}
+
+export interface EvalConfig {
+  name: string
+  // The largest k is used when no limit is given
+  search: Omit<SearchOptions, keyof KnowledgeScope>
+}
+
+// Metric name -> value, e.g. "recall@5", "ndcg@10", "mrr"
+export type Metrics = Record<string, number>
+
+export interface QuestionResult {
+  id: string
+  question: string
+  // 1-based ranks of the relevant results
+  relevantRanks: number[]
+  // Expected lessons/chunks that were not retrieved at all
+  missed: string[]
+  retrieved: { id: string; sourceType: string; lessonId: string | null; similarity: number }[]
+  metrics: Metrics
+  error?: string
+}
+
+export interface EvalRun {
+  config: EvalConfig
+  golden: { name: string; hash: string; questions: number }
+  ks: number[]
+  // What the index looked like, to tell whether two runs are comparable
+  index: { embeddingModel: string; reranker: string | null; chunkCount: number }
+  createdAt: string
+  durationMs: number
+  metrics: Metrics
+  questions: QuestionResult[]
+}
+
+function idList(value: unknown, field: string, questionId: string): string[] | undefined {
+  if (value === undefined) return undefined
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+    throw new Error(`Question "${questionId}": ${field} must be an array of ids`)
+  }
+  return value
+}
+
+/**
+ * Read and validate a golden set file
+ */
+export async function loadGoldenSet(filePath: string): Promise<GoldenSet> {
+  const raw = JSON.parse(await readFile(filePath, 'utf-8'))
+  if (!Array.isArray(raw?.questions) || raw.questions.length === 0) {
+    throw new Error(`${filePath}: expected a "questions" array`)
+  }
+
+  const seen = new Set<string>()
+  const questions: GoldenQuestion[] = raw.questions.map((q: Record<string, unknown>, i: number) => {
+    const id = typeof q.id === 'string' && q.id ? q.id : `q${i + 1}`
+    if (seen.has(id)) throw new Error(`Duplicate question id "${id}"`)
+    seen.add(id)
+
+    if (typeof q.question !== 'string' || !q.question.trim()) {
+      throw new Error(`Question "${id}" has no question text`)
+    }
+    const lessonIds = idList(q.lessonIds, 'lessonIds', id)
+    const chunkIds = idList(q.chunkIds, 'chunkIds', id)
+    if (!lessonIds?.length && !chunkIds?.length) {
+      throw new Error(`Question "${id}" lists no expected lessonIds or chunkIds`)
+    }
+
+    return { id, question: q.question.trim(), lessonIds, chunkIds, scope: parseScope(q.scope) }
+  })
+
+  return {
+    name: typeof raw.name === 'string' ? raw.name : filePath,
+    questions,
+    hash: createHash('sha256').update(JSON.stringify(questions)).digest('hex').slice(0, 12),
+  }
+}
+
+/**
+ * Rank-based metrics for one question. Each expected lesson or chunk is
+ * credited once, at its best rank, so ten chunks of the same expected
+ * lesson don't count as ten hits. A result can satisfy a chunk and its
+ * lesson at once, so the ideal ranking for nDCG needs one rank per chunk
+ * plus one per lesson not already covered by an expected chunk.
+ */
+export function scoreRanking(
+  results: { id: string; lessonId: string | null }[],
+  question: Pick<GoldenQuestion, 'lessonIds' | 'chunkIds'>,
+  ks: number[]
+): { metrics: Metrics; relevantRanks: number[]; missed: string[] } {
+  const chunkIds = [...new Set(question.chunkIds || [])]
+  const lessonIds = [...new Set(question.lessonIds || [])]
+  const targets = [...chunkIds.map(id => `chunk:${id}`), ...lessonIds.map(id => `lesson:${id}`)]
+
+  // Rank at which each target is first found, and the ranks that found one
+  const firstRank = new Map<string, number>()
+  const relevantRanks: number[] = []
+  results.forEach((r, i) => {
+    const matched = [`chunk:${r.id}`, ...(r.lessonId ? [`lesson:${r.lessonId}`] : [])].filter(t =>
+      targets.includes(t)
+    )
+    if (matched.length === 0) return
+    relevantRanks.push(i + 1)
+    for (const target of matched) {
+      if (!firstRank.has(target)) firstRank.set(target, i + 1)
+    }
+  })
+
+  const metrics: Metrics = {
+    mrr: relevantRanks.length > 0 ? 1 / relevantRanks[0] : 0,
+  }
+
+  // Gain 1 at each rank that first found a target
+  const gainRanks = [...new Set(firstRank.values())]
+
+  // Lessons an expected chunk belongs to need no rank of their own
+  const coveredLessons = new Set(
+    results.filter(r => chunkIds.includes(r.id) && r.lessonId).map(r => r.lessonId)
+  )
+  const idealRanks = chunkIds.length + lessonIds.filter(id => !coveredLessons.has(id)).length
+  for (const k of ks) {
+    const found = [...firstRank.values()].filter(rank => rank <= k).length
+    metrics[`recall@${k}`] = found / targets.length
+
+    const dcg = gainRanks.filter(rank => rank <= k).reduce((sum, rank) => sum + 1 / Math.log2(rank + 1), 0)
+    let idcg = 0
+    for (let rank = 1; rank <= Math.min(k, idealRanks); rank++) idcg += 1 / Math.log2(rank + 1)
+    metrics[`ndcg@${k}`] = dcg / idcg
+  }
+
+  return {
+    metrics,
+    relevantRanks,
+    missed: targets.filter(t => !firstRank.has(t)),
+  }
+}
+
+function meanMetrics(results: QuestionResult[]): Metrics {
+  const totals: Metrics = {}
+  for (const result of results) {
+    for (const [name, value] of Object.entries(result.metrics)) {
+      totals[name] = (totals[name] || 0) + value
+    }
+  }
+  return Object.fromEntries(Object.entries(totals).map(([name, total]) => [name, total / results.length]))
+}
+
+/**
+ * Run every golden question through searchKnowledge with one configuration.
+ * Questions run one at a time so timings are not skewed by contention.
+ */
+export async function runEval(
+  golden: GoldenSet,
+  config: EvalConfig,
+  ks: number[],
+  onQuestion?: (result: QuestionResult, index: number) => void
+): Promise<EvalRun> {
+  const started = Date.now()
+  const limit = config.search.limit ?? Math.max(...ks)
+  const questions: QuestionResult[] = []
+
+  for (const [i, question] of golden.questions.entries()) {
+    let result: QuestionResult
+    try {
+      const results = await searchKnowledge(question.question, {
+        ...config.search,
+        ...question.scope,
+        limit,
+      })
+      result = {
+        id: question.id,
+        question: question.question,
+        ...scoreRanking(results, question, ks),
+        retrieved: results.map(r => ({
+          id: r.id,
+          sourceType: r.sourceType,
+          lessonId: r.lessonId,
+          similarity: Math.round(r.similarity * 1000) / 1000,
+        })),
+      }
+    } catch (error) {
+      // A failed search scores zero rather than being left out of the mean
+      result = {
+        id: question.id,
+        question: question.question,
+        ...scoreRanking([], question, ks),
+        retrieved: [],
+        error: error instanceof Error ? error.message : String(error),
+      }
+    }
+    questions.push(result)
+    onQuestion?.(result, i)
+  }
+
+  return {
+    config: { ...config, search: { ...config.search, limit } },
+    golden: { name: golden.name, hash: golden.hash, questions: golden.questions.length },
+    ks,
+    index: {
+      embeddingModel: getEmbeddingProvider().model,
+      reranker: (config.search.rerank ?? isRerankerEnabled()) ? rerankerModel() : null,
+      chunkCount: await prisma.knowledgeChunk.count(),
+    },
+    createdAt: new Date().toISOString(),
+    durationMs: Date.now() - started,
+    metrics: meanMetrics(questions),
+    questions,
+  }
+}
+
+export interface RunComparison {
+  metrics: { name: string; a: number; b: number; delta: number }[]
+  // Questions whose reciprocal rank changed, largest change first
+  questions: { id: string; question: string; a: number; b: number; delta: number }[]
+  // Reasons the runs may not be comparable
+  warnings: string[]
+}
+
+/**
+ * Metric deltas from run a to run b
+ */
+export function compareRuns(a: EvalRun, b: EvalRun): RunComparison {
+  const warnings: string[] = []
+  if (a.golden.hash !== b.golden.hash) {
+    warnings.push(`Different golden sets (${a.golden.name}@${a.golden.hash} vs ${b.golden.name}@${b.golden.hash})`)
+  }
+  if (a.index.embeddingModel !== b.index.embeddingModel) {
+    warnings.push(`Different embedding models (${a.index.embeddingModel} vs ${b.index.embeddingModel})`)
+  }
+  if (a.index.chunkCount !== b.index.chunkCount) {
+    warnings.push(`The index changed between runs (${a.index.chunkCount} vs ${b.index.chunkCount} chunks)`)
+  }
+
+  const names = Object.keys(a.metrics).filter(name => name in b.metrics)
+  const byId = new Map(a.questions.map(q => [q.id, q]))
+
+  return {
+    metrics: names.map(name => ({
+      name,
+      a: a.metrics[name],
+      b: b.metrics[name],
+      delta: b.metrics[name] - a.metrics[name],
+    })),
+    questions: b.questions
+      .filter(q => byId.has(q.id))
+      .map(q => {
+        const before = byId.get(q.id)!.metrics.mrr
+        return { id: q.id, question: q.question, a: before, b: q.metrics.mrr, delta: q.metrics.mrr - before }
+      })
+      .filter(q => q.delta !== 0)
+      .sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta)),
+    warnings,
+  }
+}
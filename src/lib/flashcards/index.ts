@@ -0,0 +1,169 @@
+/**
+ * Flashcard generation from lesson content
+ * Builds cards from Cornell notes, summary key points and transcript
+ */
+
+import { prisma, FlashcardType } from '../db'
+import { generateFlashcards, type GeneratedFlashcard } from '../ai'
+import { slugify } from '../utils'
+
+const FLASHCARD_TYPES = Object.values(FlashcardType) as FlashcardType[]
+
+// Max characters sent to the AI per request
+const MAX_SOURCE_CHARS = 8000
+
+export const FLASHCARD_SOURCES = ['cornell', 'keyPoints', 'transcript'] as const
+
+export type FlashcardSource = (typeof FLASHCARD_SOURCES)[number]
+
+export interface GenerateFlashcardsOptions {
+  maxCards?: number
+  sources?: FlashcardSource[]
+}
+
+export interface GenerateFlashcardsResult {
+  created: number
+  skipped: number
+  bySource: Record<FlashcardSource, number>
+}
+
+/**
+ * Normalize a card front for duplicate detection
+ * (accents, punctuation and casing are ignored)
+ */
+export function flashcardKey(front: string): string {
+  return slugify(front)
+}
+
+/**
+ * Split text into pieces of at most maxChars, breaking on whitespace
+ */
+function splitForPrompt(text: string, maxChars = MAX_SOURCE_CHARS): string[] {
+  const pieces: string[] = []
+  let rest = text.trim()
+
+  while (rest.length > maxChars) {
+    const cut = rest.lastIndexOf(' ', maxChars)
+    const end = cut > maxChars / 2 ? cut : maxChars
+    pieces.push(rest.slice(0, end))
+    rest = rest.slice(end).trim()
+  }
+  if (rest) pieces.push(rest)
+
+  return pieces
+}
+
+function toFlashcardType(type: string | undefined): FlashcardType {
+  const upper = (type || '').toUpperCase() as FlashcardType
+  return FLASHCARD_TYPES.includes(upper) ? upper : FlashcardType.CONCEPT
+}
+
+/**
+ * Generate flashcards for a lesson, skipping cards the lesson already has
+ */
+export async function generateLessonFlashcards(
+  lessonId: string,
+  options: GenerateFlashcardsOptions = {}
+): Promise<GenerateFlashcardsResult> {
+  const { maxCards = 20, sources = [...FLASHCARD_SOURCES] } = options
+
+  const lesson = await prisma.lesson.findUnique({
+    where: { id: lessonId },
+    include: {
+      notes: {
+        where: { id: { in: [`${lessonId}-cornell-full`, `${lessonId}-cornell`] } },
+      },
+      summary: true,
+      flashcards: { select: { front: true } },
+      audioParts: {
+        orderBy: { order: 'asc' },
+        include: {
+          transcriptChunks: {
+            orderBy: { startTime: 'asc' },
+            select: { text: true },
+          },
+        },
+      },
+    },
+  })
+
+  if (!lesson) {
+    throw new Error(`Lesson not found: ${lessonId}`)
+  }
+
+  // Prefer the full Cornell note, fall back to the short one
+  const cornell =
+    lesson.notes.find(n => n.id === `${lessonId}-cornell-full`) ||
+    lesson.notes.find(n => n.id === `${lessonId}-cornell`)
+
+  const transcript = lesson.audioParts
+    .flatMap(ap => ap.transcriptChunks)
+    .map(c => c.text)
+    .join(' ')
+
+  // Budget: half from Cornell, a fifth from key points, the rest from transcript
+  const budget: Record<FlashcardSource, number> = {
+    cornell: Math.ceil(maxCards * 0.5),
+    keyPoints: Math.ceil(maxCards * 0.2),
+    transcript: Math.max(1, maxCards - Math.ceil(maxCards * 0.5) - Math.ceil(maxCards * 0.2)),
+  }
+
+  const inputs: { source: FlashcardSource; content: string }[] = []
+
+  if (sources.includes('cornell') && cornell?.content) {
+    inputs.push({ source: 'cornell', content: cornell.content.slice(0, MAX_SOURCE_CHARS) })
+  }
+  if (sources.includes('keyPoints') && lesson.summary?.keyPoints.length) {
+    inputs.push({
+      source: 'keyPoints',
+      content: `Clase: ${lesson.title}\n\nPUNTOS CLAVE:\n${lesson.summary.keyPoints.map(p => `- ${p}`).join('\n')}`,
+    })
+  }
+  if (sources.includes('transcript') && transcript.length > 200) {
+    const pieces = splitForPrompt(transcript).slice(0, 3)
+    for (const piece of pieces) {
+      inputs.push({ source: 'transcript', content: piece })
+    }
+  }
+
+  const seen = new Set(lesson.flashcards.map(f => flashcardKey(f.front)))
+  const bySource: Record<FlashcardSource, number> = { cornell: 0, keyPoints: 0, transcript: 0 }
+  const toCreate: (GeneratedFlashcard & { type: FlashcardType })[] = []
+  let skipped = 0
+
+  for (const input of inputs) {
+    if (toCreate.length >= maxCards) break
+    const pieceCount = inputs.filter(i => i.source === input.source).length
+    const perPiece = Math.max(1, Math.ceil(budget[input.source] / pieceCount))
+
+    const cards = await generateFlashcards(input.content, perPiece)
+
+    // Models don't always stop at the count asked for
+    for (const card of cards.slice(0, perPiece)) {
+      if (toCreate.length >= maxCards) break
+      if (!card.front?.trim() || !card.back?.trim()) continue
+
+      const key = flashcardKey(card.front)
+      if (seen.has(key)) {
+        skipped++
+        continue
+      }
+      seen.add(key)
+
+      toCreate.push({
+        front: card.front.trim(),
+        back: card.back.trim(),
+        type: toFlashcardType(card.type),
+      })
+      bySource[input.source]++
+    }
+  }
+
+  if (toCreate.length > 0) {
+    await prisma.flashcard.createMany({
+      data: toCreate.map(card => ({ ...card, lessonId })),
+    })
+  }
+
+  return { created: toCreate.length, skipped, bySource }
+}
@@ -0,0 +1,319 @@
+/**
+ * Program glossaries - canonical spellings of domain terms and their known
+ * mistranscriptions, applied to transcripts as a post-correction pass.
+ *
+ * Matching ignores case and accents. Variants (one or more words) are
+ * replaced where they appear exactly; single words that are a small edit
+ * away from a term or variant are replaced too (fuzzy), as long as they
+ * share its first letter and are long enough for the distance to mean
+ * something, and aren't just another inflection of it (plural, gender).
+ */
+
+import { prisma } from '../db'
+import type { TranscriptResult, TranscriptWord } from '../transcription'
+
+export interface GlossaryEntry {
+  term: string
+  variants: string[]
+}
+
+// accent: the term itself with wrong accents or case
+export type CorrectionKind = 'accent' | 'variant' | 'fuzzy'
+
+export interface Correction {
+  from: string
+  to: string
+  term: string
+  kind: CorrectionKind
+  // Edit distance, for fuzzy corrections
+  distance?: number
+}
+
+interface Pattern {
+  tokens: string[]
+  term: string
+  isVariant: boolean
+}
+
+export interface Corrector {
+  // Exact patterns by their first normalized token, longest first
+  exact: Map<string, Pattern[]>
+  // Single-token patterns by first letter, for fuzzy matching
+  fuzzy: Map<string, Pattern[]>
+  termCount: number
+}
+
+// Which of the corrections found to make, by their order in the text
+export type AcceptCorrection = (correction: Correction, index: number) => boolean
+
+interface Match {
+  start: number
+  length: number
+  term: string
+  kind: CorrectionKind
+  distance?: number
+}
+
+// Words shorter than this are only corrected by exact variants
+const FUZZY_MIN_LENGTH = 6
+// Words this long or longer may be two edits away
+const FUZZY_TWO_EDITS_LENGTH = 10
+
+/**
+ * Lowercase without accents (ñ kept apart from n)
+ */
+export function normalizeTerm(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/ñ/g, '\u0000')
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/\u0000/g, 'ñ')
+}
+
+// Leading punctuation, the word, trailing punctuation
+function splitWord(token: string): [string, string, string] {
+  const match = token.match(/^([^\p{L}\p{N}]*)(.*?)([^\p{L}\p{N}]*)$/u)
+  return match ? [match[1], match[2], match[3]] : ['', token, '']
+}
+
+function maxDistance(length: number): number {
+  if (length < FUZZY_MIN_LENGTH) return 0
+  return length < FUZZY_TWO_EDITS_LENGTH ? 1 : 2
+}
+
+/**
+ * Optimal string alignment distance (edits plus adjacent swaps), or
+ * max + 1 once it is certain to exceed max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let prevPrev: number[] = []
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1)
+      }
+      row.push(value)
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > max) return max + 1
+    prevPrev = prev
+    prev = row
+  }
+  return prev[b.length]
+}
+
+const INFLECTION_ENDINGS = new Set(['', 's', 'es', 'a', 'o', 'as', 'os'])
+
+// "proteinas" for "proteina", "lactica" for "lactico": other forms of the word, not typos
+function isInflection(a: string, b: string): boolean {
+  let i = 0
+  while (i < a.length && i < b.length && a[i] === b[i]) i++
+  return INFLECTION_ENDINGS.has(a.slice(i)) && INFLECTION_ENDINGS.has(b.slice(i))
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).map(t => normalizeTerm(splitWord(t)[1])).filter(Boolean)
+}
+
+export function buildCorrector(entries: GlossaryEntry[], { fuzzy = true }: { fuzzy?: boolean } = {}): Corrector {
+  const corrector: Corrector = { exact: new Map(), fuzzy: new Map(), termCount: entries.length }
+
+  for (const entry of entries) {
+    const patterns = [
+      { tokens: tokenize(entry.term), term: entry.term, isVariant: false },
+      ...entry.variants.map(v => ({ tokens: tokenize(v), term: entry.term, isVariant: true })),
+    ]
+    for (const pattern of patterns) {
+      if (pattern.tokens.length === 0) continue
+      const first = pattern.tokens[0]
+      if (!corrector.exact.has(first)) corrector.exact.set(first, [])
+      corrector.exact.get(first)!.push(pattern)
+
+      if (fuzzy && pattern.tokens.length === 1 && maxDistance(first.length) > 0) {
+        const letter = first[0]
+        if (!corrector.fuzzy.has(letter)) corrector.fuzzy.set(letter, [])
+        corrector.fuzzy.get(letter)!.push(pattern)
+      }
+    }
+  }
+
+  for (const patterns of corrector.exact.values()) {
+    patterns.sort((a, b) => b.tokens.length - a.tokens.length)
+  }
+  return corrector
+}
+
+/**
+ * Glossary matches in a sequence of words (punctuation already stripped)
+ */
+function findMatches(words: string[], corrector: Corrector): Match[] {
+  const normalized = words.map(normalizeTerm)
+  const matches: Match[] = []
+
+  for (let i = 0; i < normalized.length; i++) {
+    const word = normalized[i]
+    if (!word) continue
+
+    const exact = corrector.exact.get(word)?.find(p =>
+      p.tokens.every((token, k) => normalized[i + k] === token)
+    )
+    if (exact) {
+      matches.push({ start: i, length: exact.tokens.length, term: exact.term, kind: exact.isVariant ? 'variant' : 'accent' })
+      i += exact.tokens.length - 1
+      continue
+    }
+
+    const max = maxDistance(word.length)
+    if (max === 0) continue
+    let best: { pattern: Pattern; distance: number } | null = null
+    for (const pattern of corrector.fuzzy.get(word[0]) || []) {
+      if (isInflection(word, pattern.tokens[0])) continue
+      const distance = editDistance(word, pattern.tokens[0], Math.min(max, maxDistance(pattern.tokens[0].length)))
+      if (distance <= max && distance > 0 && (!best || distance < best.distance)) best = { pattern, distance }
+    }
+    if (best) matches.push({ start: i, length: 1, term: best.pattern.term, kind: 'fuzzy', distance: best.distance })
+  }
+
+  return matches
+}
+
+// The term, capitalized like the text it replaces unless it has its own capitals
+function casedTerm(term: string, original: string): string {
+  if (term !== term.toLowerCase()) return term
+  return /^\p{Lu}/u.test(original) ? term[0].toUpperCase() + term.slice(1) : term
+}
+
+function toCorrection(match: Match, from: string, to: string): Correction {
+  return { from, to, term: match.term, kind: match.kind, ...(match.distance ? { distance: match.distance } : {}) }
+}
+
+/**
+ * Apply the glossary to a text. Whitespace inside replaced phrases
+ * collapses to the term; everything else is kept as is. Corrections
+ * left out by `accept` are neither made nor returned.
+ */
+export function correctText(
+  text: string,
+  corrector: Corrector,
+  accept?: AcceptCorrection
+): { text: string; corrections: Correction[] } {
+  // Words at even indexes, whitespace at odd ones
+  const parts = text.split(/(\s+)/)
+  const wordIndexes = parts.map((_, i) => i).filter(i => i % 2 === 0 && parts[i])
+  const split = wordIndexes.map(i => splitWord(parts[i]))
+
+  const found = findMatches(split.map(s => s[1]), corrector)
+    .map(match => {
+      const first = split[match.start]
+      const last = split[match.start + match.length - 1]
+      const from = parts.slice(wordIndexes[match.start], wordIndexes[match.start + match.length - 1] + 1).join('')
+      return { match, correction: toCorrection(match, from, first[0] + casedTerm(match.term, first[1]) + last[2]) }
+    })
+    // Only whitespace would change: not a correction (nor one in correctWords)
+    .filter(({ correction }) => correction.to !== correction.from.replace(/\s+/g, ' '))
+    .filter(({ correction }, i) => !accept || accept(correction, i))
+
+  // From the end, so earlier word indexes stay valid
+  for (const { match, correction } of [...found].reverse()) {
+    const fromIndex = wordIndexes[match.start]
+    parts.splice(fromIndex, wordIndexes[match.start + match.length - 1] - fromIndex + 1, correction.to)
+  }
+
+  return { text: parts.join(''), corrections: found.map(f => f.correction) }
+}
+
+/**
+ * Apply the glossary to timed words; a phrase replaced by one term
+ * becomes one word spanning it, as confident as its least confident part.
+ * `accept` sees the same corrections, in the same order, as correctText
+ * does for the text of these words.
+ */
+export function correctWords(words: TranscriptWord[], corrector: Corrector, accept?: AcceptCorrection): TranscriptWord[] {
+  const split = words.map(w => splitWord(w.word.trim()))
+  const corrected = [...words]
+
+  const found = findMatches(split.map(s => s[1]), corrector)
+    .map(match => {
+      const span = words.slice(match.start, match.start + match.length)
+      const word = split[match.start][0] + casedTerm(match.term, split[match.start][1]) + split[match.start + match.length - 1][2]
+      return { match, span, correction: toCorrection(match, span.map(w => w.word.trim()).join(' '), word) }
+    })
+    .filter(({ correction }) => correction.to !== correction.from)
+    .filter(({ correction }, i) => !accept || accept(correction, i))
+
+  for (const { match, span, correction } of [...found].reverse()) {
+    corrected.splice(match.start, match.length, {
+      word: correction.to,
+      start: span[0].start,
+      end: span[span.length - 1].end,
+      confidence: Math.min(...span.map(w => w.confidence)),
+    })
+  }
+
+  return corrected
+}
+
+/**
+ * Post-correction pass over a fresh transcript (segment text and words)
+ */
+export function correctTranscript(
+  result: TranscriptResult,
+  corrector: Corrector
+): { result: TranscriptResult; corrections: Correction[] } {
+  const corrections: Correction[] = []
+  const segments = result.segments.map(segment => {
+    const { text, corrections: found } = correctText(segment.text, corrector)
+    corrections.push(...found)
+    return {
+      ...segment,
+      text,
+      words: segment.words && found.length > 0 ? correctWords(segment.words, corrector) : segment.words,
+    }
+  })
+
+  return {
+    result: { ...result, segments, text: corrections.length > 0 ? segments.map(s => s.text).join(' ') : result.text },
+    corrections,
+  }
+}
+
+/**
+ * Corrector for a program's glossary, or null if it has no terms
+ */
+export async function getGlossaryCorrector(
+  programId: string | null | undefined,
+  options?: { fuzzy?: boolean }
+): Promise<Corrector | null> {
+  if (!programId) return null
+  const terms = await prisma.glossaryTerm.findMany({
+    where: { programId },
+    select: { term: true, variants: true },
+  })
+  return terms.length > 0 ? buildCorrector(terms, options) : null
+}
+
+/**
+ * Entries from pasted lines: "término: variante, variante" (or just "término")
+ */
+export function parseGlossaryLines(text: string): GlossaryEntry[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => {
+      const [term, variants = ''] = line.split(/\s*[:=]\s*/, 2)
+      return {
+        term: term.trim(),
+        variants: variants.split(/\s*[,;|]\s*/).map(v => v.trim()).filter(Boolean),
+      }
+    })
+    .filter(entry => entry.term)
+}
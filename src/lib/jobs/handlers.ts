@@ -0,0 +1,296 @@
+/**
+ * Processing job handlers - one per ProcessingType
+ */
+
+import path from 'path'
+import { prisma, Prisma, type ProcessingJob, type ProcessingType } from '../db'
+import { processSlides, performOcr } from '../pdf'
+import { getTranscriptionProvider, segmentsToChunks, segmentWords, encodeWords } from '../transcription'
+import { matchSlidesToTranscript, generateSummary } from '../ai'
+import { generateLessonFlashcards, type GenerateFlashcardsOptions } from '../flashcards'
+import { lessonSummaryPrompt, templateVersion } from '../prompts'
+import { getStorageFilePath, getStorageRelativePath } from '../storage'
+import { indexPaper } from '../papers'
+import { getGlossaryCorrector, correctTranscript } from '../glossary'
+
+export interface JobContext {
+  job: ProcessingJob
+  setProgress: (progress: number) => Promise<void>
+}
+
+export type JobHandler = (ctx: JobContext) => Promise<Prisma.InputJsonValue | undefined>
+
+function getInput<T>(job: ProcessingJob): Partial<T> {
+  return (job.inputData ?? {}) as Partial<T>
+}
+
+function requireLessonId(job: ProcessingJob): string {
+  if (!job.lessonId) {
+    throw new Error(`${job.type} job ${job.id} has no lessonId`)
+  }
+  return job.lessonId
+}
+
+/**
+ * TRANSCRIBE - input: { audioPartId }
+ */
+async function transcribe({ job, setProgress }: JobContext) {
+  const { audioPartId } = getInput<{ audioPartId: string }>(job)
+  if (!audioPartId) throw new Error('TRANSCRIBE job requires inputData.audioPartId')
+  const provider = getTranscriptionProvider()
+
+  const audioPart = await prisma.audioPart.findUniqueOrThrow({
+    where: { id: audioPartId },
+    include: { lesson: { select: { subject: { select: { programId: true } } } } },
+  })
+
+  // Provider progress (0-100) maps onto 0-80; updates are written in order
+  let reported = 0
+  let progressWrites = Promise.resolve()
+  const transcript = await provider.transcribe(audioPart.audioPath, {
+    onProgress: percent => {
+      const progress = Math.round(percent * 0.8)
+      if (progress < reported + 5) return
+      reported = progress
+      progressWrites = progressWrites.then(() => setProgress(progress))
+    },
+  })
+  await progressWrites
+  await setProgress(80)
+
+  // Fix known mistranscriptions of the program's terms
+  const corrector = await getGlossaryCorrector(audioPart.lesson.subject.programId)
+  const { result, corrections } = corrector
+    ? correctTranscript(transcript, corrector)
+    : { result: transcript, corrections: [] }
+
+  const chunks = segmentsToChunks(result.segments)
+  const words = segmentWords(result.segments)
+
+  await prisma.$transaction([
+    prisma.transcriptChunk.deleteMany({ where: { audioPartId } }),
+    prisma.transcriptChunk.createMany({
+      data: chunks.map(c => ({ ...c, audioPartId })),
+    }),
+    prisma.transcriptWords.deleteMany({ where: { audioPartId } }),
+    ...(words.length > 0
+      ? [prisma.transcriptWords.create({
+          data: { audioPartId, data: { ...encodeWords(words) }, wordCount: words.length },
+        })]
+      : []),
+    prisma.audioPart.update({
+      where: { id: audioPartId },
+      data: { duration: Math.round(result.duration) },
+    }),
+  ])
+
+  // Keep lesson total in sync with its parts
+  const total = await prisma.audioPart.aggregate({
+    where: { lessonId: audioPart.lessonId },
+    _sum: { duration: true },
+  })
+  await prisma.lesson.update({
+    where: { id: audioPart.lessonId },
+    data: { totalDuration: total._sum.duration },
+  })
+
+  return {
+    chunkCount: chunks.length,
+    wordCount: words.length,
+    duration: result.duration,
+    provider: provider.name,
+    // Glossary corrections per term
+    glossaryCorrections: corrections.reduce<Record<string, number>>((counts, c) => {
+      counts[c.term] = (counts[c.term] || 0) + 1
+      return counts
+    }, {}),
+  }
+}
+
+/**
+ * EXTRACT_SLIDES - input: { pdfPath }
+ * Renders each page to PNG next to the PDF and syncs Slide rows by order.
+ * OCR runs as its own job so it can be retried separately.
+ */
+async function extractSlides({ job, setProgress }: JobContext) {
+  const lessonId = requireLessonId(job)
+  const { pdfPath } = getInput<{ pdfPath: string }>(job)
+  if (!pdfPath) throw new Error('EXTRACT_SLIDES job requires inputData.pdfPath')
+
+  const pdfFile = getStorageFilePath(pdfPath)
+  const extracted = await processSlides(pdfFile, path.dirname(pdfFile), { runOcr: false })
+  await setProgress(70)
+
+  const existing = await prisma.slide.findMany({
+    where: { lessonId },
+    select: { id: true, order: true },
+  })
+  const byOrder = new Map(existing.map(s => [s.order, s.id]))
+
+  for (const slide of extracted) {
+    const imagePath = getStorageRelativePath(slide.imagePath)
+    const slideId = byOrder.get(slide.index)
+
+    // New images invalidate any previous OCR text
+    if (slideId) {
+      await prisma.slide.update({ where: { id: slideId }, data: { imagePath, ocrText: null } })
+    } else {
+      await prisma.slide.create({ data: { lessonId, order: slide.index, imagePath } })
+    }
+  }
+
+  // Drop slides beyond the new page count
+  await prisma.slide.deleteMany({
+    where: { lessonId, order: { gte: extracted.length } },
+  })
+
+  return { slideCount: extracted.length }
+}
+
+/**
+ * OCR - input: { force? }
+ * Fills Slide.ocrText for slides that don't have it yet
+ */
+async function ocrSlides({ job, setProgress }: JobContext) {
+  const lessonId = requireLessonId(job)
+  const { force = false } = getInput<{ force: boolean }>(job)
+
+  const slides = await prisma.slide.findMany({
+    where: { lessonId, ...(force ? {} : { ocrText: null }) },
+    orderBy: { order: 'asc' },
+  })
+
+  let characters = 0
+  for (let i = 0; i < slides.length; i++) {
+    const ocrText = await performOcr(getStorageFilePath(slides[i].imagePath))
+    await prisma.slide.update({
+      where: { id: slides[i].id },
+      data: { ocrText },
+    })
+    characters += ocrText.length
+    await setProgress(((i + 1) / slides.length) * 100)
+  }
+
+  return { slideCount: slides.length, characters }
+}
+
+/**
+ * AI_MATCH - links transcript chunks to the slide being discussed
+ */
+async function matchSlides({ job, setProgress }: JobContext) {
+  const lessonId = requireLessonId(job)
+
+  const slides = await prisma.slide.findMany({
+    where: { lessonId, ocrText: { not: null } },
+    orderBy: { order: 'asc' },
+  })
+  const chunks = await prisma.transcriptChunk.findMany({
+    where: { audioPart: { lessonId } },
+    orderBy: [{ audioPart: { order: 'asc' } }, { startTime: 'asc' }],
+  })
+
+  if (slides.length === 0 || chunks.length === 0) {
+    return { matchCount: 0, skipped: 'No OCR text or transcript' }
+  }
+
+  const matches = await matchSlidesToTranscript(
+    slides.map((s, index) => ({ index, ocrText: s.ocrText || '' })),
+    chunks.map((c, index) => ({ index, text: c.text, startTime: c.startTime, endTime: c.endTime }))
+  )
+  await setProgress(70)
+
+  const valid = matches.filter(m => slides[m.slideIndex] && chunks[m.transcriptChunkIndex])
+
+  await prisma.transcriptMatch.deleteMany({ where: { slide: { lessonId } } })
+  await prisma.transcriptMatch.createMany({
+    data: valid.map(m => ({
+      slideId: slides[m.slideIndex].id,
+      transcriptChunkId: chunks[m.transcriptChunkIndex].id,
+      confidenceScore: m.confidence,
+    })),
+    skipDuplicates: true,
+  })
+
+  for (const m of valid) {
+    await prisma.transcriptChunk.update({
+      where: { id: chunks[m.transcriptChunkIndex].id },
+      data: { matchedSlideId: slides[m.slideIndex].id },
+    })
+  }
+
+  return { matchCount: valid.length }
+}
+
+/**
+ * GENERATE_SUMMARY - summary and key points from transcript + slides
+ */
+async function summarize({ job }: JobContext) {
+  const lessonId = requireLessonId(job)
+
+  const lesson = await prisma.lesson.findUniqueOrThrow({
+    where: { id: lessonId },
+    include: {
+      slides: { select: { ocrText: true }, orderBy: { order: 'asc' } },
+      audioParts: {
+        orderBy: { order: 'asc' },
+        include: {
+          transcriptChunks: { select: { text: true }, orderBy: { startTime: 'asc' } },
+        },
+      },
+    },
+  })
+
+  const transcript = lesson.audioParts
+    .flatMap(ap => ap.transcriptChunks)
+    .map(c => c.text)
+    .join(' ')
+  const slideTexts = lesson.slides.map(s => s.ocrText).filter((t): t is string => !!t)
+
+  if (!transcript && slideTexts.length === 0) {
+    throw new Error('Lesson has no transcript or slide text to summarize')
+  }
+
+  const summary = await generateSummary(transcript, slideTexts)
+  if (!summary.content) throw new Error('AI returned no summary')
+
+  const data = {
+    content: summary.content,
+    keyPoints: summary.keyPoints,
+    promptVersion: templateVersion(lessonSummaryPrompt),
+  }
+  await prisma.summary.upsert({
+    where: { lessonId },
+    create: { lessonId, ...data },
+    update: data,
+  })
+
+  return { keyPoints: summary.keyPoints.length }
+}
+
+/**
+ * GENERATE_FLASHCARDS - input: GenerateFlashcardsOptions
+ */
+async function flashcards({ job }: JobContext) {
+  const lessonId = requireLessonId(job)
+  const result = await generateLessonFlashcards(lessonId, getInput<GenerateFlashcardsOptions>(job))
+  return { ...result }
+}
+
+/**
+ * INDEX_PAPER - input: { paperId }
+ */
+async function indexPaperJob({ job }: JobContext) {
+  const { paperId } = getInput<{ paperId: string }>(job)
+  if (!paperId) throw new Error('INDEX_PAPER job requires inputData.paperId')
+  return indexPaper(paperId)
+}
+
+export const JOB_HANDLERS: Record<ProcessingType, JobHandler> = {
+  TRANSCRIBE: transcribe,
+  EXTRACT_SLIDES: extractSlides,
+  OCR: ocrSlides,
+  AI_MATCH: matchSlides,
+  GENERATE_SUMMARY: summarize,
+  GENERATE_FLASHCARDS: flashcards,
+  INDEX_PAPER: indexPaperJob,
+}
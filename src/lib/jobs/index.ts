@@ -0,0 +1,415 @@
+/**
+ * Processing Queue - durable jobs stored in processing_jobs
+ * Jobs are claimed atomically (FOR UPDATE SKIP LOCKED) so several workers can run
+ */
+
+import { prisma, Prisma, ProcessingStatus, ProcessingType, type ProcessingJob } from '../db'
+
+// Base delay for the first retry, doubled on each attempt
+const RETRY_BASE_MS = 30_000
+const RETRY_MAX_MS = 30 * 60_000
+
+// Workers bump heartbeatAt this often while a handler runs
+export const JOB_HEARTBEAT_MS = 30_000
+
+// RUNNING jobs without a heartbeat for this long were abandoned by a dead worker
+const STALE_JOB_MS = 5 * 60_000
+
+export interface EnqueueOptions {
+  lessonId?: string
+  inputData?: Prisma.InputJsonValue
+  maxAttempts?: number
+  runAfter?: Date
+  dependsOn?: string[]
+}
+
+/**
+ * Add a job to the queue
+ */
+export async function enqueueJob(
+  type: ProcessingType,
+  options: EnqueueOptions = {}
+): Promise<ProcessingJob> {
+  const { lessonId, inputData, maxAttempts, runAfter, dependsOn } = options
+
+  return prisma.processingJob.create({
+    data: {
+      type,
+      lessonId,
+      inputData,
+      maxAttempts,
+      runAfter,
+      dependsOn,
+    },
+  })
+}
+
+export interface LessonPipelineInput {
+  pdfPath?: string
+  audioPartIds?: string[]
+}
+
+/**
+ * Enqueue the processing pipeline for freshly uploaded lesson files:
+ * EXTRACT_SLIDES -> OCR and TRANSCRIBE (per audio part) run independently,
+ * then AI_MATCH once both are done, then GENERATE_SUMMARY.
+ */
+export async function enqueueLessonPipeline(
+  lessonId: string,
+  input: LessonPipelineInput
+): Promise<ProcessingJob[]> {
+  const { pdfPath, audioPartIds = [] } = input
+  const jobs: ProcessingJob[] = []
+  const contentJobIds: string[] = []
+
+  if (pdfPath) {
+    const extract = await enqueueJob('EXTRACT_SLIDES', { lessonId, inputData: { pdfPath } })
+    const ocr = await enqueueJob('OCR', { lessonId, dependsOn: [extract.id] })
+    jobs.push(extract, ocr)
+    contentJobIds.push(ocr.id)
+  }
+
+  for (const audioPartId of audioPartIds) {
+    const transcribe = await enqueueJob('TRANSCRIBE', { lessonId, inputData: { audioPartId } })
+    jobs.push(transcribe)
+    contentJobIds.push(transcribe.id)
+  }
+
+  if (contentJobIds.length > 0) {
+    const match = await enqueueJob('AI_MATCH', { lessonId, dependsOn: contentJobIds })
+    const summary = await enqueueJob('GENERATE_SUMMARY', { lessonId, dependsOn: [match.id] })
+    jobs.push(match, summary)
+  }
+
+  await prisma.lesson.update({
+    where: { id: lessonId },
+    data: { status: 'PENDING' },
+  })
+
+  return jobs
+}
+
+/**
+ * Atomically claim the next runnable job (due, and all dependencies COMPLETED).
+ * Moves its lesson to PROCESSING.
+ */
+export async function claimNextJob(types?: ProcessingType[]): Promise<ProcessingJob | null> {
+  const typeFilter = types?.length
+    ? Prisma.sql`AND j.type::text IN (${Prisma.join(types)})`
+    : Prisma.empty
+
+  const claimed = await prisma.$queryRaw<{ id: string }[]>`
+    UPDATE processing_jobs
+    SET status = 'RUNNING', "startedAt" = NOW(), "heartbeatAt" = NOW(), attempts = attempts + 1, error = NULL
+    WHERE id = (
+      SELECT j.id FROM processing_jobs j
+      WHERE j.status = 'PENDING' AND j."runAfter" <= NOW() ${typeFilter}
+        AND NOT EXISTS (
+          SELECT 1 FROM processing_jobs d
+          WHERE d.id = ANY(j."dependsOn") AND d.status <> 'COMPLETED'
+        )
+      ORDER BY j."createdAt" ASC
+      FOR UPDATE SKIP LOCKED
+      LIMIT 1
+    )
+    RETURNING id
+  `
+
+  if (claimed.length === 0) return null
+
+  const job = await prisma.processingJob.findUniqueOrThrow({
+    where: { id: claimed[0].id },
+  })
+
+  if (job.lessonId) {
+    await prisma.lesson.updateMany({
+      where: { id: job.lessonId, status: { not: 'PROCESSING' } },
+      data: { status: 'PROCESSING' },
+    })
+  }
+
+  return job
+}
+
+/**
+ * Update job progress (0-100).
+ * Throws if the job was cancelled meanwhile so the handler stops early.
+ */
+export async function updateJobProgress(jobId: string, progress: number): Promise<void> {
+  const result = await prisma.processingJob.updateMany({
+    where: { id: jobId, status: 'RUNNING' },
+    data: {
+      progress: Math.max(0, Math.min(100, Math.round(progress))),
+      heartbeatAt: new Date(),
+    },
+  })
+
+  if (result.count === 0) {
+    throw new Error(`Job ${jobId} is no longer running`)
+  }
+}
+
+/**
+ * Mark a RUNNING job as still alive so requeueStaleJobs leaves it alone
+ */
+export async function heartbeatJob(jobId: string): Promise<void> {
+  await prisma.processingJob.updateMany({
+    where: { id: jobId, status: 'RUNNING' },
+    data: { heartbeatAt: new Date() },
+  })
+}
+
+/**
+ * Mark a job as completed and settle its lesson status
+ */
+export async function completeJob(
+  job: ProcessingJob,
+  resultData?: Prisma.InputJsonValue
+): Promise<void> {
+  // A job cancelled while running keeps its CANCELLED status
+  await prisma.processingJob.updateMany({
+    where: { id: job.id, status: 'RUNNING' },
+    data: {
+      status: 'COMPLETED',
+      progress: 100,
+      resultData,
+      completedAt: new Date(),
+    },
+  })
+
+  if (job.lessonId) {
+    await settleLessonStatus(job.lessonId)
+  }
+}
+
+/**
+ * Record a failure. Retries with exponential backoff until maxAttempts,
+ * then marks the job FAILED, cancels the jobs waiting on it and marks
+ * the lesson ERROR.
+ * Returns 'cancelled' if the job was cancelled while running.
+ */
+export async function failJob(
+  job: ProcessingJob,
+  error: unknown
+): Promise<'retry' | 'failed' | 'cancelled'> {
+  const message = error instanceof Error ? error.message : String(error)
+  const retry = job.attempts < job.maxAttempts
+  const delay = Math.min(RETRY_BASE_MS * 2 ** (job.attempts - 1), RETRY_MAX_MS)
+
+  const result = await prisma.processingJob.updateMany({
+    where: { id: job.id, status: 'RUNNING' },
+    data: retry
+      ? { status: 'PENDING', error: message, runAfter: new Date(Date.now() + delay) }
+      : { status: 'FAILED', error: message, completedAt: new Date() },
+  })
+
+  if (result.count === 0) return 'cancelled'
+  if (retry) return 'retry'
+
+  // Later stages can never run now; retryJob re-arms them
+  await cancelDependents(job.id, `Cancelled: ${job.type} job ${job.id} failed`)
+
+  if (job.lessonId) {
+    await settleLessonStatus(job.lessonId)
+  }
+  return 'failed'
+}
+
+/**
+ * Derive lesson status from its jobs:
+ * any FAILED -> ERROR, any PENDING/RUNNING -> PROCESSING,
+ * any COMPLETED -> READY, only CANCELLED -> PENDING
+ */
+export async function settleLessonStatus(lessonId: string): Promise<void> {
+  const jobs = await prisma.processingJob.groupBy({
+    by: ['status'],
+    where: { lessonId },
+    _count: true,
+  })
+  const count = (status: string) => jobs.find(j => j.status === status)?._count || 0
+
+  if (count('FAILED') > 0) {
+    await prisma.lesson.update({
+      where: { id: lessonId },
+      data: { status: 'ERROR' },
+    })
+  } else if (count('PENDING') + count('RUNNING') > 0) {
+    await prisma.lesson.update({
+      where: { id: lessonId },
+      data: { status: 'PROCESSING' },
+    })
+  } else if (count('COMPLETED') > 0) {
+    await prisma.lesson.update({
+      where: { id: lessonId },
+      data: { status: 'READY', isProcessed: true, processedAt: new Date() },
+    })
+  } else {
+    await prisma.lesson.update({
+      where: { id: lessonId },
+      data: { status: 'PENDING' },
+    })
+  }
+}
+
+/**
+ * Cancel the PENDING jobs that depend on a job, directly or through others,
+ * so later stages don't wait forever
+ */
+async function cancelDependents(jobId: string, reason: string): Promise<void> {
+  let parents = [jobId]
+  while (parents.length > 0) {
+    const dependents = await prisma.processingJob.findMany({
+      where: { status: 'PENDING', dependsOn: { hasSome: parents } },
+      select: { id: true },
+    })
+    parents = dependents.map(d => d.id)
+    await prisma.processingJob.updateMany({
+      where: { id: { in: parents } },
+      data: { status: 'CANCELLED', error: reason, completedAt: new Date() },
+    })
+  }
+}
+
+/**
+ * Cancel a PENDING or RUNNING job and the pending jobs that depend on it.
+ * A running handler notices on its next progress update.
+ */
+export async function cancelJob(jobId: string): Promise<ProcessingJob | null> {
+  const result = await prisma.processingJob.updateMany({
+    where: { id: jobId, status: { in: ['PENDING', 'RUNNING'] } },
+    data: { status: 'CANCELLED', error: 'Cancelled by user', completedAt: new Date() },
+  })
+  if (result.count === 0) return null
+
+  await cancelDependents(jobId, 'Cancelled with an earlier stage')
+
+  const job = await prisma.processingJob.findUniqueOrThrow({ where: { id: jobId } })
+  if (job.lessonId) {
+    await settleLessonStatus(job.lessonId)
+  }
+  return job
+}
+
+/**
+ * Put a FAILED or CANCELLED job back in the queue with fresh attempts,
+ * along with the later stages that were cancelled with it
+ */
+export async function retryJob(jobId: string): Promise<ProcessingJob | null> {
+  const requeue = {
+    status: 'PENDING' as const,
+    attempts: 0,
+    progress: 0,
+    error: null,
+    runAfter: new Date(),
+    startedAt: null,
+    heartbeatAt: null,
+    completedAt: null,
+  }
+
+  const result = await prisma.processingJob.updateMany({
+    where: { id: jobId, status: { in: ['FAILED', 'CANCELLED'] } },
+    data: requeue,
+  })
+  if (result.count === 0) return null
+
+  let parents = [jobId]
+  while (parents.length > 0) {
+    const dependents = await prisma.processingJob.findMany({
+      where: { status: 'CANCELLED', dependsOn: { hasSome: parents } },
+      select: { id: true },
+    })
+    parents = dependents.map(d => d.id)
+    await prisma.processingJob.updateMany({
+      where: { id: { in: parents } },
+      data: requeue,
+    })
+  }
+
+  const job = await prisma.processingJob.findUniqueOrThrow({ where: { id: jobId } })
+  if (job.lessonId) {
+    await settleLessonStatus(job.lessonId)
+  }
+  return job
+}
+
+/**
+ * Put RUNNING jobs abandoned by a crashed worker back in the queue.
+ * A job is abandoned once its heartbeat (or its start, for jobs claimed
+ * before heartbeats existed) is older than `olderThanMs`.
+ */
+export async function requeueStaleJobs(olderThanMs = STALE_JOB_MS): Promise<number> {
+  const cutoff = new Date(Date.now() - olderThanMs)
+  const result = await prisma.processingJob.updateMany({
+    where: {
+      status: 'RUNNING',
+      OR: [
+        { heartbeatAt: { lt: cutoff } },
+        { heartbeatAt: null, startedAt: { lt: cutoff } },
+      ],
+    },
+    data: { status: 'PENDING', error: 'Requeued after worker timeout' },
+  })
+  return result.count
+}
+
+export interface JobFilter {
+  status?: ProcessingStatus[]
+  type?: ProcessingType[]
+  lessonId?: string
+  subjectId?: string
+  limit?: number
+}
+
+/**
+ * Prisma where clause for a job filter (limit aside)
+ */
+export function jobFilterWhere(filter: JobFilter = {}): Prisma.ProcessingJobWhereInput {
+  const { status, type, lessonId, subjectId } = filter
+  return {
+    ...(status?.length && { status: { in: status } }),
+    ...(type?.length && { type: { in: type } }),
+    ...(lessonId && { lessonId }),
+    ...(subjectId && { lesson: { subjectId } }),
+  }
+}
+
+/**
+ * List jobs newest first, with their lesson and subject for display
+ */
+export async function listJobs(filter: JobFilter = {}) {
+  return prisma.processingJob.findMany({
+    where: jobFilterWhere(filter),
+    include: {
+      lesson: {
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          subject: { select: { id: true, name: true, color: true } },
+        },
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+    take: filter.limit ?? 200,
+  })
+}
+
+/**
+ * Parse list filters from query params (?status=FAILED,RUNNING&type=OCR&lessonId=...)
+ */
+export function parseJobFilter(searchParams: URLSearchParams): JobFilter {
+  const list = <T extends string>(name: string, values: Record<string, T>) =>
+    searchParams
+      .get(name)
+      ?.split(',')
+      .map(v => v.trim().toUpperCase())
+      .filter((v): v is T => v in values)
+
+  return {
+    status: list('status', ProcessingStatus),
+    type: list('type', ProcessingType),
+    lessonId: searchParams.get('lessonId') || undefined,
+    subjectId: searchParams.get('subjectId') || undefined,
+    limit: Math.min(parseInt(searchParams.get('limit') || '200') || 200, 500),
+  }
+}
@@ -3,19 +3,53 @@
  * RAG search and retrieval functions
  */
 
-import { prisma } from './db'
-import { generateEmbedding, cosineSimilarity, chunkText, estimateTokens } from './embeddings'
+import { createHash } from 'crypto'
+import { prisma, Prisma } from './db'
+import {
+  generateEmbedding,
+  generateEmbeddings,
+  toVectorLiteral,
+  chunkText,
+  chunkMarkdown,
+  estimateTokens,
+  getEmbeddingProvider,
+  type Embedding,
+} from './embeddings'
+import { rerank as rerankPassages, isRerankerEnabled } from './embeddings/reranker'
+import { headingAnchor } from './utils'
+import { getStorageUrl } from './storage'
 
 export interface SearchResult {
   id: string
   content: string
+  // Relevance in 0-1: cross-encoder score when reranked, otherwise
+  // fused rank (1 = ranked first by both searches)
   similarity: number
+  scores: ScoreBreakdown
   sourceType: string
   sourceId: string
   lessonId: string | null
   subjectId: string | null
   title: string | null
   tags: string[]
+  // Markdown sections the chunk sits under (Cornell notes, summaries)
+  headingPath: string[]
+}
+
+/**
+ * Why a chunk ranked where it did. Ranks are 1-based; null means the
+ * chunk was not returned by that search.
+ */
+export interface ScoreBreakdown {
+  rrf: number
+  vector: number | null
+  vectorRank: number | null
+  text: number | null
+  textRank: number | null
+  // Cross-encoder relevance (null when the reranker is off or failed)
+  rerank: number | null
+  // Maximal marginal relevance when the chunk was picked
+  mmr: number | null
 }
 
 export interface SearchOptions {
@@ -24,187 +58,466 @@ export interface SearchOptions {
   subjectId?: string
   lessonId?: string
   programId?: string
+  // Minimum cosine similarity for vector matches
   minSimilarity?: number
+  // Score the top candidates with the cross-encoder (default: RERANKER)
+  rerank?: boolean
+  // MMR trade-off: 1 = relevance only, 0 = diversity only
+  diversity?: number
 }
 
+// Vector matches below this cosine similarity are dropped
+const DEFAULT_MIN_SIMILARITY = 0.2
+
 /**
- * Search knowledge base by hybrid search (text + semantic)
+ * Search settings of each caller, kept here so the retrieval evaluation
+ * (scripts/eval-retrieval.ts) measures exactly what the app runs
+ */
+export const SEARCH_PRESETS = {
+  // /ask chat: a few close sources as answer context
+  chat: { limit: 5, minSimilarity: 0.3 },
+  // ⌘K search: only close matches are listed
+  search: { limit: 10, minSimilarity: 0.5 },
+} satisfies Record<string, SearchOptions>
+
+// Which part of the knowledge base a search looks at
+export type KnowledgeScope = Pick<SearchOptions, 'sourceTypes' | 'subjectId' | 'lessonId' | 'programId'>
+
+/**
+ * Scope from a request body; malformed fields are dropped
+ */
+export function parseScope(value: unknown): KnowledgeScope {
+  if (typeof value !== 'object' || value === null) return {}
+  const raw = value as Record<string, unknown>
+  const id = (field: unknown) => (typeof field === 'string' && field ? field : undefined)
+
+  const sourceTypes = Array.isArray(raw.sourceTypes)
+    ? raw.sourceTypes.filter((t): t is string => typeof t === 'string' && t.length > 0)
+    : []
+
+  return {
+    programId: id(raw.programId),
+    subjectId: id(raw.subjectId),
+    lessonId: id(raw.lessonId),
+    sourceTypes: sourceTypes.length > 0 ? sourceTypes : undefined,
+  }
+}
+
+type ChunkRow = Omit<SearchResult, 'similarity' | 'scores'>
+
+export interface RankedChunk extends ChunkRow {
+  score: number
+}
+
+// Reciprocal rank fusion constant (Cormack et al.)
+const RRF_K = 60
+
+// Fused candidates passed to the reranker
+const RERANK_CANDIDATES = parseInt(process.env.RERANK_CANDIDATES || '30')
+
+// Default MMR trade-off between relevance and novelty
+const MMR_LAMBDA = 0.7
+
+// Extra redundancy between chunks of the same sourceType, so the
+// transcript, slide and Cornell versions of a topic are mixed
+const SAME_SOURCE_TYPE_SIMILARITY = 0.2
+
+/**
+ * Search knowledge base by hybrid search: full-text and vector rankings
+ * run side by side and are merged with reciprocal rank fusion, the top
+ * candidates are rescored by a cross-encoder, and the final list is
+ * picked with maximal marginal relevance so near-duplicates give way
+ * to other evidence
  */
 export async function searchKnowledge(
   query: string,
   options: SearchOptions = {}
 ): Promise<SearchResult[]> {
-  const {
-    limit = 10,
-    sourceTypes,
-    subjectId,
-    lessonId,
-    programId,
-    minSimilarity = 0.2,  // Lower threshold for semantic
-  } = options
-
-  // Build where clause for filtering
-  const where: Record<string, unknown> = {}
+  const { limit = 10, rerank = isRerankerEnabled(), diversity = MMR_LAMBDA } = options
+  const candidates = Math.max(limit * 3, 30)
+
+  const vectorSearch = async () => {
+    try {
+      const queryEmbedding = await generateEmbedding(query)
+      return await searchByEmbedding(queryEmbedding, { ...options, limit: candidates })
+    } catch (e) {
+      console.error('Semantic search error:', e)
+      // Continue with text results only
+      return []
+    }
+  }
+
+  const [textMatches, vectorMatches] = await Promise.all([
+    searchByText(query, { ...options, limit: candidates }),
+    vectorSearch(),
+  ])
+
+  const results = new Map<string, SearchResult>()
+  const entry = (chunk: RankedChunk): SearchResult => {
+    if (!results.has(chunk.id)) {
+      results.set(chunk.id, {
+        id: chunk.id,
+        content: chunk.content,
+        sourceType: chunk.sourceType,
+        sourceId: chunk.sourceId,
+        lessonId: chunk.lessonId,
+        subjectId: chunk.subjectId,
+        title: chunk.title,
+        tags: chunk.tags,
+        headingPath: chunk.headingPath,
+        similarity: 0,
+        scores: {
+          rrf: 0,
+          vector: null,
+          vectorRank: null,
+          text: null,
+          textRank: null,
+          rerank: null,
+          mmr: null,
+        },
+      })
+    }
+    return results.get(chunk.id)!
+  }
+
+  textMatches.forEach((chunk, i) => {
+    const result = entry(chunk)
+    result.scores.text = chunk.score
+    result.scores.textRank = i + 1
+    result.scores.rrf += 1 / (RRF_K + i + 1)
+  })
+  vectorMatches.forEach((chunk, i) => {
+    const result = entry(chunk)
+    result.scores.vector = chunk.score
+    result.scores.vectorRank = i + 1
+    result.scores.rrf += 1 / (RRF_K + i + 1)
+  })
+
+  // Best possible fused score: first place in both rankings
+  const maxRrf = 2 / (RRF_K + 1)
+
+  const fused = Array.from(results.values())
+    .map(r => ({ ...r, similarity: r.scores.rrf / maxRrf }))
+    .sort((a, b) => b.scores.rrf - a.scores.rrf)
+    .slice(0, Math.max(limit, RERANK_CANDIDATES))
+
+  if (rerank && fused.length > 1) {
+    try {
+      const scores = await rerankPassages(query, fused.map(r => passageText(r)))
+      fused.forEach((r, i) => {
+        r.scores.rerank = scores[i]
+        r.similarity = scores[i]
+      })
+    } catch (e) {
+      console.error('Rerank error:', e)
+      // Keep the fused order
+    }
+  }
+
+  return diversify(fused, limit, diversity)
+}
+
+function passageText(result: SearchResult): string {
+  const heading = [result.title, ...result.headingPath].filter(Boolean).join(' > ')
+  return heading ? `${heading}\n${result.content}` : result.content
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .split(/[^a-z0-9]+/)
+      .filter(w => w.length > 3)
+  )
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0
+  let shared = 0
+  for (const word of a) if (b.has(word)) shared++
+  return shared / (a.size + b.size - shared)
+}
+
+/**
+ * Maximal marginal relevance: repeatedly take the candidate with the best
+ * lambda * relevance - (1 - lambda) * (similarity to what is already picked)
+ */
+function diversify(candidates: SearchResult[], limit: number, lambda: number): SearchResult[] {
+  const words = new Map(candidates.map(c => [c.id, wordSet(c.content)]))
+  const redundancy = (a: SearchResult, b: SearchResult) =>
+    Math.min(1, jaccard(words.get(a.id)!, words.get(b.id)!) +
+      (a.sourceType === b.sourceType ? SAME_SOURCE_TYPE_SIMILARITY : 0))
+
+  const remaining = [...candidates]
+  const selected: SearchResult[] = []
+
+  while (selected.length < limit && remaining.length > 0) {
+    let bestIndex = 0
+    let bestScore = -Infinity
+
+    remaining.forEach((candidate, i) => {
+      const maxRedundancy = selected.length
+        ? Math.max(...selected.map(s => redundancy(candidate, s)))
+        : 0
+      const score = lambda * candidate.similarity - (1 - lambda) * maxRedundancy
+      if (score > bestScore) {
+        bestScore = score
+        bestIndex = i
+      }
+    })
+
+    const [picked] = remaining.splice(bestIndex, 1)
+    picked.scores.mmr = bestScore
+    selected.push(picked)
+  }
+
+  return selected
+}
+
+/**
+ * SQL conditions for the search filters, shared by both rankings
+ */
+function filterConditions(options: SearchOptions): Prisma.Sql[] {
+  const { sourceTypes, subjectId, lessonId, programId } = options
+
+  const conditions: Prisma.Sql[] = []
   if (sourceTypes?.length) {
-    where.sourceType = { in: sourceTypes }
+    conditions.push(Prisma.sql`"sourceType" IN (${Prisma.join(sourceTypes)})`)
   }
   if (subjectId) {
-    where.subjectId = subjectId
+    conditions.push(Prisma.sql`"subjectId" = ${subjectId}`)
   }
   if (lessonId) {
-    where.lessonId = lessonId
+    conditions.push(Prisma.sql`"lessonId" = ${lessonId}`)
   }
   if (programId) {
-    where.programId = programId
+    conditions.push(Prisma.sql`"programId" = ${programId}`)
   }
+  return conditions
+}
 
-  const results = new Map<string, SearchResult>()
+/**
+ * Rank chunks with Postgres full-text search (Spanish stemming, accents
+ * folded with unaccent). Any query term can match; ts_rank_cd rewards
+ * chunks that contain more of them close together, and title hits weigh
+ * more than body hits.
+ */
+export async function searchByText(
+  query: string,
+  options: SearchOptions = {}
+): Promise<RankedChunk[]> {
+  const { limit = 10 } = options
+  const conditions = [Prisma.sql`search_vector @@ q.query`, ...filterConditions(options)]
 
-  // 1. TEXT SEARCH - Find direct text matches (great for partial words)
-  const textMatches = await prisma.knowledgeChunk.findMany({
-    where: {
-      ...where,
-      OR: [
-        { content: { contains: query, mode: 'insensitive' } },
-        { title: { contains: query, mode: 'insensitive' } },
-      ],
-    },
-    select: {
-      id: true,
-      content: true,
-      sourceType: true,
-      sourceId: true,
-      lessonId: true,
-      subjectId: true,
-      title: true,
-      tags: true,
-    },
-    take: limit * 2,
-  })
+  return prisma.$queryRaw<RankedChunk[]>`
+    SELECT
+      id, content, "sourceType", "sourceId", "lessonId", "subjectId", title, tags, "headingPath",
+      ts_rank_cd(search_vector, q.query, 32) AS score
+    FROM knowledge_chunks,
+      (SELECT replace(plainto_tsquery('spanish_unaccent', ${query})::text, '&', '|')::tsquery AS query) AS q
+    WHERE ${Prisma.join(conditions, ' AND ')}
+    ORDER BY score DESC
+    LIMIT ${limit}
+  `
+}
 
-  // Add text matches with high similarity (text match = very relevant)
-  for (const chunk of textMatches) {
-    const titleMatch = chunk.title?.toLowerCase().includes(query.toLowerCase())
-    results.set(chunk.id, {
-      ...chunk,
-      similarity: titleMatch ? 0.95 : 0.85,  // Title matches score higher
-    })
+/**
+ * Rank chunks by cosine similarity in Postgres (pgvector HNSW index).
+ * Filters are part of the query, so every chunk in scope can match.
+ * Only chunks embedded by the same model as the query are compared;
+ * anything else in the index is invisible until it is re-embedded.
+ */
+export async function searchByEmbedding(
+  embedding: Embedding,
+  options: SearchOptions = {}
+): Promise<RankedChunk[]> {
+  const { limit = 10, minSimilarity = DEFAULT_MIN_SIMILARITY } = options
+  const { model, dimensions } = embedding
+
+  if (!Number.isInteger(dimensions) || embedding.vector.length !== dimensions) {
+    throw new Error(`Query embedding from ${model} does not have ${dimensions} dimensions`)
   }
 
-  // 2. SEMANTIC SEARCH - If we don't have enough results, do semantic search
-  if (results.size < limit) {
-    try {
-      const queryEmbedding = await generateEmbedding(query)
+  const conditions = [
+    Prisma.sql`embedding IS NOT NULL`,
+    Prisma.sql`"embeddingModel" = ${model}`,
+    Prisma.sql`"embeddingDimensions" = ${dimensions}`,
+    ...filterConditions(options),
+  ]
 
-      // Fetch chunks with embeddings
-      const chunks = await prisma.knowledgeChunk.findMany({
-        where,
-        select: {
-          id: true,
-          content: true,
-          sourceType: true,
-          sourceId: true,
-          lessonId: true,
-          subjectId: true,
-          title: true,
-          tags: true,
-        },
-        take: 500,  // Limit for performance
-      })
+  // The cast must match the per-dimension index expression
+  const vectorType = Prisma.raw(`vector(${dimensions})`)
+  const column = Prisma.sql`(embedding::${vectorType})`
+  const vector = Prisma.sql`${toVectorLiteral(embedding.vector)}::${vectorType}`
 
-      const chunkIds = chunks.filter(c => !results.has(c.id)).map(c => c.id)
+  // The HNSW scan applies filters after finding candidates, so widen the
+  // candidate list when the query is narrowed down
+  const efSearch = conditions.length > 3 ? Math.max(200, limit * 4) : Math.max(40, limit * 2)
 
-      if (chunkIds.length > 0) {
-        const embeddings = await prisma.$queryRawUnsafe<{ id: string; embedding: number[] }[]>(
-          `SELECT id, embedding FROM knowledge_chunks WHERE id = ANY($1) AND embedding IS NOT NULL`,
-          chunkIds
-        )
+  const [, rows] = await prisma.$transaction([
+    prisma.$executeRawUnsafe(`SET LOCAL hnsw.ef_search = ${efSearch}`),
+    prisma.$queryRaw<RankedChunk[]>`
+      SELECT
+        id, content, "sourceType", "sourceId", "lessonId", "subjectId", title, tags, "headingPath",
+        1 - (${column} <=> ${vector}) AS score
+      FROM knowledge_chunks
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY ${column} <=> ${vector}
+      LIMIT ${limit}
+    `,
+  ])
 
-        const embeddingMap = new Map(embeddings.map(e => [e.id, e.embedding]))
+  return rows.filter(r => r.score >= minSimilarity)
+}
 
-        for (const chunk of chunks) {
-          if (results.has(chunk.id)) continue
-          const embedding = embeddingMap.get(chunk.id)
-          if (!embedding) continue
+export interface IndexMetadata {
+  sourceType: string
+  sourceId: string
+  lessonId?: string
+  subjectId?: string
+  programId?: string
+  title?: string
+  tags?: string[]
+}
 
-          const similarity = cosineSimilarity(queryEmbedding, embedding)
-          if (similarity >= minSimilarity) {
-            results.set(chunk.id, { ...chunk, similarity })
-          }
-        }
-      }
-    } catch (e) {
-      console.error('Semantic search error:', e)
-      // Continue with text results only
-    }
+// How an indexed source compares with its current content
+export type IndexAction = 'new' | 'changed' | 'unchanged'
+
+export interface IndexedVersion {
+  contentHash: string | null
+  embeddingModel: string | null
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+// Sources written in markdown are chunked along their headings
+const MARKDOWN_SOURCE_TYPES = new Set(['cornell', 'summary'])
+
+// Bump to re-chunk markdown sources on the next index run
+const MARKDOWN_CHUNKER_VERSION = 1
+
+/**
+ * Hash stored on a source's chunks; covers the chunker for markdown sources
+ */
+function sourceHash(content: string, sourceType: string): string {
+  return hashContent(
+    MARKDOWN_SOURCE_TYPES.has(sourceType)
+      ? `markdown@${MARKDOWN_CHUNKER_VERSION}\n${content}`
+      : content
+  )
+}
+
+function chunkSource(content: string, sourceType: string) {
+  return MARKDOWN_SOURCE_TYPES.has(sourceType)
+    ? chunkMarkdown(content)
+    : chunkText(content).map(chunk => ({ content: chunk, headingPath: [] as string[] }))
+}
+
+/**
+ * Hash/model versions stored for every indexed source of a type
+ * (more than one entry means the source's chunks are out of sync)
+ */
+export async function getIndexedSources(sourceType: string): Promise<Map<string, IndexedVersion[]>> {
+  const rows = await prisma.knowledgeChunk.findMany({
+    where: { sourceType },
+    select: { sourceId: true, contentHash: true, embeddingModel: true },
+    distinct: ['sourceId', 'contentHash', 'embeddingModel'],
+  })
+
+  const sources = new Map<string, IndexedVersion[]>()
+  for (const { sourceId, ...version } of rows) {
+    if (!sources.has(sourceId)) sources.set(sourceId, [])
+    sources.get(sourceId)!.push(version)
   }
+  return sources
+}
 
-  // Sort by similarity and return top results
-  return Array.from(results.values())
-    .sort((a, b) => b.similarity - a.similarity)
-    .slice(0, limit)
+/**
+ * Decide whether a source needs (re-)embedding. Content indexed before
+ * hashes were recorded, or with another embedding model, counts as changed.
+ */
+export function planIndex(
+  content: string,
+  sourceType: string,
+  indexed: IndexedVersion[] | undefined
+): IndexAction {
+  if (!indexed?.length) return 'new'
+
+  const hash = sourceHash(content, sourceType)
+  const current = indexed.length === 1 &&
+    indexed[0].contentHash === hash &&
+    indexed[0].embeddingModel === getEmbeddingProvider().model
+  return current ? 'unchanged' : 'changed'
 }
 
 /**
- * Index content into knowledge base
+ * Index content into knowledge base.
+ * Unchanged sources are skipped; changed ones have their chunks replaced.
  */
 export async function indexContent(
   content: string,
-  metadata: {
-    sourceType: string
-    sourceId: string
-    lessonId?: string
-    subjectId?: string
-    programId?: string
-    title?: string
-    tags?: string[]
-  }
-): Promise<string[]> {
+  metadata: IndexMetadata
+): Promise<{ action: IndexAction; chunkIds: string[] }> {
   const { sourceType, sourceId, lessonId, subjectId, programId, title, tags = [] } = metadata
 
-  // Check if already indexed
-  const existing = await prisma.knowledgeChunk.findFirst({
+  const indexed = await prisma.knowledgeChunk.findMany({
     where: { sourceType, sourceId },
+    select: { contentHash: true, embeddingModel: true },
+    distinct: ['contentHash', 'embeddingModel'],
   })
-  if (existing) {
-    console.log(`Content already indexed: ${sourceType}/${sourceId}`)
-    return []
+  const action = planIndex(content, sourceType, indexed)
+  if (action === 'unchanged') {
+    return { action, chunkIds: [] }
   }
 
-  // Split into chunks
-  const chunks = chunkText(content)
-  const chunkIds: string[] = []
-
-  for (const chunkContent of chunks) {
-    // Generate embedding
-    const embedding = await generateEmbedding(chunkContent)
-
-    // Create chunk record
-    const chunk = await prisma.knowledgeChunk.create({
-      data: {
-        content: chunkContent,
-        sourceType,
-        sourceId,
-        lessonId,
-        subjectId,
-        programId,
-        title,
-        tags,
-        tokenCount: estimateTokens(chunkContent),
-      },
-    })
+  // Embed everything before touching the old chunks, so a failed
+  // embedding call leaves the previous version searchable
+  const chunks = chunkSource(content, sourceType)
+  // The heading path gives each section's embedding its context
+  const embeddings = await generateEmbeddings(
+    chunks.map(c => (c.headingPath.length ? `${c.headingPath.join(' > ')}\n\n${c.content}` : c.content))
+  )
+  const contentHash = sourceHash(content, sourceType)
 
-    // Store embedding via raw SQL (JSONB)
-    await prisma.$executeRaw`
-      UPDATE knowledge_chunks
-      SET embedding = ${JSON.stringify(embedding)}::jsonb
-      WHERE id = ${chunk.id}
-    `
+  const chunkIds = await prisma.$transaction(async tx => {
+    await tx.knowledgeChunk.deleteMany({ where: { sourceType, sourceId } })
 
-    chunkIds.push(chunk.id)
-  }
+    const ids: string[] = []
+    for (let i = 0; i < chunks.length; i++) {
+      const chunk = await tx.knowledgeChunk.create({
+        data: {
+          content: chunks[i].content,
+          sourceType,
+          sourceId,
+          lessonId,
+          subjectId,
+          programId,
+          title,
+          tags,
+          tokenCount: estimateTokens(chunks[i].content),
+          headingPath: chunks[i].headingPath,
+          contentHash,
+          embeddingModel: embeddings[i].model,
+          embeddingDimensions: embeddings[i].dimensions,
+        },
+      })
+
+      // Store embedding via raw SQL (pgvector)
+      await tx.$executeRaw`
+        UPDATE knowledge_chunks
+        SET embedding = ${toVectorLiteral(embeddings[i].vector)}::vector
+        WHERE id = ${chunk.id}
+      `
+      ids.push(chunk.id)
+    }
+    return ids
+  }, { timeout: 60000 })
 
-  return chunkIds
+  return { action, chunkIds }
 }
 
 /**
@@ -227,6 +540,7 @@ export async function getIndexStats(): Promise<{
   totalChunks: number
   bySourceType: Record<string, number>
   byProgram: Record<string, number>
+  byEmbeddingModel: Record<string, number>
 }> {
   const totalChunks = await prisma.knowledgeChunk.count()
 
@@ -240,6 +554,11 @@ export async function getIndexStats(): Promise<{
     _count: true,
   })
 
+  const byEmbeddingModel = await prisma.knowledgeChunk.groupBy({
+    by: ['embeddingModel', 'embeddingDimensions'],
+    _count: true,
+  })
+
   return {
     totalChunks,
     bySourceType: Object.fromEntries(
@@ -248,6 +567,12 @@ export async function getIndexStats(): Promise<{
     byProgram: Object.fromEntries(
       byProgram.filter(p => p.programId).map(p => [p.programId!, p._count])
     ),
+    byEmbeddingModel: Object.fromEntries(
+      byEmbeddingModel.map(m => [
+        m.embeddingModel ? `${m.embeddingModel} (${m.embeddingDimensions})` : 'none',
+        m._count,
+      ])
+    ),
   }
 }
 
@@ -257,8 +582,97 @@ export async function getIndexStats(): Promise<{
 export function buildContext(results: SearchResult[]): string {
   return results
     .map((r, i) => {
-      const source = r.title || `${r.sourceType}/${r.sourceId}`
+      const source = [r.title || `${r.sourceType}/${r.sourceId}`, ...r.headingPath].join(' > ')
       return `[${i + 1}] (${source}, relevancia: ${(r.similarity * 100).toFixed(0)}%)\n${r.content}`
     })
     .join('\n\n---\n\n')
 }
+
+/**
+ * Page each search result links to (in input order):
+ * - transcript: the lesson player at the chunk's part and startTime
+ * - slide: the lesson with that slide open
+ * - cornell: the Cornell notes at the chunk's section anchor
+ * - paper: the paper's PDF
+ */
+export async function sourceLinks(
+  results: Pick<SearchResult, 'sourceType' | 'sourceId' | 'lessonId' | 'headingPath'>[]
+): Promise<(string | null)[]> {
+  const transcriptIds = results.filter(r => r.sourceType === 'transcript').map(r => r.sourceId)
+  const transcripts = transcriptIds.length
+    ? await prisma.transcriptChunk.findMany({
+        where: { id: { in: transcriptIds } },
+        select: { id: true, audioPartId: true, startTime: true },
+      })
+    : []
+  const transcriptById = new Map(transcripts.map(t => [t.id, t]))
+
+  const paperIds = results.filter(r => r.sourceType === 'paper').map(r => r.sourceId)
+  const papers = paperIds.length
+    ? await prisma.paper.findMany({
+        where: { id: { in: paperIds } },
+        select: { id: true, filePath: true },
+      })
+    : []
+  const paperById = new Map(papers.map(p => [p.id, p]))
+
+  return results.map(r => {
+    if (r.sourceType === 'paper') {
+      const paper = paperById.get(r.sourceId)
+      return paper?.filePath ? getStorageUrl(paper.filePath) : null
+    }
+    if (!r.lessonId) return null
+    const lessonHref = `/lessons/${r.lessonId}`
+
+    switch (r.sourceType) {
+      case 'transcript': {
+        const chunk = transcriptById.get(r.sourceId)
+        return chunk
+          ? `${lessonHref}?part=${chunk.audioPartId}&t=${Math.floor(chunk.startTime)}`
+          : lessonHref
+      }
+      case 'slide':
+        return `${lessonHref}?slide=${r.sourceId}`
+      case 'cornell': {
+        const section = r.headingPath[r.headingPath.length - 1]
+        return `${lessonHref}/cornell${section ? `#${headingAnchor(section)}` : ''}`
+      }
+      default:
+        return `${lessonHref}/cornell`
+    }
+  })
+}
+
+export interface CitationCheck {
+  // Answer with markers that match no source removed
+  text: string
+  // 1-based source numbers the answer cites, in order of first use
+  cited: number[]
+  // Markers that pointed at sources that were not retrieved
+  invalid: number[]
+}
+
+/**
+ * Check the [n] markers of an answer against the n sources it was given
+ */
+export function validateCitations(answer: string, sourceCount: number): CitationCheck {
+  const cited: number[] = []
+  const invalid: number[] = []
+
+  // [1], [2][3] and [1, 2] are all accepted; [2, 3] becomes [2][3]
+  const text = answer.replace(
+    /(\s?)\[(\d+(?:\s*[,;]\s*\d+)*)\](?!\()/g,
+    (_, space: string, list: string) => {
+      const numbers = list.split(/[,;]/).map(n => parseInt(n.trim()))
+      const valid = numbers.filter(n => n >= 1 && n <= sourceCount)
+
+      invalid.push(...numbers.filter(n => !valid.includes(n)))
+      for (const n of valid) if (!cited.includes(n)) cited.push(n)
+
+      // Drop the marker (and the space before it) if nothing was valid
+      return valid.length ? space + valid.map(n => `[${n}]`).join('') : ''
+    }
+  )
+
+  return { text, cited, invalid }
+}
@@ -0,0 +1,259 @@
+/**
+ * BibTeX parsing and formatting
+ * Handles what reference managers (Zotero, Mendeley, JabRef) export:
+ * braced or quoted values, # concatenation, @string macros and the
+ * common LaTeX accent commands.
+ */
+
+import type { ReferenceEntry } from './references'
+
+// Entries that carry no reference
+const SKIPPED_ENTRY_TYPES = new Set(['comment', 'preamble'])
+
+const MONTH_MACROS: Record<string, string> = {
+  jan: '1', feb: '2', mar: '3', apr: '4', may: '5', jun: '6',
+  jul: '7', aug: '8', sep: '9', oct: '10', nov: '11', dec: '12',
+}
+
+// Fields mapped onto Paper columns; the rest go to bibFields
+const MAPPED_FIELDS = new Set(['title', 'author', 'year', 'date', 'abstract', 'doi', 'keywords', 'file'])
+
+const ACCENTS: Record<string, Record<string, string>> = {
+  "'": { a: 'á', e: 'é', i: 'í', o: 'ó', u: 'ú', y: 'ý', n: 'ń', c: 'ć', A: 'Á', E: 'É', I: 'Í', O: 'Ó', U: 'Ú', Y: 'Ý' },
+  '`': { a: 'à', e: 'è', i: 'ì', o: 'ò', u: 'ù', A: 'À', E: 'È', I: 'Ì', O: 'Ò', U: 'Ù' },
+  '^': { a: 'â', e: 'ê', i: 'î', o: 'ô', u: 'û', A: 'Â', E: 'Ê', I: 'Î', O: 'Ô', U: 'Û' },
+  '"': { a: 'ä', e: 'ë', i: 'ï', o: 'ö', u: 'ü', y: 'ÿ', A: 'Ä', E: 'Ë', I: 'Ï', O: 'Ö', U: 'Ü' },
+  '~': { a: 'ã', n: 'ñ', o: 'õ', A: 'Ã', N: 'Ñ', O: 'Õ' },
+  c: { c: 'ç', C: 'Ç', s: 'ş', S: 'Ş' },
+  v: { c: 'č', s: 'š', z: 'ž', r: 'ř', e: 'ě', C: 'Č', S: 'Š', Z: 'Ž', R: 'Ř' },
+}
+
+const SYMBOLS: Record<string, string> = {
+  ss: 'ß', o: 'ø', O: 'Ø', ae: 'æ', AE: 'Æ', aa: 'å', AA: 'Å', l: 'ł', L: 'Ł', i: 'ı',
+}
+
+/**
+ * LaTeX markup to plain Unicode text
+ */
+export function decodeLatex(value: string): string {
+  return value
+    // {\'a}, \'{a}, \'a (and \'{\i})
+    .replace(/\{?\\(['`^"~cv])\s*\{?\\?([a-zA-Z])\}?\}?/g, (match, accent: string, letter: string) =>
+      ACCENTS[accent]?.[letter] ?? match
+    )
+    .replace(/\{?\\(ss|ae|AE|aa|AA|o|O|l|L)\}?(?![a-zA-Z])/g, (match, name: string) => SYMBOLS[name] ?? match)
+    .replace(/\\([&%$#_{}])/g, '$1')
+    .replace(/---/g, '—')
+    .replace(/--/g, '–')
+    .replace(/\\(textit|textbf|emph|textsc|mathrm)\s*/g, '')
+    .replace(/[{}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Plain text to a BibTeX value body (braces are balanced by construction)
+ */
+function encodeLatex(value: string): string {
+  return value.replace(/[\\{}]/g, '').replace(/([&%$#_])/g, '\\$1')
+}
+
+class BibtexReader {
+  pos = 0
+  constructor(readonly text: string) {}
+
+  skipSpace() {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++
+  }
+
+  peek(): string {
+    return this.text[this.pos]
+  }
+
+  // Body of a {...} group, nested braces included
+  readBraced(): string {
+    const start = ++this.pos
+    let depth = 1
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos]
+      if (char === '\\') {
+        this.pos += 2
+        continue
+      }
+      if (char === '{') depth++
+      if (char === '}' && --depth === 0) return this.text.slice(start, this.pos++)
+      this.pos++
+    }
+    throw new Error('Unbalanced braces')
+  }
+
+  // Body of a "..." value; quotes inside braces don't end it
+  readQuoted(): string {
+    const start = ++this.pos
+    let depth = 0
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos]
+      if (char === '\\') {
+        this.pos += 2
+        continue
+      }
+      if (char === '{') depth++
+      if (char === '}') depth--
+      if (char === '"' && depth === 0) return this.text.slice(start, this.pos++)
+      this.pos++
+    }
+    throw new Error('Unterminated string')
+  }
+
+  readName(): string {
+    const match = /^[^\s,={}()"#]+/.exec(this.text.slice(this.pos))
+    if (!match) return ''
+    this.pos += match[0].length
+    return match[0]
+  }
+
+  // A value made of braced, quoted, numeric or macro parts joined by #
+  readValue(macros: Record<string, string>): string {
+    let value = ''
+    while (true) {
+      this.skipSpace()
+      const char = this.peek()
+      if (char === '{') value += this.readBraced()
+      else if (char === '"') value += this.readQuoted()
+      else {
+        const name = this.readName()
+        value += macros[name.toLowerCase()] ?? name
+      }
+      this.skipSpace()
+      if (this.peek() !== '#') return value
+      this.pos++
+    }
+  }
+}
+
+/**
+ * Entries of a .bib file. Malformed entries are skipped and reported.
+ */
+export function parseBibtex(text: string): { entries: ReferenceEntry[]; errors: string[] } {
+  const reader = new BibtexReader(text)
+  const macros: Record<string, string> = { ...MONTH_MACROS }
+  const entries: ReferenceEntry[] = []
+  const errors: string[] = []
+
+  while (true) {
+    const at = text.indexOf('@', reader.pos)
+    if (at === -1) break
+    reader.pos = at + 1
+
+    const type = reader.readName().toLowerCase()
+    reader.skipSpace()
+    const open = reader.peek()
+    if (open !== '{' && open !== '(') continue
+    const close = open === '{' ? '}' : ')'
+    reader.pos++
+
+    if (SKIPPED_ENTRY_TYPES.has(type)) {
+      reader.pos--
+      try {
+        if (open === '{') reader.readBraced()
+      } catch {
+        break
+      }
+      continue
+    }
+
+    try {
+      if (type === 'string') {
+        reader.skipSpace()
+        const name = reader.readName().toLowerCase()
+        reader.skipSpace()
+        reader.pos++ // =
+        macros[name] = reader.readValue(macros)
+        reader.skipSpace()
+        if (reader.peek() === close) reader.pos++
+        continue
+      }
+
+      reader.skipSpace()
+      const key = reader.readName()
+      const fields: Record<string, string> = {}
+
+      while (true) {
+        reader.skipSpace()
+        if (reader.peek() === ',') reader.pos++
+        reader.skipSpace()
+        if (reader.peek() === close) {
+          reader.pos++
+          break
+        }
+        if (reader.pos >= text.length) throw new Error('Unexpected end of file')
+
+        const name = reader.readName().toLowerCase()
+        reader.skipSpace()
+        if (!name || reader.peek() !== '=') throw new Error(`Expected a field at offset ${reader.pos}`)
+        reader.pos++
+        fields[name] = reader.readValue(macros)
+      }
+
+      const entry = toEntry(type, key, fields)
+      if (entry) entries.push(entry)
+      else errors.push(`@${type}{${key}}: sin título`)
+    } catch (error) {
+      errors.push(`@${type} en la posición ${at}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  return { entries, errors }
+}
+
+function toEntry(type: string, key: string, raw: Record<string, string>): ReferenceEntry | null {
+  const fields: Record<string, string> = {}
+  for (const [name, value] of Object.entries(raw)) {
+    // URLs and DOIs are taken verbatim, without LaTeX decoding
+    fields[name] = name === 'url' || name === 'doi' ? value.replace(/[{}]/g, '').trim() : decodeLatex(value)
+  }
+
+  // Page ranges stay in BibTeX form ("1--10"), as RIS imports store them
+  if (fields.pages) fields.pages = fields.pages.replace(/[–—]/g, '--')
+
+  const title = fields.title
+  if (!title) return null
+
+  const year = (fields.year || fields.date || '').match(/\d{4}/)
+
+  return {
+    type,
+    key: key || null,
+    title,
+    authors: (fields.author || '').split(/\s+and\s+/i).map(a => a.trim()).filter(a => a && a !== 'others'),
+    year: year ? parseInt(year[0]) : null,
+    abstract: fields.abstract || null,
+    doi: fields.doi?.replace(/^https?:\/\/(dx\.)?doi\.org\//i, '') || null,
+    tags: (fields.keywords || '').split(/[,;]/).map(t => t.trim()).filter(Boolean),
+    fields: Object.fromEntries(Object.entries(fields).filter(([name]) => !MAPPED_FIELDS.has(name))),
+  }
+}
+
+function field(name: string, value: string | number | null | undefined): string | null {
+  if (value === null || value === undefined || value === '') return null
+  const body = name === 'url' || name === 'doi' ? String(value) : encodeLatex(String(value))
+  return `  ${name} = {${body}}`
+}
+
+/**
+ * One BibTeX entry
+ */
+export function formatBibtexEntry(entry: ReferenceEntry & { key: string }): string {
+  const lines = [
+    // Double braces keep the title's capitalization in every style
+    `  title = {{${encodeLatex(entry.title)}}}`,
+    field('author', entry.authors.join(' and ')),
+    field('year', entry.year),
+    ...Object.entries(entry.fields).map(([name, value]) => field(name, value)),
+    field('doi', entry.doi),
+    field('keywords', entry.tags.join(', ')),
+    field('abstract', entry.abstract),
+  ].filter((line): line is string => line !== null)
+
+  return `@${entry.type}{${entry.key},\n${lines.join(',\n')}\n}`
+}
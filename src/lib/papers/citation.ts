@@ -0,0 +1,41 @@
+/**
+ * Author lists and author-year citations
+ */
+
+import type { Paper } from '../db'
+
+// Surname of one author, written "Surname, Name" or "Name Surname"
+export function surname(author: string): string {
+  const trimmed = author.trim()
+  if (trimmed.includes(',')) return trimmed.split(',')[0].trim()
+  const words = trimmed.split(/\s+/)
+  return words[words.length - 1]
+}
+
+/**
+ * Author list as entered: "A; B", "A and B", "A y B", or "A, B, C"
+ * (a single "Surname, Name" stays one author)
+ */
+export function splitAuthors(authors: string | null): string[] {
+  if (!authors?.trim()) return []
+  if (/;|\band\b|\s&\s|\sy\s/.test(authors)) {
+    return authors.split(/;|\band\b|\s&\s|\sy\s/).map(a => a.trim()).filter(Boolean)
+  }
+  const parts = authors.split(',').map(a => a.trim()).filter(Boolean)
+  // "Surname, Name" (or "Surname, J. R.") is two comma parts with a single given name
+  if (parts.length === 2 && /^(\p{L}[\p{L}'-]*|(\p{Lu}\.\s*)+)$/u.test(parts[1])) return [authors.trim()]
+  return parts
+}
+
+/**
+ * Author-year citation, e.g. "García, 2021", "García y López, 2021", "García et al., 2021"
+ */
+export function paperCitation(paper: Pick<Paper, 'authors' | 'year'>): string {
+  const names = splitAuthors(paper.authors).map(surname)
+  const year = paper.year ? String(paper.year) : 's.f.'
+
+  if (names.length === 0) return `Anónimo, ${year}`
+  if (names.length === 1) return `${names[0]}, ${year}`
+  if (names.length === 2) return `${names[0]} y ${names[1]}, ${year}`
+  return `${names[0]} et al., ${year}`
+}
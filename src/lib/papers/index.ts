@@ -0,0 +1,188 @@
+/**
+ * Research papers - PDF text and metadata extraction, author-year
+ * citations, and indexing into the knowledge base (sourceType 'paper')
+ */
+
+import { readFile } from 'fs/promises'
+import { prisma, type Paper } from '../db'
+import { indexContent } from '../knowledge'
+import { getStorageFilePath, getStorageUrl } from '../storage'
+import { paperCitation } from './citation'
+
+export { splitAuthors, paperCitation } from './citation'
+
+export interface PdfText {
+  pages: string[]
+  // Document info dictionary (Title, Author, CreationDate, ...)
+  info: Record<string, unknown>
+}
+
+export interface PaperMetadata {
+  title: string
+  authors: string | null
+  year: number | null
+  abstract: string | null
+  doi: string | null
+}
+
+// Abstracts are cut at the next section heading, or at this length
+const MAX_ABSTRACT_CHARS = 2500
+
+const DOI_PATTERN = /\b(10\.\d{4,9}\/[^\s"<>]+)/i
+
+/**
+ * Text layer of every page (no OCR: scanned PDFs come back empty)
+ */
+export async function extractPdfText(buffer: Buffer): Promise<PdfText> {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs')
+  const doc = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    useSystemFonts: true,
+    disableFontFace: true,
+    isEvalSupported: false,
+  }).promise
+
+  try {
+    const { info } = await doc.getMetadata()
+    const pages: string[] = []
+
+    for (let i = 1; i <= doc.numPages; i++) {
+      const page = await doc.getPage(i)
+      const content = await page.getTextContent()
+      let text = ''
+      for (const item of content.items) {
+        if (!('str' in item)) continue
+        text += item.str + (item.hasEOL ? '\n' : '')
+      }
+      pages.push(normalizePageText(text))
+      page.cleanup()
+    }
+
+    return { pages, info: (info ?? {}) as Record<string, unknown> }
+  } finally {
+    await doc.destroy()
+  }
+}
+
+function normalizePageText(text: string): string {
+  return text
+    // Words hyphenated across line breaks
+    .replace(/(\p{L})-\n(\p{Ll})/gu, '$1$2')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function infoString(info: Record<string, unknown>, key: string): string | null {
+  const value = info[key]
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+// Publication years found in the text, from 1900 to next year
+function findYear(text: string): number | null {
+  const maxYear = new Date().getFullYear() + 1
+  for (const match of text.matchAll(/\b(19\d{2}|20\d{2})\b/g)) {
+    const year = parseInt(match[1])
+    if (year <= maxYear) return year
+  }
+  return null
+}
+
+function findAbstract(text: string): string | null {
+  const start = text.search(/\b(abstract|resumen|summary)\b[.:]?\s*\n?/i)
+  if (start === -1) return null
+
+  const body = text.slice(start).replace(/^\s*(abstract|resumen|summary)[.:]?\s*/i, '')
+  const end = body.search(/\n\s*(\d\.?\s*)?(introduction|introducción|keywords|key words|palabras clave|background|antecedentes)\b/i)
+  const abstract = (end === -1 ? body : body.slice(0, end)).replace(/\s+/g, ' ').trim()
+  return abstract ? abstract.slice(0, MAX_ABSTRACT_CHARS) : null
+}
+
+// First line of the first page that looks like a title
+function findTitle(firstPage: string): string | null {
+  const line = firstPage
+    .split('\n')
+    .map(l => l.trim())
+    .find(l => l.length >= 15 && l.length <= 250 && !DOI_PATTERN.test(l) && !/^(vol|doi|http|www\.|journal|received|©)/i.test(l))
+  return line || null
+}
+
+/**
+ * Best-effort metadata: the PDF info dictionary first, then the first page.
+ * Everything here can be corrected by hand afterwards.
+ */
+export function guessPaperMetadata(pdf: PdfText, fileName: string): PaperMetadata {
+  const firstPage = pdf.pages[0] || ''
+  const firstPages = pdf.pages.slice(0, 2).join('\n')
+
+  const creationDate = infoString(pdf.info, 'CreationDate')
+
+  return {
+    title:
+      infoString(pdf.info, 'Title') ||
+      findTitle(firstPage) ||
+      fileName.replace(/\.pdf$/i, '').replace(/[_-]+/g, ' '),
+    authors: infoString(pdf.info, 'Author'),
+    year: findYear(firstPage) ?? (creationDate ? findYear(creationDate) : null),
+    abstract: findAbstract(firstPages),
+    doi: firstPages.match(DOI_PATTERN)?.[1].replace(/[.,;)\]]+$/, '') ?? null,
+  }
+}
+
+/**
+ * API shape of a paper: no full text, plus its citation and PDF URL
+ */
+export function serializePaper({ fullText, ...paper }: Paper) {
+  return {
+    ...paper,
+    hasText: !!fullText,
+    citation: paperCitation(paper),
+    fileUrl: paper.filePath ? getStorageUrl(paper.filePath) : null,
+  }
+}
+
+/**
+ * Chunk and embed a paper's text (unchanged papers are skipped)
+ */
+export async function indexPaper(paperId: string): Promise<{ chunkCount: number }> {
+  const paper = await prisma.paper.findUniqueOrThrow({ where: { id: paperId } })
+
+  let fullText = paper.fullText
+  if (!fullText) {
+    if (!paper.filePath) throw new Error(`Paper ${paperId} has no PDF attached`)
+    const pdf = await extractPdfText(await readFile(getStorageFilePath(paper.filePath)))
+    fullText = pdf.pages.join('\n\n')
+  }
+  if (!fullText.trim()) {
+    throw new Error(`Paper ${paperId} has no text layer (scanned PDF?)`)
+  }
+
+  // The citation leads the title so answers can attribute the source
+  const title = `${paperCitation(paper)} - ${paper.title}`
+  const tags = ['paper', ...paper.tags]
+
+  const { action, chunkIds } = await indexContent(fullText, {
+    sourceType: 'paper',
+    sourceId: paper.id,
+    title,
+    tags,
+  })
+
+  // Same text: only the metadata may have been edited
+  let chunkCount = chunkIds.length
+  if (action === 'unchanged') {
+    const updated = await prisma.knowledgeChunk.updateMany({
+      where: { sourceType: 'paper', sourceId: paper.id },
+      data: { title, tags },
+    })
+    chunkCount = updated.count
+  }
+
+  await prisma.paper.update({
+    where: { id: paper.id },
+    data: { fullText, isIndexed: true, chunkCount },
+  })
+
+  return { chunkCount }
+}
@@ -0,0 +1,258 @@
+/**
+ * Reference manager interchange - BibTeX/RIS import into Paper rows
+ * (duplicates merged by DOI or title) and BibTeX export
+ */
+
+import { prisma, Prisma, type Paper } from '../db'
+import { enqueueJob } from '../jobs'
+import { parseBibtex, formatBibtexEntry } from './bibtex'
+import { parseRis } from './ris'
+import { splitAuthors, surname } from './citation'
+
+export interface ReferenceEntry {
+  // BibTeX entry type: article, inproceedings, book, ...
+  type: string
+  key: string | null
+  title: string
+  authors: string[]
+  year: number | null
+  abstract: string | null
+  doi: string | null
+  tags: string[]
+  // Every other field as plain text, by BibTeX field name
+  fields: Record<string, string>
+}
+
+export type ReferenceFormat = 'bibtex' | 'ris'
+
+export interface ImportReport {
+  created: number
+  merged: number
+  unchanged: number
+  // Entries that could not be read
+  errors: string[]
+}
+
+export function detectReferenceFormat(text: string, fileName = ''): ReferenceFormat | null {
+  if (/\.bib$/i.test(fileName)) return 'bibtex'
+  if (/\.ris$/i.test(fileName)) return 'ris'
+  if (/^TY  - /m.test(text)) return 'ris'
+  if (/@\w+\s*[{(]/.test(text)) return 'bibtex'
+  return null
+}
+
+export function parseReferences(text: string, format: ReferenceFormat) {
+  return format === 'ris' ? parseRis(text) : parseBibtex(text)
+}
+
+function normalizeDoi(doi: string): string {
+  return doi.trim().toLowerCase()
+}
+
+/**
+ * Title as compared for duplicates: case, accents and punctuation ignored
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+}
+
+type StoredReference = Pick<
+  Paper,
+  'id' | 'title' | 'authors' | 'year' | 'abstract' | 'doi' | 'tags' | 'bibKey' | 'bibType' | 'bibFields' | 'isIndexed'
+>
+
+const REFERENCE_SELECT = {
+  id: true,
+  title: true,
+  authors: true,
+  year: true,
+  abstract: true,
+  doi: true,
+  tags: true,
+  bibKey: true,
+  bibType: true,
+  bibFields: true,
+  isIndexed: true,
+} satisfies Prisma.PaperSelect
+
+/**
+ * Paper already in the library with the same DOI or, when either has no
+ * DOI, the same normalized title (papers with different DOIs are distinct
+ * even if their titles match, e.g. "Editorial")
+ */
+export async function findDuplicatePaper(reference: { doi: string | null; title: string }): Promise<Paper | null> {
+  if (reference.doi) {
+    const match = await prisma.paper.findFirst({
+      where: { doi: { equals: reference.doi.trim(), mode: 'insensitive' } },
+    })
+    if (match) return match
+  }
+
+  const title = normalizeTitle(reference.title)
+  const papers = await prisma.paper.findMany({ select: { id: true, title: true, doi: true } })
+  const match = papers.find(p => (!reference.doi || !p.doi) && normalizeTitle(p.title) === title)
+  return match ? prisma.paper.findUnique({ where: { id: match.id } }) : null
+}
+
+/**
+ * Changes that merge an entry into an existing paper. The reference
+ * manager is authoritative for bibliographic fields; the abstract and
+ * tags already in the library are kept.
+ */
+function mergeEntry(paper: StoredReference, entry: ReferenceEntry, tags: string[]): Prisma.PaperUpdateInput {
+  const data: Prisma.PaperUpdateInput = {}
+  const authors = entry.authors.length > 0 ? entry.authors.join('; ') : paper.authors
+  const fields = { ...(paper.bibFields as Record<string, string>), ...entry.fields }
+
+  if (entry.title !== paper.title) data.title = entry.title
+  if (authors !== paper.authors) data.authors = authors
+  if (entry.year && entry.year !== paper.year) data.year = entry.year
+  if (!paper.abstract && entry.abstract) data.abstract = entry.abstract
+  if (entry.doi && entry.doi !== paper.doi) data.doi = entry.doi
+  if (entry.key && entry.key !== paper.bibKey) data.bibKey = entry.key
+  if (entry.type !== paper.bibType) data.bibType = entry.type
+  if (JSON.stringify(fields) !== JSON.stringify(paper.bibFields)) data.bibFields = fields
+
+  const mergedTags = [...new Set([...paper.tags, ...tags])]
+  if (mergedTags.length !== paper.tags.length) data.tags = mergedTags
+
+  return data
+}
+
+/**
+ * Create or merge Paper rows for the given entries. Entries match an
+ * existing paper (or an earlier entry) by DOI, else by normalized title
+ * when the entry or the paper has no DOI.
+ * Indexed papers whose citation changed are queued for re-indexing.
+ */
+export async function importReferences(entries: ReferenceEntry[], extraTags: string[] = []): Promise<ImportReport> {
+  const report: ImportReport = { created: 0, merged: 0, unchanged: 0, errors: [] }
+
+  const papers = await prisma.paper.findMany({ select: REFERENCE_SELECT })
+  const byDoi = new Map<string, StoredReference>()
+  // Normalized titles by paper id; several papers may share a title
+  const titles = new Map<string, { paper: StoredReference; title: string }>()
+  const remember = (paper: StoredReference) => {
+    if (paper.doi) byDoi.set(normalizeDoi(paper.doi), paper)
+    titles.set(paper.id, { paper, title: normalizeTitle(paper.title) })
+  }
+  papers.forEach(remember)
+
+  const findByTitle = (entry: ReferenceEntry) => {
+    const title = normalizeTitle(entry.title)
+    for (const known of titles.values()) {
+      if (known.title === title && (!entry.doi || !known.paper.doi)) return known.paper
+    }
+    return undefined
+  }
+
+  for (const entry of entries) {
+    const tags = [...new Set([...entry.tags, ...extraTags])]
+    const existing = (entry.doi && byDoi.get(normalizeDoi(entry.doi))) || findByTitle(entry)
+
+    try {
+      if (!existing) {
+        const paper = await prisma.paper.create({
+          data: {
+            title: entry.title,
+            authors: entry.authors.length > 0 ? entry.authors.join('; ') : null,
+            year: entry.year,
+            abstract: entry.abstract,
+            doi: entry.doi,
+            tags,
+            bibKey: entry.key,
+            bibType: entry.type,
+            bibFields: entry.fields,
+          },
+          select: REFERENCE_SELECT,
+        })
+        remember(paper)
+        report.created++
+        continue
+      }
+
+      const data = mergeEntry(existing, entry, tags)
+      if (Object.keys(data).length === 0) {
+        report.unchanged++
+        continue
+      }
+
+      const paper = await prisma.paper.update({
+        where: { id: existing.id },
+        data,
+        select: REFERENCE_SELECT,
+      })
+      remember(paper)
+      report.merged++
+
+      // Chunk titles carry the citation and title
+      if (paper.isIndexed && (data.title || data.authors !== undefined || data.year)) {
+        await enqueueJob('INDEX_PAPER', { inputData: { paperId: paper.id } })
+      }
+    } catch (error) {
+      console.error(`Failed to import "${entry.title}":`, error)
+      report.errors.push(`${entry.title}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  return report
+}
+
+// ASCII letters and digits only, for citation keys
+function keyPart(text: string): string {
+  return text.normalize('NFD').replace(/[^A-Za-z0-9]/g, '')
+}
+
+const TITLE_STOPWORDS = new Set(['a', 'an', 'the', 'on', 'of', 'el', 'la', 'los', 'las', 'un', 'una', 'de', 'del'])
+
+// e.g. garcia2021learning
+function generateKey(paper: Pick<Paper, 'authors' | 'year' | 'title'>): string {
+  const [firstAuthor] = splitAuthors(paper.authors)
+  const word = paper.title
+    .split(/\s+/)
+    .map(keyPart)
+    .find(w => w.length > 0 && !TITLE_STOPWORDS.has(w.toLowerCase())) || ''
+
+  return `${keyPart(firstAuthor ? surname(firstAuthor) : 'anon')}${paper.year ?? 'nd'}${word}`.toLowerCase() || 'paper'
+}
+
+export function paperToEntry(paper: Paper): ReferenceEntry {
+  const fields = (paper.bibFields ?? {}) as Record<string, string>
+  return {
+    type: paper.bibType || (fields.journal ? 'article' : 'misc'),
+    key: paper.bibKey,
+    title: paper.title,
+    authors: splitAuthors(paper.authors),
+    year: paper.year,
+    abstract: paper.abstract,
+    doi: paper.doi,
+    tags: paper.tags,
+    fields,
+  }
+}
+
+/**
+ * A .bib file for the given papers. Stored citation keys are kept;
+ * missing or clashing ones are generated and suffixed (a, b, ...).
+ */
+export function formatBibtex(papers: Paper[]): string {
+  const used = new Set<string>()
+
+  return papers
+    .map(paper => {
+      const entry = paperToEntry(paper)
+      const base = entry.key || generateKey(paper)
+      let key = base
+      for (let i = 0; used.has(key); i++) {
+        key = `${base}${String.fromCharCode(97 + (i % 26))}${i >= 26 ? Math.floor(i / 26) : ''}`
+      }
+      used.add(key)
+      return formatBibtexEntry({ ...entry, key })
+    })
+    .join('\n\n') + '\n'
+}
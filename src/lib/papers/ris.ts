@@ -0,0 +1,112 @@
+/**
+ * RIS parsing ("TY  - JOUR" ... "ER  -" records, as exported by Zotero,
+ * EndNote and most publishers)
+ */
+
+import type { ReferenceEntry } from './references'
+
+// RIS reference types to BibTeX entry types
+const RIS_TYPES: Record<string, string> = {
+  JOUR: 'article',
+  JFULL: 'article',
+  MGZN: 'article',
+  NEWS: 'article',
+  CONF: 'inproceedings',
+  CPAPER: 'inproceedings',
+  BOOK: 'book',
+  EBOOK: 'book',
+  CHAP: 'incollection',
+  ECHAP: 'incollection',
+  THES: 'phdthesis',
+  RPRT: 'techreport',
+  UNPB: 'unpublished',
+}
+
+// Single-valued RIS tags kept as BibTeX fields
+const FIELD_TAGS: Record<string, string> = {
+  VL: 'volume',
+  IS: 'number',
+  PB: 'publisher',
+  CY: 'address',
+  UR: 'url',
+  SN: 'issn',
+  LA: 'language',
+}
+
+const RIS_LINE = /^([A-Z][A-Z0-9])  -(?: (.*))?$/
+
+/**
+ * Records of a .ris file. Records without a title are skipped and reported.
+ */
+export function parseRis(text: string): { entries: ReferenceEntry[]; errors: string[] } {
+  const entries: ReferenceEntry[] = []
+  const errors: string[] = []
+  let record: [string, string][] | null = null
+
+  for (const rawLine of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const match = RIS_LINE.exec(rawLine.trimEnd())
+    if (!match) {
+      // Continuation of a wrapped value
+      const last = record?.[record.length - 1]
+      if (last && rawLine.trim()) last[1] += ` ${rawLine.trim()}`
+      continue
+    }
+
+    const [, tag, value = ''] = match
+    if (tag === 'TY') {
+      record = [[tag, value.trim()]]
+    } else if (tag === 'ER') {
+      if (record) {
+        const entry = toEntry(record)
+        if (entry) entries.push(entry)
+        else errors.push(`Registro ${entries.length + errors.length + 1}: sin título`)
+      }
+      record = null
+    } else if (record) {
+      record.push([tag, value.trim()])
+    }
+  }
+
+  if (record) errors.push('Último registro sin "ER  -" de cierre')
+
+  return { entries, errors }
+}
+
+function toEntry(record: [string, string][]): ReferenceEntry | null {
+  const values = (...tags: string[]) => record.filter(([tag]) => tags.includes(tag)).map(([, value]) => value).filter(Boolean)
+  const first = (...tags: string[]) => values(...tags)[0] || null
+
+  const title = first('TI', 'T1', 'CT')
+  if (!title) return null
+
+  const risType = first('TY') || 'GEN'
+  const type = RIS_TYPES[risType] || 'misc'
+
+  const fields: Record<string, string> = {}
+  // T2 is the journal for articles and the book or proceedings otherwise
+  const venue = first('JO', 'JF', 'JA', 'T2', 'BT')
+  if (venue) fields[type === 'article' ? 'journal' : 'booktitle'] = venue
+  for (const [tag, name] of Object.entries(FIELD_TAGS)) {
+    const value = first(tag)
+    if (value) fields[name] = value
+  }
+  const startPage = first('SP')
+  const endPage = first('EP')
+  if (startPage) fields.pages = endPage ? `${startPage}--${endPage}` : startPage
+  const editors = values('A2', 'ED')
+  if (editors.length > 0 && type !== 'article') fields.editor = editors.join(' and ')
+
+  const year = (first('PY', 'Y1', 'DA') || '').match(/\d{4}/)
+
+  return {
+    type,
+    key: first('ID'),
+    title,
+    authors: values('AU', 'A1'),
+    year: year ? parseInt(year[0]) : null,
+    abstract: first('AB', 'N2'),
+    doi: first('DO')?.replace(/^https?:\/\/(dx\.)?doi\.org\//i, '') || null,
+    tags: values('KW'),
+    fields,
+  }
+}
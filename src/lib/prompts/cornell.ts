@@ -0,0 +1,394 @@
+/**
+ * Cornell notes prompts
+ */
+
+import { definePrompt } from './registry'
+
+export interface CornellLessonVars {
+  lessonTitle: string
+  subjectName: string
+  slides: string
+  transcript: string
+}
+
+export const cornellFullPrompt = definePrompt<CornellLessonVars>({
+  name: 'cornell-full',
+  version: 1,
+  description: 'Complete Cornell document from slides and transcript in a single call',
+  render: v => `Eres un experto en la metodología Cornell Notes. Crea un documento de estudio COMPLETO, AUTÓNOMO y MUY DETALLADO para esta lección universitaria.
+
+LECCIÓN: ${v.lessonTitle}
+ASIGNATURA: ${v.subjectName}
+
+CONTENIDO DE LAS DIAPOSITIVAS:
+${v.slides.slice(0, 8000)}
+
+TRANSCRIPCIÓN DEL PROFESOR:
+${v.transcript.slice(0, 20000)}
+
+---
+
+Genera un documento de CORNELL NOTES completo siguiendo EXACTAMENTE esta estructura:
+
+# CORNELL NOTES: ${v.lessonTitle}
+
+## 📋 INFORMACIÓN DE LA LECCIÓN
+- **Asignatura:** ${v.subjectName}
+- **Tema:** ${v.lessonTitle}
+- **Duración aproximada:** [estima basándote en el contenido]
+- **Nivel de dificultad:** [Básico/Medio/Alto]
+
+---
+
+## 📝 COLUMNA DE PREGUNTAS CLAVE
+
+[IMPORTANTE: Solo preguntas SIN respuestas - son para autoevaluación del estudiante]
+
+1. ¿...?
+2. ¿...?
+3. ¿...?
+[Incluye 12-15 preguntas clave que cubran todo el contenido]
+
+---
+
+## 📖 NOTAS PRINCIPALES
+
+### 1. [Primer Tema Principal]
+
+[Contenido detallado con:]
+- **Puntos importantes en negrita**
+- *Citas del profesor en cursiva: "..."*
+- Listas con viñetas
+- Tablas cuando sea apropiado:
+
+| Columna 1 | Columna 2 |
+|-----------|-----------|
+| dato | dato |
+
+#### Subtema A
+[Detalles]
+
+#### Subtema B
+[Detalles]
+
+---
+
+### 2. [Segundo Tema Principal]
+
+[Misma estructura: explicación detallada, puntos clave, citas del profesor, tablas]
+
+---
+
+### 3. [Tercer Tema Principal]
+
+[Continúa con todos los temas de la lección]
+
+---
+
+## 🔑 CONCEPTOS Y DEFINICIONES CLAVE
+
+| Término | Definición |
+|---------|------------|
+| **Concepto 1** | Definición clara y concisa |
+| **Concepto 2** | Definición clara y concisa |
+[Incluye 10-15 términos importantes]
+
+---
+
+## 📊 DIAGRAMAS (TEXTUALES)
+
+\`\`\`
+[Diagrama 1: Representa visualmente un proceso o concepto clave]
+Ejemplo de diagrama de flujo:
+    Paso 1 → Paso 2 → Paso 3
+       ↓         ↓         ↓
+    Resultado  Resultado  Resultado
+\`\`\`
+
+\`\`\`
+[Diagrama 2: Otro proceso o estructura importante]
+\`\`\`
+
+---
+
+## ⚡ RESUMEN
+
+[Escribe 4-5 párrafos que sinteticen TODA la lección de forma completa. Cada párrafo debe cubrir un aspecto diferente del tema. Usa **negrita** para términos clave. Este resumen debe permitir entender la lección completa sin necesidad de ver las notas principales.]
+
+---
+
+## ✅ AUTOEVALUACIÓN
+
+**P1:** [Pregunta de aplicación/comprensión]
+**R:** [Respuesta detallada]
+
+---
+
+**P2:** [Pregunta sobre un caso práctico]
+**R:** [Respuesta detallada]
+
+---
+
+**P3:** [Pregunta que relaciona conceptos]
+**R:** [Respuesta detallada]
+
+---
+
+**P4:** [Pregunta de análisis]
+**R:** [Respuesta detallada]
+
+---
+
+**P5:** [Pregunta integradora]
+**R:** [Respuesta detallada]
+
+---
+
+**P6:** [Pregunta adicional]
+**R:** [Respuesta detallada]
+
+---
+
+## 🔗 CONEXIONES
+
+### Con temas anteriores:
+- [Concepto previo 1]: Cómo se relaciona
+- [Concepto previo 2]: Cómo se relaciona
+
+### Con temas futuros (mencionados por el profesor):
+- [Tema futuro 1]: Por qué es relevante
+- [Tema futuro 2]: Por qué es relevante
+
+### Aplicaciones prácticas:
+- [Aplicación 1]: Cómo se usa en la vida real/profesión
+- [Aplicación 2]: Cómo se usa en la vida real/profesión
+
+---
+
+## 📚 NOTAS ADICIONALES DEL PROFESOR
+
+> *"[Cita textual importante del profesor]"*
+
+> *"[Otra cita o consejo del profesor]"*
+
+**Consejos de estudio mencionados:**
+- [Consejo 1]
+- [Consejo 2]
+
+---
+
+*Documento generado siguiendo la metodología Cornell Notes para estudio autónomo.*
+
+IMPORTANTE:
+- Escribe en español
+- Sé MUY detallado y completo (mínimo 15000 caracteres)
+- Incluye citas textuales del profesor cuando las encuentres en la transcripción
+- Las PREGUNTAS CLAVE no deben tener respuestas (son para autoevaluación)
+- La AUTOEVALUACIÓN sí debe tener preguntas CON respuestas
+- Usa tablas, listas, negrita y formato markdown de forma abundante`,
+})
+
+export const cornellCompactPrompt = definePrompt<CornellLessonVars>({
+  name: 'cornell-compact',
+  version: 1,
+  description: 'Shorter Cornell document for lessons where the full prompt failed',
+  render: v => `Genera CORNELL NOTES completo en español para esta lección universitaria:
+
+ASIGNATURA: ${v.subjectName}
+TEMA: ${v.lessonTitle}
+
+DIAPOSITIVAS:
+${v.slides}
+
+TRANSCRIPCIÓN:
+${v.transcript}
+
+FORMATO REQUERIDO:
+# CORNELL NOTES: ${v.lessonTitle}
+
+## 📋 INFORMACIÓN DE LA LECCIÓN
+
+## 📝 COLUMNA DE PREGUNTAS CLAVE
+(12-15 preguntas SIN respuestas)
+
+## 📖 NOTAS PRINCIPALES
+(Secciones numeradas con subtemas)
+
+## 🔑 CONCEPTOS Y DEFINICIONES CLAVE
+| Término | Definición |
+|---------|------------|
+
+## ⚡ RESUMEN
+(4-5 párrafos)
+
+## ✅ AUTOEVALUACIÓN
+(P1-P6 con respuestas)
+
+## 🔗 CONEXIONES
+
+Sé detallado y completo.`,
+})
+
+export const cornellSummaryPrompt = definePrompt<{
+  lessonTitle: string
+  transcript: string
+  keyPoints: string[]
+}>({
+  name: 'cornell-summary',
+  version: 1,
+  description: 'Cornell-style lesson summary from transcript and key points',
+  render: v => `Eres un experto en técnicas de estudio Cornell Notes. Crea un resumen extenso tipo Cornell para esta lección.
+
+LECCIÓN: ${v.lessonTitle}
+
+TRANSCRIPCIÓN DEL PROFESOR (fragmentos):
+${v.transcript.slice(0, 8000)}
+
+PUNTOS CLAVE IDENTIFICADOS:
+${v.keyPoints.map(k => `• ${k}`).join('\n')}
+
+---
+
+Genera un resumen estilo CORNELL NOTES con estas secciones:
+
+## 📚 RESUMEN DE LA LECCIÓN
+[2-3 párrafos explicando el tema principal de forma clara y accesible]
+
+## 🎯 CONCEPTOS CLAVE
+[Lista de los 8-10 conceptos más importantes con explicaciones simples]
+
+## 📝 PREGUNTAS DE REPASO
+[5-7 preguntas que ayuden a recordar los conceptos]
+
+## 💡 CONEXIONES Y APLICACIONES
+[Cómo se relaciona con otros temas y aplicaciones prácticas]
+
+## ⚡ RESUMEN RÁPIDO
+[3-5 bullet points con lo más importante para recordar]
+
+Escribe en español, de forma clara y fácil de entender.`,
+})
+
+// Long lessons are generated in several calls, each a part of the same template
+export type CornellMultipartVars = { lessonTitle: string; subjectName: string } & (
+  | { part: 'notes'; slides: string; transcript: string }
+  | { part: 'continue'; partNumber: number; transcript: string }
+  | { part: 'review'; topics: string; transcript: string }
+  | { part: 'selfEval'; topics: string }
+)
+
+const lessonInfo = (v: { lessonTitle: string; subjectName: string }) =>
+  `LECCIÓN: ${v.lessonTitle}\nASIGNATURA: ${v.subjectName}`
+
+export const cornellMultipartPrompt = definePrompt<CornellMultipartVars>({
+  name: 'cornell-multipart',
+  version: 1,
+  description: 'Cornell document built from notes, continuation, review and self-evaluation parts',
+  render: v => {
+    switch (v.part) {
+      case 'notes':
+        return `Eres un experto en metodología Cornell Notes. Analiza este contenido de clase universitaria.
+
+${lessonInfo(v)}
+
+DIAPOSITIVAS:
+${v.slides}
+
+TRANSCRIPCIÓN (Parte 1):
+${v.transcript}
+
+---
+
+Genera las NOTAS PRINCIPALES detalladas (secciones con títulos, explicaciones completas, citas del profesor).
+Estructura cada tema con:
+- Título del tema
+- Explicación detallada
+- Puntos clave en negrita
+- Citas textuales del profesor en cursiva
+- Tablas cuando sea apropiado
+
+Escribe en español. Sé MUY detallado (mínimo 5000 caracteres).`
+      case 'continue':
+        return `Continúa analizando esta clase universitaria.
+
+${lessonInfo(v)}
+
+TRANSCRIPCIÓN (Parte ${v.partNumber}):
+${v.transcript}
+
+---
+
+Genera NOTAS ADICIONALES sobre los temas nuevos que aparecen en esta parte.
+Misma estructura: títulos, explicaciones detalladas, puntos clave, citas del profesor.
+NO repitas temas de la parte anterior.
+
+Escribe en español. Sé detallado.`
+      case 'review':
+        return `Basándote en este contenido de clase:
+
+${lessonInfo(v)}
+
+RESUMEN DE TEMAS CUBIERTOS:
+${v.topics.slice(0, 4000)}
+
+TRANSCRIPCIÓN:
+${v.transcript.slice(0, 6000)}
+
+---
+
+Genera:
+
+## PREGUNTAS CLAVE (12-15 preguntas de autoevaluación SIN respuestas)
+1. ¿...?
+[continúa]
+
+## CONCEPTOS Y DEFINICIONES CLAVE
+| Término | Definición |
+|---------|------------|
+[10-15 términos importantes]
+
+## RESUMEN (4-5 párrafos completos que sinteticen TODA la lección)
+[Usa **negrita** para términos clave]
+
+Escribe en español. Sé completo.`
+      case 'selfEval':
+        return `Para esta lección universitaria:
+
+${lessonInfo(v)}
+
+TEMAS PRINCIPALES:
+${v.topics.slice(0, 3000)}
+
+---
+
+Genera:
+
+## AUTOEVALUACIÓN (6 preguntas CON respuestas detalladas)
+
+**P1:** [Pregunta de aplicación práctica]
+**R:** [Respuesta completa]
+
+---
+
+**P2:** [Pregunta sobre un caso real]
+**R:** [Respuesta completa]
+
+---
+
+[Continúa hasta P6]
+
+## CONEXIONES
+
+### Con temas anteriores:
+- [Concepto]: cómo se relaciona
+
+### Aplicaciones prácticas:
+- [Aplicación real en la profesión]
+
+## NOTAS ADICIONALES DEL PROFESOR
+> *"[Cita importante]"*
+
+Escribe en español.`
+    }
+  },
+})
@@ -0,0 +1,13 @@
+/**
+ * Prompt templates
+ * All generation prompts live here, named and versioned (see ./registry)
+ */
+
+export * from './registry'
+export * from './cornell'
+export * from './podcast'
+export * from './quiz'
+export * from './summary'
+export * from './study'
+export * from './tutor'
+export * from './knowledge'
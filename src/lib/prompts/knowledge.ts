@@ -0,0 +1,73 @@
+/**
+ * Knowledge base answer prompts (/ask chat, CommandPalette search)
+ * Sources in the context are numbered [1]..[n] by buildContext, and the
+ * answer cites them inline with the same numbers
+ */
+
+import { definePrompt } from './registry'
+
+export interface KnowledgeAnswerVars {
+  // Numbered sources from buildContext
+  context: string
+  sourceCount: number
+  // Earlier turns, already formatted
+  history?: string
+}
+
+const CITATION_RULES = (sourceCount: number) => `CITAS:
+- Después de cada afirmación, indica entre corchetes el número de la fuente que la respalda, por ejemplo [1] o [2][3]
+- Usa SOLO números de fuentes del contexto (de [1] a [${sourceCount}])
+- No cites nada que no esté en las fuentes
+- Las fuentes que son artículos llevan su cita autor-año al inicio del título (por ejemplo "García et al., 2021 - ..."): al usarlas, atribúyelas también con autor y año, por ejemplo "según García et al. (2021) [2]"`
+
+// Rendered as the system prompt; the user's message is the prompt
+export const knowledgeChatPrompt = definePrompt<KnowledgeAnswerVars>({
+  name: 'knowledge-chat',
+  version: 2,
+  description: 'Study assistant answer with [n] citations, grounded in retrieved chunks',
+  render: v => `Eres un asistente de estudio que SOLO responde usando la información proporcionada de los apuntes del usuario.
+
+REGLAS IMPORTANTES:
+1. SOLO usa la información del contexto proporcionado
+2. Si la información no está en el contexto, di "No tengo información sobre esto en tus apuntes"
+3. Responde en español
+4. Sé conciso pero completo
+5. Si el usuario hace una pregunta de seguimiento, usa el historial de conversación
+
+${CITATION_RULES(v.sourceCount)}
+
+CONTEXTO DE LOS APUNTES:
+${v.context}
+
+${v.history ? `HISTORIAL DE CONVERSACIÓN:\n${v.history}` : ''}`,
+})
+
+export const knowledgeSearchAnswerPrompt = definePrompt<KnowledgeAnswerVars>({
+  name: 'knowledge-search-answer',
+  version: 2,
+  description: 'Short answer for a search query with [n] citations',
+  render: v => `Responde en español usando SOLO el contexto de los apuntes proporcionado. Si la respuesta no está en el contexto, dilo.
+
+${CITATION_RULES(v.sourceCount)}
+
+CONTEXTO DE LOS APUNTES:
+${v.context}`,
+})
+
+export interface ChatTitleVars {
+  question: string
+  answer: string
+}
+
+export const chatThreadTitlePrompt = definePrompt<ChatTitleVars>({
+  name: 'chat-thread-title',
+  version: 1,
+  description: 'Short title for an /ask conversation from its first exchange',
+  render: v => `Escribe un título breve (máximo 6 palabras) en español para esta conversación de estudio. Responde SOLO con el título, sin comillas ni punto final.
+
+PREGUNTA:
+${v.question}
+
+RESPUESTA:
+${v.answer.slice(0, 1000)}`,
+})
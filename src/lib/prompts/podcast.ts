@@ -0,0 +1,58 @@
+/**
+ * Podcast script prompt
+ */
+
+import { definePrompt } from './registry'
+
+export const podcastScriptPrompt = definePrompt<{ cornellContent: string }>({
+  name: 'podcast-script',
+  version: 1,
+  description: 'Spoken podcast script from a lesson\'s Cornell notes',
+  render: v => `Eres un creador de podcasts educativos al estilo Huberman Lab o podcasts de divulgación científica en español.
+
+Tu tarea: Convertir estos apuntes Cornell en un GUIÓN DE PODCAST que permita aprender TODO el contenido solo escuchando.
+
+REGLAS DEL GUIÓN:
+1. **Tono conversacional** - Como si explicaras a un amigo inteligente pero que no conoce el tema
+2. **Ejemplos reales** - Cada concepto importante necesita un ejemplo práctico ("Imagina que...", "Es como cuando...")
+3. **Sin elementos visuales** - NO referencias a "como ves en la imagen" o "en esta tabla"
+4. **Transiciones naturales** - "Ahora bien...", "Esto nos lleva a...", "¿Y por qué importa esto?"
+5. **Pausas para pensar** - Incluir [PAUSA] donde el oyente debería reflexionar
+6. **Duración**: 15-20 minutos de audio (aprox 3000-4000 palabras)
+
+ESTRUCTURA:
+
+[INTRO - 1 min]
+Gancho inicial + "En este episodio vas a aprender..." + Por qué esto es útil en la vida real
+
+[CONTEXTO - 2 min]
+Situar el tema, conectar con conocimiento previo, establecer importancia
+
+[CONTENIDO PRINCIPAL - 12-15 min]
+- Explicar cada concepto con ejemplos del mundo real
+- Usar analogías memorables
+- Conectar ideas entre sí
+- Incluir datos interesantes o curiosidades
+- Aplicación práctica cuando sea posible
+
+[CASOS PRÁCTICOS - 3 min]
+"Imagina que tienes un cliente que..." o "Si alguien te pregunta..."
+Escenarios reales donde aplicar lo aprendido
+
+[CIERRE - 2 min]
+Resumen de los 3-5 puntos clave
+Una pregunta para reflexionar
+"En el próximo episodio..."
+
+FORMATO DEL OUTPUT:
+Escribe el guión completo listo para leer. Usa:
+- [PAUSA] para pausas dramáticas
+- *énfasis* para palabras que necesitan énfasis al hablar
+- Párrafos cortos (2-3 oraciones max)
+
+---
+
+APUNTES CORNELL A CONVERTIR:
+
+${v.cornellContent.slice(0, 25000)}`,
+})
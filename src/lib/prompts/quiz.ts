@@ -0,0 +1,41 @@
+/**
+ * Quiz generation prompt
+ */
+
+import { definePrompt } from './registry'
+
+export interface QuizVars {
+  content: string
+  questionCount: number
+  // Subject area the examiner specializes in, e.g. "nutrición"
+  field?: string
+}
+
+export const quizPrompt = definePrompt<QuizVars>({
+  name: 'quiz',
+  version: 1,
+  description: 'Multiple-choice exam questions (JSON array) from lesson content',
+  render: v => `Eres un profesor universitario de ${v.field || 'nutrición'}. Genera ${v.questionCount} preguntas de examen tipo test basadas en este contenido.
+
+FORMATO (JSON array):
+[
+  {
+    "question": "¿Pregunta aquí?",
+    "options": ["A) Opción 1", "B) Opción 2", "C) Opción 3", "D) Opción 4"],
+    "correct": "A) Opción 1",
+    "explanation": "Breve explicación de por qué es correcta"
+  }
+]
+
+REGLAS:
+- Solo 1 respuesta correcta
+- 4 opciones por pregunta
+- Preguntas claras y específicas
+- Opciones plausibles (no obvias)
+- Basadas SOLO en el contenido dado
+
+CONTENIDO:
+${v.content.slice(0, 8000)}
+
+Responde SOLO con el JSON array, sin texto adicional.`,
+})
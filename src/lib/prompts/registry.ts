@@ -0,0 +1,87 @@
+/**
+ * Prompt template registry
+ * Templates are named and versioned; generated content stores `name@version`
+ * so content made by an outdated prompt can be found and regenerated.
+ */
+
+export interface PromptTemplate<V> {
+  name: string
+  // Bump when the wording changes in a way that should trigger regeneration
+  version: number
+  description: string
+  system?: string
+  render: (vars: V) => string
+}
+
+export interface RenderedPrompt {
+  prompt: string
+  system?: string
+  promptVersion: string
+}
+
+export interface PromptTemplateInfo {
+  name: string
+  version: number
+  description: string
+}
+
+const registry = new Map<string, PromptTemplateInfo>()
+
+/**
+ * Declare a template and add it to the registry
+ */
+export function definePrompt<V>(template: PromptTemplate<V>): PromptTemplate<V> {
+  if (registry.has(template.name)) {
+    throw new Error(`Duplicate prompt template: ${template.name}`)
+  }
+  registry.set(template.name, {
+    name: template.name,
+    version: template.version,
+    description: template.description,
+  })
+  return template
+}
+
+/**
+ * Version tag stored alongside generated content, e.g. "cornell-full@2"
+ */
+export function templateVersion(template: { name: string; version: number }): string {
+  return `${template.name}@${template.version}`
+}
+
+export function renderPrompt<V>(template: PromptTemplate<V>, vars: V): RenderedPrompt {
+  return {
+    prompt: template.render(vars),
+    system: template.system,
+    promptVersion: templateVersion(template),
+  }
+}
+
+export function parsePromptVersion(tag: string): { name: string; version: number } | null {
+  const match = tag.match(/^(.+)@(\d+)$/)
+  return match ? { name: match[1], version: parseInt(match[2]) } : null
+}
+
+/**
+ * True if content was not produced by the current version of this template
+ * (including content generated before versions were recorded)
+ */
+export function isOutdated(
+  template: { name: string; version: number },
+  recorded: string | null | undefined
+): boolean {
+  return recorded !== templateVersion(template)
+}
+
+/**
+ * True if the recorded tag names a registered template at an older version
+ */
+export function isOutdatedTag(recorded: string): boolean {
+  const parsed = parsePromptVersion(recorded)
+  const current = parsed && registry.get(parsed.name)
+  return !!current && current.version > parsed.version
+}
+
+export function listPromptTemplates(): PromptTemplateInfo[] {
+  return Array.from(registry.values()).sort((a, b) => a.name.localeCompare(b.name))
+}
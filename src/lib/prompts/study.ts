@@ -0,0 +1,48 @@
+/**
+ * Study material prompts - slide matching, flashcards, concept explanations
+ */
+
+import { definePrompt } from './registry'
+import { LECTURE_SYSTEM_PROMPT } from './summary'
+
+export const slideMatchPrompt = definePrompt<{
+  slides: { index: number; ocrText: string }[]
+  transcriptChunks: { index: number; text: string; startTime: number; endTime: number }[]
+}>({
+  name: 'slide-match',
+  version: 1,
+  description: 'Match transcript chunks to the slide being discussed (JSON)',
+  system: LECTURE_SYSTEM_PROMPT,
+  render: v => `Relaciona cada fragmento de la transcripción con la diapositiva que el profesor está explicando.
+
+DIAPOSITIVAS (index: texto OCR):
+${v.slides.map(s => `${s.index}: ${s.ocrText.slice(0, 300)}`).join('\n')}
+
+TRANSCRIPCIÓN (index [inicio-fin s]: texto):
+${v.transcriptChunks.map(c => `${c.index} [${Math.round(c.startTime)}-${Math.round(c.endTime)}]: ${c.text.slice(0, 300)}`).join('\n')}
+
+Responde SOLO con un JSON array:
+[{ "slideIndex": 0, "transcriptChunkIndex": 0, "confidence": 0.9, "reasoning": "breve motivo" }]`,
+})
+
+export const flashcardsPrompt = definePrompt<{ content: string; maxCards: number }>({
+  name: 'flashcards',
+  version: 1,
+  description: 'Study flashcards (JSON) from lesson content',
+  system: LECTURE_SYSTEM_PROMPT,
+  render: v => `Genera como máximo ${v.maxCards} flashcards de estudio basadas SOLO en este contenido.
+
+CONTENIDO:
+${v.content}
+
+Responde SOLO con un JSON array:
+[{ "front": "pregunta o concepto", "back": "respuesta breve", "type": "CONCEPT | DEFINITION | PROCESS | FACT" }]`,
+})
+
+export const explainConceptPrompt = definePrompt<{ concept: string; context: string }>({
+  name: 'explain-concept',
+  version: 1,
+  description: 'Plain explanation of a concept using lesson context',
+  system: LECTURE_SYSTEM_PROMPT,
+  render: v => `Explica el concepto "${v.concept}" de forma clara y educativa, usando este contexto:\n\n${v.context}`,
+})
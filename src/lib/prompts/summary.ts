@@ -0,0 +1,67 @@
+/**
+ * Summary prompts - per slide and per lesson
+ */
+
+import { definePrompt } from './registry'
+
+export const slideSummaryPrompt = definePrompt<{
+  slideText: string
+  transcript: string
+  // Specialty of the assistant, e.g. "nutrición y dietética"
+  field?: string
+}>({
+  name: 'slide-summary',
+  version: 1,
+  description: 'Key points and one-line summary for a slide and what the professor said about it',
+  render: v => `Eres un asistente educativo${v.field ? ` especializado en ${v.field}` : ''}. Analiza esta diapositiva y lo que explica el profesor.
+
+FORMATO (usa EXACTAMENTE este formato):
+PUNTOS CLAVE:
+• [punto 1]
+• [punto 2]
+• [punto 3]
+
+EN UNA FRASE: [resumen en una sola línea]
+
+---
+DIAPOSITIVA:
+${v.slideText.slice(0, 600)}
+
+PROFESOR:
+${v.transcript.slice(0, 1200)}`,
+})
+
+/**
+ * Parse the PUNTOS CLAVE / EN UNA FRASE format of slideSummaryPrompt
+ */
+export function parseSlideSummary(response: string): { keyPoints: string[]; oneLiner: string } {
+  const keyPoints: string[] = []
+  for (const line of response.split('\n')) {
+    const t = line.trim()
+    if (t.startsWith('•') || t.startsWith('-')) {
+      keyPoints.push(t.replace(/^[•\-]\s*/, ''))
+    }
+  }
+
+  const match = response.match(/EN UNA FRASE:\s*(.+)/i)
+  return { keyPoints, oneLiner: match?.[1]?.trim() || '' }
+}
+
+export const LECTURE_SYSTEM_PROMPT = 'Eres un asistente para estudiantes universitarios de nutrición. El contenido es de clases en español.'
+
+export const lessonSummaryPrompt = definePrompt<{ transcript: string; slideTexts: string[] }>({
+  name: 'lesson-summary',
+  version: 1,
+  description: 'Lesson summary and key points (JSON) from transcript and slide text',
+  system: LECTURE_SYSTEM_PROMPT,
+  render: v => `Resume esta clase universitaria en español.
+
+DIAPOSITIVAS:
+${v.slideTexts.join('\n').slice(0, 5000)}
+
+TRANSCRIPCIÓN:
+${v.transcript.slice(0, 15000)}
+
+Responde SOLO con un JSON:
+{ "content": "resumen en markdown (3-5 párrafos)", "keyPoints": ["punto clave 1", "punto clave 2"] }`,
+})
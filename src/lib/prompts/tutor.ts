@@ -0,0 +1,43 @@
+/**
+ * Lesson tutor prompt
+ */
+
+import { definePrompt } from './registry'
+
+export interface TutorVars {
+  lessonTitle: string
+  slides: string
+  transcript: string
+  selectedText?: string
+  question: string
+}
+
+export const tutorPrompt = definePrompt<TutorVars>({
+  name: 'tutor',
+  version: 1,
+  description: 'Answer a student question using only the lesson slides and transcript',
+  render: v => `Eres un tutor de la asignatura "${v.lessonTitle}".
+
+REGLAS ESTRICTAS:
+1. SOLO puedes responder usando la información del contenido de la lección que te proporciono abajo.
+2. NO uses conocimiento general o externo.
+3. Si la pregunta no puede responderse con el contenido de la lección, di: "Esta pregunta no está cubierta en el contenido de esta lección."
+4. Cita partes específicas del contenido cuando sea posible.
+5. Responde en español, de forma clara y educativa.
+
+CONTENIDO DE LAS DIAPOSITIVAS:
+${v.slides.slice(0, 5000)}
+
+TRANSCRIPCIÓN DEL PROFESOR:
+${v.transcript.slice(0, 15000)}
+
+---
+
+${v.selectedText ? `TEXTO SELECCIONADO POR EL ESTUDIANTE:
+"${v.selectedText}"
+
+` : ''}PREGUNTA DEL ESTUDIANTE:
+${v.question}
+
+RESPUESTA (basada ÚNICAMENTE en el contenido de la lección):`,
+})
@@ -90,7 +90,8 @@ export function isDue(nextReview: Date): boolean {
 export function getIntervalText(rating: Rating, card: SRSCard): string {
   const result = calculateNextReview(card, rating)
 
-  if (result.interval < 1) {
+  // AGAIN resets the card to a 10 minute relearning step
+  if (rating === 'AGAIN' || result.interval < 1) {
     return '10m'
   } else if (result.interval === 1) {
     return '1d'
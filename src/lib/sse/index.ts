@@ -0,0 +1,114 @@
+/**
+ * Server-Sent Events over fetch
+ * The server side wraps a handler in a text/event-stream Response; the
+ * client side reads it back from a fetch() body (EventSource is GET-only).
+ * Each event carries one JSON payload.
+ */
+
+export type SSESend = (event: string, data: unknown) => void
+
+export interface SSEEvent {
+  event: string
+  data: unknown
+}
+
+/**
+ * Stream the events sent by `run`. What `run` returns is sent as the
+ * final `done` event; a thrown error becomes an `error` event.
+ * Nothing more is written once the client has disconnected.
+ */
+export function sseResponse(
+  run: (send: SSESend) => Promise<unknown>,
+  signal: AbortSignal
+): Response {
+  const encoder = new TextEncoder()
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const close = () => {
+        if (closed) return
+        closed = true
+        try {
+          controller.close()
+        } catch {
+          // Already cancelled
+        }
+      }
+      signal.addEventListener('abort', close)
+
+      const send: SSESend = (event, data) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        } catch {
+          // Stream already closed by the runtime
+          closed = true
+        }
+      }
+
+      try {
+        send('done', await run(send))
+      } catch (error) {
+        if (!signal.aborted) {
+          console.error('Stream error:', error)
+          send('error', { error: error instanceof Error ? error.message : String(error) })
+        }
+      } finally {
+        signal.removeEventListener('abort', close)
+        close()
+      }
+    },
+    cancel() {
+      closed = true
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  })
+}
+
+export function wantsEventStream(req: Request): boolean {
+  return (req.headers.get('accept') || '').includes('text/event-stream')
+}
+
+function parseEvent(block: string): SSEEvent | null {
+  let event = 'message'
+  const data: string[] = []
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim()
+    else if (line.startsWith('data:')) data.push(line.slice(5).trimStart())
+  }
+  return data.length > 0 ? { event, data: JSON.parse(data.join('\n')) } : null
+}
+
+/**
+ * Events of a text/event-stream response, in order
+ */
+export async function* readEventStream(res: Response): AsyncGenerator<SSEEvent> {
+  if (!res.body) return
+
+  const reader = res.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+
+    const blocks = buffer.split('\n\n')
+    buffer = blocks.pop() || ''
+    for (const block of blocks) {
+      const event = parseEvent(block)
+      if (event) yield event
+    }
+  }
+
+  const last = parseEvent(buffer)
+  if (last) yield last
+}
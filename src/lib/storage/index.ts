@@ -13,6 +13,9 @@ export const STORAGE_PATHS = {
   audio: path.join(STORAGE_BASE, 'audio'),
   slides: path.join(STORAGE_BASE, 'slides'),
   uploads: path.join(STORAGE_BASE, 'uploads'),
+  papers: path.join(STORAGE_BASE, 'papers'),
+  eval: path.join(STORAGE_BASE, 'eval'),
+  glossary: path.join(STORAGE_BASE, 'glossary'),
 }
 
 /**
@@ -55,6 +58,18 @@ export async function saveUploadedFile(
   return { path: filePath, filename }
 }
 
+/**
+ * Save an uploaded research paper PDF under papers/
+ */
+export async function savePaperFile(buffer: Buffer): Promise<string> {
+  await ensureStorageDirs()
+
+  const filePath = path.join(STORAGE_PATHS.papers, `${uuidv4()}.pdf`)
+  await writeFile(filePath, buffer)
+
+  return filePath
+}
+
 /**
  * Move file from uploads to permanent storage
  */
@@ -133,6 +148,76 @@ export function getPublicUrl(filePath: string): string {
   return `/api/storage${relativePath}`
 }
 
+const MIME_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.webm': 'audio/webm',
+  '.mp4': 'video/mp4',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.json': 'application/json',
+  '.txt': 'text/plain; charset=utf-8',
+}
+
+/**
+ * Get MIME type from file extension
+ */
+export function getMimeType(filePath: string): string {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream'
+}
+
+/**
+ * Resolve a storage-relative path to an absolute path.
+ * Returns null if the path escapes the storage directory.
+ */
+export function resolveStoragePath(relativePath: string): string | null {
+  if (relativePath.includes('\0')) return null
+
+  const root = path.resolve(STORAGE_BASE)
+  const resolved = path.resolve(root, relativePath.replace(/^\/+/, ''))
+
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+    return null
+  }
+  return resolved
+}
+
+/**
+ * Absolute filesystem path for a path stored in the DB.
+ * Stored paths are either relative to storage or already prefixed with STORAGE_BASE.
+ */
+export function getStorageFilePath(storedPath: string): string {
+  if (path.isAbsolute(storedPath)) return storedPath
+
+  const normalized = path.normalize(storedPath)
+  if (normalized.startsWith(path.normalize(STORAGE_BASE) + path.sep)) {
+    return path.resolve(normalized)
+  }
+  return path.resolve(STORAGE_BASE, normalized)
+}
+
+/**
+ * Path relative to the storage root (the form served by /api/storage)
+ */
+export function getStorageRelativePath(filePath: string): string {
+  return path
+    .relative(path.resolve(STORAGE_BASE), getStorageFilePath(filePath))
+    .split(path.sep)
+    .join('/')
+}
+
+/**
+ * URL of a stored file under /api/storage, each path segment encoded
+ */
+export function getStorageUrl(filePath: string): string {
+  return `/api/storage/${getStorageRelativePath(filePath).split('/').map(encodeURIComponent).join('/')}`
+}
+
 /**
  * Clean up lesson storage
  */
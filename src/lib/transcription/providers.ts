@@ -0,0 +1,445 @@
+/**
+ * Transcription Providers - speech-to-text backends behind one interface
+ * Selected with TRANSCRIPTION_PROVIDER: runpod (default) | local | mock
+ *
+ * - runpod: Whisper large-v3 on RunPod; it downloads the audio from
+ *   PUBLIC_APP_URL/api/storage, so that URL must be reachable from outside
+ * - local: a whisper.cpp binary on this machine's CPU, reading straight
+ *   from storage (needs ffmpeg and a ggml model file)
+ * - mock: placeholder text, for development
+ *
+ * Every backend returns the same TranscriptResult.
+ */
+
+import { spawn } from 'child_process'
+import { mkdtemp, readFile, rm, stat } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { getStorageFilePath, getStorageRelativePath } from '../storage'
+import type { TranscriptResult, TranscriptSegment, TranscriptWord } from '.'
+
+export type TranscriptionProviderName = 'runpod' | 'local' | 'mock'
+
+export interface TranscribeOptions {
+  // Called with 0-100 as the backend reports progress
+  onProgress?: (percent: number) => void
+  timeoutMs?: number
+}
+
+export interface TranscriptionProvider {
+  name: TranscriptionProviderName
+  // The backend fetches audio over HTTP (see PUBLIC_APP_URL)
+  needsPublicUrl: boolean
+  // Files batch scripts should transcribe at the same time
+  concurrency: number
+  // audioPath as stored in the DB (relative to storage, or absolute)
+  transcribe(audioPath: string, options?: TranscribeOptions): Promise<TranscriptResult>
+}
+
+export interface TranscriptionProviderConfig {
+  // Base URL RunPod downloads audio from (default PUBLIC_APP_URL)
+  publicUrl?: string
+}
+
+const LANGUAGE = 'es'
+
+// Long lectures can sit in the RunPod queue for a while
+const DEFAULT_TIMEOUT_MS = 60 * 60_000
+
+// ============================================
+// RunPod Whisper API
+// ============================================
+
+const RUNPOD_API_URL = process.env.RUNPOD_API_URL || ''
+const RUNPOD_API_KEY = process.env.RUNPOD_API_KEY || ''
+
+interface RunPodResponse {
+  id: string
+  status: 'IN_QUEUE' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED'
+  output?: RunPodOutput
+  error?: string
+}
+
+// faster-whisper worker output; older workers returned TranscriptResult as is
+interface RunPodOutput {
+  text?: string
+  transcription?: string
+  language?: string
+  detected_language?: string
+  duration?: number
+  segments?: {
+    id: number
+    text: string
+    start: number
+    end: number
+    words?: { word: string; start: number; end: number; probability?: number; confidence?: number }[]
+  }[]
+}
+
+/**
+ * Submit audio for transcription
+ */
+export async function submitTranscription(
+  audioUrl: string
+): Promise<{ jobId: string } | { error: string }> {
+  if (!RUNPOD_API_URL || !RUNPOD_API_KEY) {
+    return { error: 'RunPod API not configured' }
+  }
+
+  try {
+    const response = await fetch(`${RUNPOD_API_URL}/run`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${RUNPOD_API_KEY}`,
+      },
+      body: JSON.stringify({
+        input: {
+          audio: audioUrl,
+          model: 'large-v3',
+          language: LANGUAGE,
+          word_timestamps: true,
+          task: 'transcribe',
+        },
+      }),
+    })
+
+    const data = await response.json()
+
+    if (data.id) {
+      return { jobId: data.id }
+    }
+
+    return { error: data.error || 'Failed to submit transcription' }
+  } catch (error) {
+    console.error('Transcription submit error:', error)
+    return { error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+/**
+ * Check transcription status
+ */
+export async function checkTranscriptionStatus(
+  jobId: string
+): Promise<RunPodResponse> {
+  if (!RUNPOD_API_URL || !RUNPOD_API_KEY) {
+    return { id: jobId, status: 'FAILED', error: 'RunPod API not configured' }
+  }
+
+  try {
+    const response = await fetch(`${RUNPOD_API_URL}/status/${jobId}`, {
+      headers: {
+        'Authorization': `Bearer ${RUNPOD_API_KEY}`,
+      },
+    })
+
+    return await response.json()
+  } catch (error) {
+    console.error('Transcription status error:', error)
+    return {
+      id: jobId,
+      status: 'FAILED',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
+function fromRunPodOutput(output: RunPodOutput): TranscriptResult {
+  const segments: TranscriptSegment[] = (output.segments || []).map((s, i) => ({
+    id: s.id ?? i,
+    text: s.text.trim(),
+    start: s.start,
+    end: s.end,
+    words: s.words?.map(w => ({
+      word: w.word.trim(),
+      start: w.start,
+      end: w.end,
+      confidence: w.probability ?? w.confidence ?? 1,
+    })),
+  }))
+
+  return {
+    text: output.text ?? output.transcription ?? segments.map(s => s.text).join(' '),
+    segments,
+    language: output.language || output.detected_language || LANGUAGE,
+    duration: output.duration ?? (segments.length > 0 ? segments[segments.length - 1].end : 0),
+  }
+}
+
+/**
+ * Wait for transcription to complete (with polling)
+ */
+export async function waitForTranscription(
+  jobId: string,
+  maxWaitMs: number = 600000, // 10 minutes max
+  pollIntervalMs: number = 5000
+): Promise<TranscriptResult | { error: string }> {
+  const startTime = Date.now()
+
+  while (Date.now() - startTime < maxWaitMs) {
+    const status = await checkTranscriptionStatus(jobId)
+
+    if (status.status === 'COMPLETED' && status.output) {
+      return fromRunPodOutput(status.output)
+    }
+
+    if (status.status === 'FAILED') {
+      return { error: status.error || 'Transcription failed' }
+    }
+
+    // Wait before next poll
+    await new Promise(resolve => setTimeout(resolve, pollIntervalMs))
+  }
+
+  return { error: 'Transcription timed out' }
+}
+
+function runpodProvider({ publicUrl = process.env.PUBLIC_APP_URL || '' }: TranscriptionProviderConfig): TranscriptionProvider {
+  return {
+    name: 'runpod',
+    needsPublicUrl: true,
+    // Jobs queue on RunPod's side
+    concurrency: 8,
+    async transcribe(audioPath, { onProgress, timeoutMs = DEFAULT_TIMEOUT_MS } = {}) {
+      if (!publicUrl) throw new Error('PUBLIC_APP_URL not configured')
+
+      const relativePath = getStorageRelativePath(audioPath)
+      const audioUrl = `${publicUrl.replace(/\/+$/, '')}/api/storage/${relativePath.split('/').map(encodeURIComponent).join('/')}`
+
+      const submitted = await submitTranscription(audioUrl)
+      if ('error' in submitted) throw new Error(submitted.error)
+      onProgress?.(10)
+
+      const result = await waitForTranscription(submitted.jobId, timeoutMs)
+      if ('error' in result) throw new Error(result.error)
+      onProgress?.(100)
+      return result
+    },
+  }
+}
+
+// ============================================
+// Local whisper.cpp (CPU)
+// ============================================
+
+const WHISPER_CPP_BIN = process.env.WHISPER_CPP_BIN || 'whisper-cli'
+// ggml model file, e.g. ggml-large-v3-turbo-q5_0.bin or ggml-small.bin
+const WHISPER_CPP_MODEL = process.env.WHISPER_CPP_MODEL || ''
+const WHISPER_CPP_THREADS = parseInt(process.env.WHISPER_CPP_THREADS || String(os.cpus().length))
+const FFMPEG_BIN = process.env.FFMPEG_BIN || 'ffmpeg'
+
+// 16 kHz mono 16-bit PCM, the input whisper.cpp expects
+const WAV_BYTES_PER_SECOND = 16000 * 2
+const WAV_HEADER_BYTES = 44
+
+// whisper.cpp --output-json-full
+interface WhisperCppOutput {
+  result?: { language?: string }
+  transcription: {
+    offsets: { from: number; to: number }
+    text: string
+    tokens?: { text: string; offsets: { from: number; to: number }; p: number }[]
+  }[]
+}
+
+/**
+ * Run a command to completion; stderr lines go to onStderr and the last
+ * few are included in the error if it fails
+ */
+function runCommand(
+  command: string,
+  args: string[],
+  { timeoutMs, onStderr }: { timeoutMs: number; onStderr?: (line: string) => void }
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'ignore', 'pipe'] })
+    const tail: string[] = []
+    let buffer = ''
+
+    const timer = setTimeout(() => child.kill('SIGTERM'), timeoutMs)
+
+    child.stderr.on('data', (data: Buffer) => {
+      buffer += data.toString()
+      const lines = buffer.split(/\r?\n|\r/)
+      buffer = lines.pop() || ''
+      for (const line of lines) {
+        if (!line.trim()) continue
+        onStderr?.(line)
+        tail.push(line)
+        if (tail.length > 5) tail.shift()
+      }
+    })
+
+    child.on('error', error => {
+      clearTimeout(timer)
+      reject(new Error(`Could not run ${command}: ${error.message}`))
+    })
+    child.on('close', (code, signal) => {
+      clearTimeout(timer)
+      if (code === 0) resolve()
+      else reject(new Error(`${command} exited with ${signal || code}: ${tail.join(' | ')}`))
+    })
+  })
+}
+
+/**
+ * whisper.cpp tokens to words: a token starting with a space starts a
+ * new word, anything else (suffixes, punctuation) extends the last one.
+ * A word's confidence is its least certain letter token.
+ */
+function tokensToWords(tokens: NonNullable<WhisperCppOutput['transcription'][number]['tokens']>): TranscriptWord[] {
+  const words: TranscriptWord[] = []
+
+  for (const token of tokens) {
+    // Special tokens: [_BEG_], [_TT_123], <|endoftext|>, ...
+    if (/^\[_|^<\|/.test(token.text)) continue
+
+    const last = words[words.length - 1]
+    if (last && !/^\s/.test(token.text)) {
+      last.word += token.text
+      last.end = token.offsets.to / 1000
+      // Punctuation doesn't make the word itself less certain
+      if (/[\p{L}\p{N}]/u.test(token.text)) last.confidence = Math.min(last.confidence, token.p)
+    } else if (token.text.trim()) {
+      words.push({
+        word: token.text.trim(),
+        start: token.offsets.from / 1000,
+        end: token.offsets.to / 1000,
+        confidence: token.p,
+      })
+    }
+  }
+
+  return words
+}
+
+const localProvider: TranscriptionProvider = {
+  name: 'local',
+  needsPublicUrl: false,
+  // whisper.cpp already uses every core
+  concurrency: 1,
+  async transcribe(audioPath, { onProgress, timeoutMs = DEFAULT_TIMEOUT_MS } = {}) {
+    if (!WHISPER_CPP_MODEL) throw new Error('WHISPER_CPP_MODEL not configured')
+
+    const workDir = await mkdtemp(path.join(os.tmpdir(), 'classmind-whisper-'))
+    try {
+      const wavPath = path.join(workDir, 'audio.wav')
+      await runCommand(
+        FFMPEG_BIN,
+        ['-nostdin', '-v', 'error', '-y', '-i', getStorageFilePath(audioPath), '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wavPath],
+        { timeoutMs }
+      )
+      onProgress?.(5)
+
+      const outputBase = path.join(workDir, 'transcript')
+      await runCommand(
+        WHISPER_CPP_BIN,
+        [
+          '-m', WHISPER_CPP_MODEL,
+          '-f', wavPath,
+          '-l', LANGUAGE,
+          '-t', String(WHISPER_CPP_THREADS),
+          '--output-json-full',
+          '--output-file', outputBase,
+          '--print-progress',
+        ],
+        {
+          timeoutMs,
+          onStderr: line => {
+            const progress = line.match(/progress\s*=\s*(\d+)%/)
+            if (progress) onProgress?.(5 + Math.round(parseInt(progress[1]) * 0.95))
+          },
+        }
+      )
+
+      const output: WhisperCppOutput = JSON.parse(await readFile(`${outputBase}.json`, 'utf-8'))
+      const { size } = await stat(wavPath)
+
+      const segments: TranscriptSegment[] = output.transcription
+        .map((s, i) => ({
+          id: i,
+          text: s.text.trim(),
+          start: s.offsets.from / 1000,
+          end: s.offsets.to / 1000,
+          words: s.tokens ? tokensToWords(s.tokens) : undefined,
+        }))
+        .filter(s => s.text)
+
+      return {
+        text: segments.map(s => s.text).join(' '),
+        segments,
+        language: output.result?.language || LANGUAGE,
+        duration: Math.max(0, size - WAV_HEADER_BYTES) / WAV_BYTES_PER_SECOND,
+      }
+    } finally {
+      await rm(workDir, { recursive: true, force: true })
+    }
+  },
+}
+
+// ============================================
+// Mock (development)
+// ============================================
+
+// Duration guessed from the file size, assuming 128 kbps audio
+const MOCK_BYTES_PER_SECOND = 128_000 / 8
+
+/**
+ * Mock transcription for development (when RunPod not configured)
+ */
+export function mockTranscription(durationSeconds: number): TranscriptResult {
+  const segmentCount = Math.ceil(durationSeconds / 30)
+  const segments: TranscriptSegment[] = []
+
+  for (let i = 0; i < segmentCount; i++) {
+    segments.push({
+      id: i,
+      text: `[Segment ${i + 1}] Este es un texto de ejemplo para desarrollo. Aquí iría el contenido transcrito del audio.`,
+      start: i * 30,
+      end: Math.min((i + 1) * 30, durationSeconds),
+    })
+  }
+
+  return {
+    text: segments.map(s => s.text).join(' '),
+    segments,
+    language: 'es',
+    duration: durationSeconds,
+  }
+}
+
+const mockProvider: TranscriptionProvider = {
+  name: 'mock',
+  needsPublicUrl: false,
+  concurrency: 1,
+  async transcribe(audioPath, { onProgress } = {}) {
+    const size = await stat(getStorageFilePath(audioPath)).then(s => s.size, () => 0)
+    onProgress?.(100)
+    return mockTranscription(size > 0 ? Math.ceil(size / MOCK_BYTES_PER_SECOND) : 300)
+  },
+}
+
+// ============================================
+// Provider selection
+// ============================================
+
+const PROVIDERS: Record<TranscriptionProviderName, (config: TranscriptionProviderConfig) => TranscriptionProvider> = {
+  runpod: runpodProvider,
+  local: () => localProvider,
+  mock: () => mockProvider,
+}
+
+/**
+ * Provider from TRANSCRIPTION_PROVIDER, or a specific one by name
+ */
+export function getTranscriptionProvider(
+  name = process.env.TRANSCRIPTION_PROVIDER || 'runpod',
+  config: TranscriptionProviderConfig = {}
+): TranscriptionProvider {
+  const provider = PROVIDERS[name as TranscriptionProviderName]
+  if (!provider) {
+    throw new Error(`Unknown transcription provider: ${name} (expected ${Object.keys(PROVIDERS).join(', ')})`)
+  }
+  return provider(config)
+}
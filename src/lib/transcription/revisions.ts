@@ -0,0 +1,210 @@
+/**
+ * Transcript corrections - hand edits of TranscriptChunk text, each kept
+ * as a TranscriptRevision with a word diff so it can be reviewed and undone.
+ * Hand edits leave the word timing as recognized; revisions that also
+ * rewrite it (glossary corrections) keep the words they replaced, and
+ * reverting them puts those back.
+ *
+ * Content derived from the transcript is not rewritten; it is reported as
+ * stale until regenerated:
+ * - knowledge chunks of an edited transcript chunk, by content hash (the
+ *   next index-knowledge run re-embeds them)
+ * - Cornell notes and the summary, when older than the latest correction
+ */
+
+import { prisma, type TranscriptChunk, type TranscriptRevision } from '../db'
+import { hashContent } from '../knowledge'
+import { chunkWordRange, decodeWords, encodeWords } from './words'
+import type { TranscriptWord } from '.'
+
+export interface DiffPart {
+  op: 'equal' | 'insert' | 'delete'
+  text: string
+}
+
+export interface TranscriptStaleness {
+  lastEditAt: Date | null
+  // Transcript chunk ids whose knowledge chunks predate their current text
+  knowledgeSources: string[]
+  cornellNoteIds: string[]
+  summary: boolean
+}
+
+export interface ReviseOptions {
+  // Revision this one undoes
+  revertsId?: string | null
+  // New timing for the chunk's words, from the current ones
+  rewriteWords?: (words: TranscriptWord[]) => TranscriptWord[]
+}
+
+const MAX_AUTHOR_LENGTH = 100
+
+// Larger inputs are diffed as one replacement (chunks are ~30 s of speech)
+const MAX_DIFF_WORDS = 2000
+
+/**
+ * Word-level diff (longest common subsequence), consecutive parts merged
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.split(/\s+/).filter(Boolean)
+  const b = after.split(/\s+/).filter(Boolean)
+  const parts: DiffPart[] = []
+  const push = (op: DiffPart['op'], word: string) => {
+    const last = parts[parts.length - 1]
+    if (last?.op === op) last.text += ` ${word}`
+    else parts.push({ op, text: word })
+  }
+
+  if (a.length > MAX_DIFF_WORDS || b.length > MAX_DIFF_WORDS) {
+    if (a.length) parts.push({ op: 'delete', text: a.join(' ') })
+    if (b.length) parts.push({ op: 'insert', text: b.join(' ') })
+    return parts
+  }
+
+  // lcs[i][j]: common words of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i++])
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('delete', a[i++])
+    } else {
+      push('insert', b[j++])
+    }
+  }
+  while (i < a.length) push('delete', a[i++])
+  while (j < b.length) push('insert', b[j++])
+
+  return parts
+}
+
+/**
+ * Author name from a request body, or null
+ */
+export function parseAuthor(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, MAX_AUTHOR_LENGTH) : null
+}
+
+type RevisedChunk = Pick<TranscriptChunk, 'id' | 'text' | 'audioPartId' | 'startTime' | 'endTime'>
+
+/**
+ * Replace a chunk's text, recording the change. Returns null when the
+ * text is unchanged (ignoring surrounding whitespace).
+ */
+export async function reviseTranscriptChunk(
+  chunk: RevisedChunk,
+  text: string,
+  author: string | null,
+  { revertsId = null, rewriteWords }: ReviseOptions = {}
+): Promise<{ chunk: TranscriptChunk; revision: TranscriptRevision } | null> {
+  const newText = text.trim()
+  if (newText === chunk.text.trim()) return null
+
+  return prisma.$transaction(async tx => {
+    let previousWords: TranscriptWord[] | null = null
+    if (rewriteWords) {
+      const row = await tx.transcriptWords.findUnique({ where: { audioPartId: chunk.audioPartId } })
+      const words = row && decodeWords(row.data)
+      if (words) {
+        const [from, to] = chunkWordRange(words, chunk.startTime, chunk.endTime)
+        previousWords = words.slice(from, to)
+        const updated = [...words.slice(0, from), ...rewriteWords(previousWords), ...words.slice(to)]
+        await tx.transcriptWords.update({
+          where: { audioPartId: chunk.audioPartId },
+          data: { data: { ...encodeWords(updated) }, wordCount: updated.length },
+        })
+      }
+    }
+
+    const updated = await tx.transcriptChunk.update({
+      where: { id: chunk.id },
+      data: { text: newText },
+    })
+    const revision = await tx.transcriptRevision.create({
+      data: {
+        transcriptChunkId: chunk.id,
+        previousText: chunk.text,
+        text: newText,
+        diff: diffWords(chunk.text, newText).map(part => ({ ...part })),
+        author,
+        revertsId,
+        ...(previousWords && { previousWords: { ...encodeWords(previousWords) } }),
+      },
+    })
+
+    return { chunk: updated, revision }
+  })
+}
+
+/**
+ * Undo a revision: restore the text it replaced (and the word timing, if
+ * it rewrote that), as a new revision
+ */
+export async function revertTranscriptRevision(
+  revision: TranscriptRevision,
+  author: string | null
+): Promise<{ chunk: TranscriptChunk; revision: TranscriptRevision } | null> {
+  const chunk = await prisma.transcriptChunk.findUniqueOrThrow({
+    where: { id: revision.transcriptChunkId },
+  })
+  const previousWords = revision.previousWords && decodeWords(revision.previousWords)
+  return reviseTranscriptChunk(chunk, revision.previousText, author, {
+    revertsId: revision.id,
+    ...(previousWords && { rewriteWords: () => previousWords }),
+  })
+}
+
+/**
+ * Derived content of a lesson that predates its transcript corrections
+ */
+export async function getTranscriptStaleness(lessonId: string): Promise<TranscriptStaleness> {
+  const edited = await prisma.transcriptChunk.findMany({
+    where: { audioPart: { lessonId }, revisions: { some: {} } },
+    select: {
+      id: true,
+      text: true,
+      revisions: { select: { createdAt: true }, orderBy: { createdAt: 'desc' }, take: 1 },
+    },
+  })
+
+  const lastEditAt = edited.reduce<Date | null>((latest, chunk) => {
+    const at = chunk.revisions[0].createdAt
+    return !latest || at > latest ? at : latest
+  }, null)
+  if (!lastEditAt) return { lastEditAt, knowledgeSources: [], cornellNoteIds: [], summary: false }
+
+  const textById = new Map(edited.map(c => [c.id, c.text]))
+  const [indexed, notes, summary] = await Promise.all([
+    prisma.knowledgeChunk.findMany({
+      where: { sourceType: 'transcript', sourceId: { in: [...textById.keys()] } },
+      select: { sourceId: true, contentHash: true },
+      distinct: ['sourceId', 'contentHash'],
+    }),
+    prisma.note.findMany({
+      where: { id: { in: [`${lessonId}-cornell-full`, `${lessonId}-cornell`] }, updatedAt: { lt: lastEditAt } },
+      select: { id: true },
+    }),
+    prisma.summary.findFirst({
+      where: { lessonId, updatedAt: { lt: lastEditAt } },
+      select: { id: true },
+    }),
+  ])
+
+  return {
+    lastEditAt,
+    knowledgeSources: [
+      ...new Set(indexed.filter(k => k.contentHash !== hashContent(textById.get(k.sourceId)!)).map(k => k.sourceId)),
+    ],
+    cornellNoteIds: notes.map(n => n.id),
+    summary: !!summary,
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Word-level transcript data in a compact form - parallel arrays with
+ * times in centiseconds and confidence in percent - about a third of the
+ * size of TranscriptWord JSON. Safe to import from client components.
+ */
+
+import type { TranscriptSegment, TranscriptWord } from '.'
+
+export interface CompactWords {
+  version: 1
+  words: string[]
+  // Centiseconds after the previous word's start (the first: after 0)
+  starts: number[]
+  // Centiseconds
+  durations: number[]
+  // 0-100
+  confidence: number[]
+}
+
+// Words below this confidence are flagged for review in the player
+export const LOW_CONFIDENCE_THRESHOLD = 0.5
+
+export function encodeWords(words: TranscriptWord[]): CompactWords {
+  const compact: CompactWords = { version: 1, words: [], starts: [], durations: [], confidence: [] }
+  let previous = 0
+
+  for (const word of words) {
+    const start = Math.round(word.start * 100)
+    compact.words.push(word.word.trim())
+    compact.starts.push(start - previous)
+    compact.durations.push(Math.max(0, Math.round(word.end * 100) - start))
+    // Transcripts saved before confidence was recorded count as certain
+    compact.confidence.push(Number.isFinite(word.confidence) ? Math.round(word.confidence * 100) : 100)
+    previous = start
+  }
+
+  return compact
+}
+
+/**
+ * Words of a TranscriptWords row, or null if the data isn't in a known format
+ */
+export function decodeWords(data: unknown): TranscriptWord[] | null {
+  const compact = data as CompactWords | null
+  if (compact?.version !== 1 || !Array.isArray(compact.words)) return null
+
+  const words: TranscriptWord[] = []
+  let start = 0
+  for (let i = 0; i < compact.words.length; i++) {
+    start += compact.starts[i]
+    words.push({
+      word: compact.words[i],
+      start: start / 100,
+      end: (start + compact.durations[i]) / 100,
+      confidence: compact.confidence[i] / 100,
+    })
+  }
+  return words
+}
+
+/**
+ * Every word of the segments that has timing, in order
+ */
+export function segmentWords(segments: TranscriptSegment[]): TranscriptWord[] {
+  return segments
+    .flatMap(s => s.words || [])
+    .filter(w => w.word && Number.isFinite(w.start) && Number.isFinite(w.end))
+}
+
+/**
+ * Index range [from, to) of the words that fall in a chunk, by their
+ * midpoint (words sorted by start)
+ */
+export function chunkWordRange(words: TranscriptWord[], startTime: number, endTime: number): [number, number] {
+  const inChunk = (w: TranscriptWord) => (w.start + w.end) / 2 >= startTime
+  let from = words.findIndex(inChunk)
+  if (from === -1) from = words.length
+  let to = from
+  while (to < words.length && (words[to].start + words[to].end) / 2 < endTime) to++
+  return [from, to]
+}
+
+/**
+ * Index of the word being spoken at a time (words sorted by start), or -1.
+ * A word stays current through a short pause after it.
+ */
+export function wordIndexAt(words: TranscriptWord[], time: number, maxPause = 1): number {
+  let low = 0
+  let high = words.length - 1
+  let found = -1
+  while (low <= high) {
+    const mid = (low + high) >> 1
+    if (words[mid].start <= time) {
+      found = mid
+      low = mid + 1
+    } else {
+      high = mid - 1
+    }
+  }
+  return found >= 0 && time < words[found].end + maxPause ? found : -1
+}
@@ -32,3 +32,23 @@ export function slugify(text: string): string {
     .replace(/[^a-z0-9]+/g, '-')
     .replace(/(^-|-$)/g, '')
 }
+
+const EMOJI_PATTERN = /[\u{1F300}-\u{1F9FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]|[\u{1F600}-\u{1F64F}]|[\u{1F680}-\u{1F6FF}]/gu
+
+/**
+ * Markdown heading text without emoji and inline formatting
+ */
+export function cleanHeading(text: string): string {
+  return text.replace(EMOJI_PATTERN, '').replace(/[*_`]/g, '').trim()
+}
+
+/**
+ * Anchor id of a rendered Cornell heading (keeps Spanish accents)
+ */
+export function headingAnchor(text: string): string {
+  return cleanHeading(text)
+    .toLowerCase()
+    .replace(/[^\w\sáéíóúñü-]/g, '')
+    .replace(/\s+/g, '-')
+    .slice(0, 50)
+}
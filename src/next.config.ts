@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Local embedding model: native ONNX runtime, load from node_modules.
+  // pdfjs loads its worker by path at runtime, so it can't be bundled either.
+  serverExternalPackages: ["@huggingface/transformers", "pdfjs-dist"],
 };
 
 export default nextConfig;
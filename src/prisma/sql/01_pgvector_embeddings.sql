@@ -0,0 +1,43 @@
+-- pgvector embeddings for knowledge_chunks
+-- Moves the JSONB embedding column (written by the old indexer) to a real
+-- vector column. The HNSW indexes are per dimension, in 03_embedding_models.sql
+-- (an HNSW index needs a column with dimensions, which `db push` doesn't give).
+--
+-- Safe to run more than once:
+--   npx prisma db execute --file prisma/sql/01_pgvector_embeddings.sql
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- Keep the old JSONB values aside while the new column is created
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'knowledge_chunks' AND column_name = 'embedding' AND data_type = 'jsonb'
+  ) THEN
+    ALTER TABLE "knowledge_chunks" RENAME COLUMN "embedding" TO "embedding_json";
+  END IF;
+END $$;
+
+ALTER TABLE "knowledge_chunks" ADD COLUMN IF NOT EXISTS "embedding" vector(1536);
+
+-- A JSON array prints as '[1, 2, ...]', which is also a valid vector literal
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'knowledge_chunks' AND column_name = 'embedding_json'
+  ) THEN
+    EXECUTE '
+      UPDATE "knowledge_chunks"
+      SET "embedding" = "embedding_json"::text::vector
+      WHERE "embedding" IS NULL
+        AND jsonb_typeof("embedding_json") = ''array''
+        AND jsonb_array_length("embedding_json") = 1536
+    ';
+    ALTER TABLE "knowledge_chunks" DROP COLUMN "embedding_json";
+  END IF;
+END $$;
+
+-- Filter columns used together with the vector ranking
+CREATE INDEX IF NOT EXISTS "knowledge_chunks_programId_idx" ON "knowledge_chunks" ("programId");
@@ -0,0 +1,40 @@
+-- Full-text search for knowledge_chunks
+-- Spanish stemming with accent folding ("glucólisis" matches "glucolisis"),
+-- stored as a generated tsvector column with a GIN index.
+--
+-- Safe to run more than once:
+--   npx prisma db execute --file prisma/sql/02_knowledge_fulltext.sql
+
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'spanish_unaccent') THEN
+    CREATE TEXT SEARCH CONFIGURATION spanish_unaccent (COPY = spanish);
+    ALTER TEXT SEARCH CONFIGURATION spanish_unaccent
+      ALTER MAPPING FOR hword, hword_part, word WITH unaccent, spanish_stem;
+  END IF;
+END $$;
+
+-- `db push` creates search_vector as a plain column from the schema;
+-- replace it with the generated one
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_attribute
+    WHERE attrelid = '"knowledge_chunks"'::regclass AND attname = 'search_vector'
+      AND NOT attisdropped AND attgenerated <> 's'
+  ) THEN
+    ALTER TABLE "knowledge_chunks" DROP COLUMN "search_vector";
+  END IF;
+END $$;
+
+-- Title matches weigh more than body matches
+ALTER TABLE "knowledge_chunks" ADD COLUMN IF NOT EXISTS "search_vector" tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('spanish_unaccent'::regconfig, coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('spanish_unaccent'::regconfig, "content"), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS "knowledge_chunks_search_vector_idx"
+  ON "knowledge_chunks" USING gin ("search_vector");
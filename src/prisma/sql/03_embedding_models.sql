@@ -0,0 +1,28 @@
+-- Embeddings from more than one model (OpenAI, local CPU model)
+-- The embedding column becomes an untyped vector so any dimension fits,
+-- every row records its model and dimension, and each supported
+-- dimension gets a partial HNSW index over a typed cast.
+--
+-- Safe to run more than once:
+--   npx prisma db execute --file prisma/sql/03_embedding_models.sql
+
+DROP INDEX IF EXISTS "knowledge_chunks_embedding_hnsw_idx";
+
+ALTER TABLE "knowledge_chunks" ALTER COLUMN "embedding" TYPE vector;
+ALTER TABLE "knowledge_chunks" ADD COLUMN IF NOT EXISTS "embeddingDimensions" integer;
+
+-- Everything embedded so far came from OpenAI text-embedding-3-small
+UPDATE "knowledge_chunks"
+SET "embeddingModel" = coalesce("embeddingModel", 'text-embedding-3-small'),
+    "embeddingDimensions" = vector_dims("embedding")
+WHERE "embedding" IS NOT NULL AND "embeddingDimensions" IS NULL;
+
+-- OpenAI text-embedding-3-small
+CREATE INDEX IF NOT EXISTS "knowledge_chunks_embedding_1536_idx"
+  ON "knowledge_chunks" USING hnsw (("embedding"::vector(1536)) vector_cosine_ops)
+  WHERE "embeddingDimensions" = 1536;
+
+-- Local multilingual MiniLM (LOCAL_EMBEDDING_MODEL default)
+CREATE INDEX IF NOT EXISTS "knowledge_chunks_embedding_384_idx"
+  ON "knowledge_chunks" USING hnsw (("embedding"::vector(384)) vector_cosine_ops)
+  WHERE "embeddingDimensions" = 384;
@@ -1,45 +1,14 @@
 import { prisma } from '../lib/db'
+import { complete } from '../lib/ai'
+import { renderPrompt, slideSummaryPrompt, parseSlideSummary, templateVersion } from '../lib/prompts'
 
-const N8N_WEBHOOK = 'http://localhost:5678/webhook/classmind-ai'
+const PROMPT_VERSION = templateVersion(slideSummaryPrompt)
 
 async function generateSummary(slideOCR: string, transcriptText: string): Promise<{ keyPoints: string[], oneLiner: string } | null> {
-  const prompt = `Eres un asistente educativo. Analiza esta diapositiva y lo que explico el profesor.
-
-FORMATO (usa EXACTAMENTE):
-PUNTOS CLAVE:
-• [punto 1]
-• [punto 2]
-• [punto 3]
-
-EN UNA FRASE: [resumen]
-
----
-DIAPOSITIVA:
-${slideOCR.slice(0, 600)}
-
-PROFESOR:
-${transcriptText.slice(0, 1200)}`
+  const { prompt } = renderPrompt(slideSummaryPrompt, { slideText: slideOCR, transcript: transcriptText })
 
   try {
-    const res = await fetch(N8N_WEBHOOK, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ prompt })
-    })
-    if (!res.ok) return null
-    const data = await res.json()
-    const response = data.response?.trim() || ''
-    if (!response) return null
-
-    const keyPoints: string[] = []
-    for (const line of response.split('\n')) {
-      const t = line.trim()
-      if (t.startsWith('•') || t.startsWith('-')) {
-        keyPoints.push(t.replace(/^[•\-]\s*/, ''))
-      }
-    }
-    const match = response.match(/EN UNA FRASE:\s*(.+)/i)
-    return { keyPoints, oneLiner: match?.[1]?.trim() || '' }
+    return parseSlideSummary(await complete(prompt))
   } catch { return null }
 }
 
@@ -130,9 +99,13 @@ async function main() {
             id: `${slide.id}-summary`,
             lessonId: lesson.id,
             slideId: slide.id,
-            content: `${summary.keyPoints.map(kp => `• ${kp}`).join('\n')}\n\n**Resumen:** ${summary.oneLiner}`
+            content: `${summary.keyPoints.map(kp => `• ${kp}`).join('\n')}\n\n**Resumen:** ${summary.oneLiner}`,
+            promptVersion: PROMPT_VERSION
           },
-          update: { content: `${summary.keyPoints.map(kp => `• ${kp}`).join('\n')}\n\n**Resumen:** ${summary.oneLiner}` }
+          update: {
+            content: `${summary.keyPoints.map(kp => `• ${kp}`).join('\n')}\n\n**Resumen:** ${summary.oneLiner}`,
+            promptVersion: PROMPT_VERSION
+          }
         })
       }
       processed++
@@ -145,8 +118,8 @@ async function main() {
       const unique = [...new Set(allKeyPoints)].slice(0, 10)
       await prisma.summary.upsert({
         where: { lessonId: lesson.id },
-        create: { lessonId: lesson.id, content: unique.map(k => `• ${k}`).join('\n'), keyPoints: unique },
-        update: { content: unique.map(k => `• ${k}`).join('\n'), keyPoints: unique }
+        create: { lessonId: lesson.id, content: unique.map(k => `• ${k}`).join('\n'), keyPoints: unique, promptVersion: PROMPT_VERSION },
+        update: { content: unique.map(k => `• ${k}`).join('\n'), keyPoints: unique, promptVersion: PROMPT_VERSION }
       })
     }
     await prisma.lesson.update({ where: { id: lesson.id }, data: { status: 'READY', isProcessed: true } })
@@ -0,0 +1,266 @@
+#!/usr/bin/env npx tsx
+/**
+ * ClassMind - Glossary Post-Correction
+ * Runs each program's glossary over its existing transcript chunks and
+ * writes a Markdown report of every change for review. Nothing is saved
+ * unless --apply is given; applied changes are recorded as transcript
+ * revisions (author "Glosario") together with the chunk's corrected word
+ * timing, so each can be undone from the lesson page, words included.
+ *
+ * Every correction in the report has an id; pass the ones to leave out
+ * with --exclude, or leave out every correction to a term with
+ * --exclude-term (comma-separated lists).
+ *
+ * Usage:
+ *   npx tsx scripts/apply-glossary.ts [--program <id>] [--lesson <id>] [--no-fuzzy]
+ *                                     [--exclude <id,...>] [--exclude-term <term,...>]
+ *                                     [--out report.md] [--apply]
+ *
+ * Reports are saved under storage/glossary/ unless --out is given.
+ */
+
+import { createHash } from 'crypto'
+import { writeFile, mkdir } from 'fs/promises'
+import path from 'path'
+import { prisma } from '../lib/db'
+import { STORAGE_PATHS } from '../lib/storage'
+import {
+  getGlossaryCorrector,
+  correctText,
+  correctWords,
+  normalizeTerm,
+  type AcceptCorrection,
+  type Correction,
+  type Corrector,
+} from '../lib/glossary'
+import { reviseTranscriptChunk } from '../lib/transcription'
+
+const REVISION_AUTHOR = 'Glosario'
+
+interface ReportedCorrection extends Correction {
+  // Stable while the chunk text is unchanged, for --exclude
+  id: string
+  excluded: boolean
+}
+
+interface ChunkChange {
+  chunkId: string
+  audioPartId: string
+  lessonId: string
+  lessonTitle: string
+  partTitle: string
+  startTime: number
+  endTime: number
+  before: string
+  // With the excluded corrections left out
+  after: string
+  corrections: ReportedCorrection[]
+}
+
+interface Exclusions {
+  ids: Set<string>
+  terms: Set<string>
+}
+
+function getArg(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name)
+  return index >= 0 ? args[index + 1] : undefined
+}
+
+function getList(args: string[], name: string): string[] {
+  return (getArg(args, name) || '').split(',').map(v => v.trim()).filter(Boolean)
+}
+
+function correctionId(chunkId: string, index: number, correction: Correction): string {
+  return createHash('sha1')
+    .update(`${chunkId}\0${index}\0${correction.from}\0${correction.to}`)
+    .digest('hex')
+    .slice(0, 8)
+}
+
+function formatTime(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`
+}
+
+async function findChanges(
+  programId: string,
+  corrector: Corrector,
+  exclusions: Exclusions,
+  lessonId?: string
+): Promise<ChunkChange[]> {
+  const chunks = await prisma.transcriptChunk.findMany({
+    where: {
+      audioPart: {
+        lesson: { subject: { programId }, ...(lessonId ? { id: lessonId } : {}) },
+      },
+    },
+    include: { audioPart: { include: { lesson: { select: { id: true, title: true, order: true } } } } },
+  })
+
+  chunks.sort((a, b) =>
+    a.audioPart.lesson.order - b.audioPart.lesson.order ||
+    a.audioPart.lesson.title.localeCompare(b.audioPart.lesson.title) ||
+    a.audioPart.order - b.audioPart.order ||
+    a.startTime - b.startTime
+  )
+
+  const changes: ChunkChange[] = []
+  for (const chunk of chunks) {
+    const corrections = correctText(chunk.text, corrector).corrections.map((c, i) => {
+      const id = correctionId(chunk.id, i, c)
+      return { ...c, id, excluded: exclusions.ids.has(id) || exclusions.terms.has(normalizeTerm(c.term)) }
+    })
+    if (corrections.length === 0) continue
+    changes.push({
+      chunkId: chunk.id,
+      audioPartId: chunk.audioPartId,
+      lessonId: chunk.audioPart.lesson.id,
+      lessonTitle: chunk.audioPart.lesson.title,
+      partTitle: chunk.audioPart.title,
+      startTime: chunk.startTime,
+      endTime: chunk.endTime,
+      before: chunk.text,
+      after: correctText(chunk.text, corrector, acceptFor(corrections)).text,
+      corrections,
+    })
+  }
+  return changes
+}
+
+// Corrections to make, by their position in the chunk
+function acceptFor(corrections: ReportedCorrection[]): AcceptCorrection {
+  return (_, index) => !corrections[index]?.excluded
+}
+
+function formatReport(programName: string, changes: ChunkChange[], applied: boolean): string {
+  const all = changes.flatMap(change => change.corrections)
+  const excluded = all.filter(c => c.excluded).length
+  const counts = new Map<string, { term: string; kind: string; from: Set<string>; count: number }>()
+  for (const c of all.filter(c => !c.excluded)) {
+    const key = `${c.term}\0${c.kind}`
+    const entry = counts.get(key) || { term: c.term, kind: c.kind, from: new Set<string>(), count: 0 }
+    entry.from.add(c.from.replace(/[^\p{L}\p{N}\s-]/gu, ''))
+    entry.count++
+    counts.set(key, entry)
+  }
+
+  const lines = [
+    `# Glosario: ${programName}`,
+    '',
+    `${new Date().toLocaleString('es-ES')} · ${changes.length} segmentos · ${applied ? 'cambios aplicados' : 'sin aplicar (ejecuta con --apply)'}` +
+      (excluded > 0 ? ` · ${excluded} excluidos` : ''),
+    '',
+    'Para descartar cambios concretos: `--exclude <id,id>`; todos los de un término: `--exclude-term <término>`.',
+    '',
+    '| Término | Tipo | Cambios | Texto original |',
+    '| --- | --- | ---: | --- |',
+    ...[...counts.values()]
+      .sort((a, b) => b.count - a.count)
+      .map(e => `| ${e.term} | ${e.kind} | ${e.count} | ${[...e.from].slice(0, 5).join(', ')} |`),
+  ]
+
+  let lesson = ''
+  for (const change of changes) {
+    if (change.lessonId !== lesson) {
+      lesson = change.lessonId
+      lines.push('', `## ${change.lessonTitle}`, '')
+    }
+    const list = change.corrections
+      .map(c => {
+        const text = `\`${c.id}\` ~~${c.from}~~ → **${c.to}**${c.kind === 'fuzzy' ? ` (aproximado, distancia ${c.distance})` : ''}`
+        return c.excluded ? `${text} (excluido)` : text
+      })
+      .join('; ')
+    lines.push(`- ${change.partTitle} ${formatTime(change.startTime)}: ${list}`)
+    lines.push(`  > ${change.after}`)
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+async function applyChanges(changes: ChunkChange[], corrector: Corrector): Promise<number> {
+  let applied = 0
+  for (const change of changes) {
+    // The chunk's words give the same corrections as its text, in order,
+    // unless the text was edited by hand (the player then ignores them)
+    const revised = await reviseTranscriptChunk(
+      {
+        id: change.chunkId,
+        text: change.before,
+        audioPartId: change.audioPartId,
+        startTime: change.startTime,
+        endTime: change.endTime,
+      },
+      change.after,
+      REVISION_AUTHOR,
+      { rewriteWords: words => correctWords(words, corrector, acceptFor(change.corrections)) }
+    )
+    if (revised) applied++
+  }
+  return applied
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+  const programId = getArg(args, '--program')
+  const lessonId = getArg(args, '--lesson')
+  const out = getArg(args, '--out')
+  const apply = args.includes('--apply')
+  const fuzzy = !args.includes('--no-fuzzy')
+  const exclusions: Exclusions = {
+    ids: new Set(getList(args, '--exclude')),
+    terms: new Set(getList(args, '--exclude-term').map(normalizeTerm)),
+  }
+
+  console.log('============================================================')
+  console.log('CLASSMIND - Glossary Post-Correction')
+  console.log('============================================================')
+
+  try {
+    const programs = await prisma.program.findMany({
+      where: {
+        glossaryTerms: { some: {} },
+        ...(programId ? { id: programId } : {}),
+        ...(lessonId ? { subjects: { some: { lessons: { some: { id: lessonId } } } } } : {}),
+      },
+      orderBy: { order: 'asc' },
+    })
+    if (programs.length === 0) {
+      console.log('\n⚠️  No program with glossary terms matches')
+      return
+    }
+
+    for (const program of programs) {
+      const corrector = (await getGlossaryCorrector(program.id, { fuzzy }))!
+      console.log(`\n📖 ${program.name}: ${corrector.termCount} terms${fuzzy ? '' : ' (exact only)'}`)
+
+      const changes = await findChanges(program.id, corrector, exclusions, lessonId)
+      const corrections = changes.flatMap(c => c.corrections)
+      const excluded = corrections.filter(c => c.excluded).length
+      console.log(`   ${corrections.length} corrections in ${changes.length} transcript chunks${excluded ? ` (${excluded} excluded)` : ''}`)
+      if (changes.length === 0) continue
+
+      if (apply) {
+        const applied = await applyChanges(changes, corrector)
+        console.log(`   ✅ Applied to ${applied} chunks`)
+      }
+
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+      const reportPath = out && programs.length === 1
+        ? out
+        : path.join(STORAGE_PATHS.glossary, `${program.name}-${stamp}.md`.replace(/[^\w.-]+/g, '_'))
+      await mkdir(path.dirname(reportPath), { recursive: true })
+      await writeFile(reportPath, formatReport(program.name, changes, apply))
+      console.log(`   💾 ${reportPath}`)
+    }
+
+    if (!apply) console.log('\nReview the report(s), then run again with --apply to save the changes.')
+  } catch (error) {
+    console.error('Glossary correction failed:', error)
+    process.exit(1)
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+main()
@@ -0,0 +1,76 @@
+#!/usr/bin/env npx tsx
+/**
+ * ClassMind - Enqueue Transcriptions
+ * Adds a TRANSCRIBE job for every audio part without transcript chunks.
+ * Run scripts/worker.ts to process them.
+ *
+ * Usage: npx tsx scripts/enqueue-transcriptions.ts [--subject=<id>] [--lesson=<id>]
+ */
+
+import { prisma } from '../lib/db'
+import { enqueueJob } from '../lib/jobs'
+
+async function main() {
+  const getArg = (name: string) =>
+    process.argv.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1]
+
+  const subjectFilter = getArg('subject')
+  const lessonFilter = getArg('lesson')
+
+  console.log('='.repeat(60))
+  console.log('CLASSMIND - Enqueue Transcriptions')
+  console.log('='.repeat(60))
+
+  const audioParts = await prisma.audioPart.findMany({
+    where: {
+      transcriptChunks: { none: {} },
+      lesson: {
+        ...(subjectFilter && { subjectId: subjectFilter }),
+        ...(lessonFilter && { id: lessonFilter }),
+      },
+    },
+    include: { lesson: { select: { id: true, title: true } } },
+    orderBy: [{ lessonId: 'asc' }, { order: 'asc' }],
+  })
+
+  // Skip parts that already have a job waiting or running
+  const activeJobs = await prisma.processingJob.findMany({
+    where: { type: 'TRANSCRIBE', status: { in: ['PENDING', 'RUNNING'] } },
+    select: { inputData: true },
+  })
+  const queued = new Set(
+    activeJobs.map(j => (j.inputData as { audioPartId?: string } | null)?.audioPartId)
+  )
+
+  console.log(`\nFound ${audioParts.length} audio parts without transcript\n`)
+
+  let enqueued = 0
+  for (const part of audioParts) {
+    if (queued.has(part.id)) {
+      console.log(`⏭️  ${part.lesson.title} - part ${part.order + 1} (already queued)`)
+      continue
+    }
+
+    await enqueueJob('TRANSCRIBE', {
+      lessonId: part.lessonId,
+      inputData: { audioPartId: part.id },
+    })
+    await prisma.lesson.update({
+      where: { id: part.lessonId },
+      data: { status: 'PENDING' },
+    })
+    console.log(`➕ ${part.lesson.title} - part ${part.order + 1}`)
+    enqueued++
+  }
+
+  console.log('\n' + '='.repeat(60))
+  console.log(`Done! Enqueued: ${enqueued}`)
+  console.log('='.repeat(60))
+}
+
+main()
+  .catch(e => {
+    console.error('Error:', e)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())
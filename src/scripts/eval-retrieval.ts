@@ -0,0 +1,179 @@
+#!/usr/bin/env npx tsx
+/**
+ * ClassMind - Retrieval Evaluation
+ * Scores knowledge search against a golden question set (recall@k, MRR,
+ * nDCG@k) and compares saved runs. Runs read only the local database, so
+ * with EMBEDDING_PROVIDER=local (and RERANKER=local or none) nothing
+ * leaves the machine; see lib/eval for the golden set format.
+ *
+ * Usage:
+ *   npx tsx scripts/eval-retrieval.ts run <golden.json> [--config default|chat|search|no-rerank|no-mmr|<file.json>]
+ *                                        [--k 1,3,5,10] [--out run.json]
+ *   npx tsx scripts/eval-retrieval.ts compare <runA.json> <runB.json>
+ *
+ * Runs are saved under storage/eval/ unless --out is given.
+ * scripts/eval-retrieval.golden.json is a starter set for the lesson
+ * created by scripts/seed-sample.ts.
+ */
+
+import { readFile, writeFile, mkdir } from 'fs/promises'
+import path from 'path'
+import { prisma } from '../lib/db'
+import { SEARCH_PRESETS } from '../lib/knowledge'
+import { STORAGE_PATHS } from '../lib/storage'
+import {
+  loadGoldenSet,
+  runEval,
+  compareRuns,
+  type EvalConfig,
+  type EvalRun,
+  type Metrics,
+} from '../lib/eval'
+
+const DEFAULT_KS = [1, 3, 5, 10]
+
+// Built-in configurations: what each caller runs, plus ablations
+const CONFIGS: Record<string, EvalConfig['search']> = {
+  // searchKnowledge defaults
+  default: {},
+  chat: SEARCH_PRESETS.chat,
+  search: SEARCH_PRESETS.search,
+  'no-rerank': { rerank: false },
+  'no-mmr': { diversity: 1 },
+}
+
+async function loadConfigs(value: string): Promise<EvalConfig[]> {
+  if (CONFIGS[value]) return [{ name: value, search: CONFIGS[value] }]
+
+  // A JSON file with one { name, search } configuration or an array of them
+  const raw = JSON.parse(await readFile(value, 'utf-8'))
+  const configs = (Array.isArray(raw) ? raw : [raw]) as EvalConfig[]
+  for (const config of configs) {
+    if (typeof config.name !== 'string' || typeof config.search !== 'object') {
+      throw new Error(`${value}: each configuration needs a name and a search object`)
+    }
+  }
+  return configs
+}
+
+function formatMetric(value: number): string {
+  return value.toFixed(3)
+}
+
+// Metrics in a stable order: mrr, then recall@k and ndcg@k by k
+function metricNames(metrics: Metrics): string[] {
+  const k = (name: string) => parseInt(name.split('@')[1] || '0')
+  return Object.keys(metrics).sort((a, b) =>
+    a === 'mrr' ? -1 : b === 'mrr' ? 1 : a.split('@')[0].localeCompare(b.split('@')[0]) || k(a) - k(b)
+  )
+}
+
+function printRun(run: EvalRun) {
+  console.log(`\n📊 ${run.config.name} (${run.golden.name}, ${run.golden.questions} questions, ${(run.durationMs / 1000).toFixed(1)}s)`)
+  for (const name of metricNames(run.metrics)) {
+    console.log(`   ${name.padEnd(12)} ${formatMetric(run.metrics[name])}`)
+  }
+
+  const failed = run.questions.filter(q => q.error)
+  const misses = run.questions.filter(q => !q.error && q.relevantRanks.length === 0)
+  if (failed.length > 0) console.log(`   ⚠️  ${failed.length} searches failed`)
+  if (misses.length > 0) {
+    console.log(`   ❌ Nothing relevant retrieved for ${misses.length}:`)
+    misses.slice(0, 10).forEach(q => console.log(`      ${q.id}: ${q.question.slice(0, 70)}`))
+  }
+}
+
+async function runCommand(args: string[]) {
+  const goldenPath = args[0]
+  if (!goldenPath || goldenPath.startsWith('--')) throw new Error('Missing golden set file')
+
+  const configIndex = args.indexOf('--config')
+  const kIndex = args.indexOf('--k')
+  const outIndex = args.indexOf('--out')
+
+  const golden = await loadGoldenSet(goldenPath)
+  const configs = await loadConfigs(configIndex >= 0 ? args[configIndex + 1] : 'default')
+  const ks = kIndex >= 0
+    ? args[kIndex + 1].split(',').map(k => parseInt(k)).filter(k => k > 0).sort((a, b) => a - b)
+    : DEFAULT_KS
+  if (ks.length === 0) throw new Error('--k needs a list of positive integers')
+
+  console.log(`Golden set: ${golden.name} (${golden.questions.length} questions, ${golden.hash})`)
+  console.log(`Configurations: ${configs.map(c => c.name).join(', ')}`)
+
+  for (const config of configs) {
+    const run = await runEval(golden, config, ks, (result, i) => {
+      const mark = result.error ? '⚠️ ' : result.relevantRanks.length > 0 ? `#${result.relevantRanks[0]}` : '✗'
+      process.stdout.write(`\r   ${config.name}: ${i + 1}/${golden.questions.length} ${mark.padEnd(4)}`)
+    })
+    process.stdout.write('\n')
+    printRun(run)
+
+    const stamp = run.createdAt.replace(/[:.]/g, '-')
+    const outPath = outIndex >= 0 && configs.length === 1
+      ? args[outIndex + 1]
+      : path.join(STORAGE_PATHS.eval, `${golden.name}-${config.name}-${stamp}.json`.replace(/[^\w.-]+/g, '_'))
+    await mkdir(path.dirname(outPath), { recursive: true })
+    await writeFile(outPath, JSON.stringify(run, null, 2))
+    console.log(`   💾 ${outPath}`)
+  }
+}
+
+async function compareCommand(args: string[]) {
+  const [pathA, pathB] = args
+  if (!pathA || !pathB) throw new Error('compare needs two run files')
+
+  const a: EvalRun = JSON.parse(await readFile(pathA, 'utf-8'))
+  const b: EvalRun = JSON.parse(await readFile(pathB, 'utf-8'))
+  const comparison = compareRuns(a, b)
+
+  console.log(`A: ${a.config.name} (${a.createdAt})  ${pathA}`)
+  console.log(`B: ${b.config.name} (${b.createdAt})  ${pathB}`)
+  comparison.warnings.forEach(w => console.log(`⚠️  ${w}`))
+
+  console.log(`\n${'metric'.padEnd(12)} ${'A'.padStart(7)} ${'B'.padStart(7)} ${'Δ'.padStart(8)}`)
+  const byName = new Map(comparison.metrics.map(m => [m.name, m]))
+  for (const name of metricNames(Object.fromEntries(comparison.metrics.map(m => [m.name, m.a])))) {
+    const m = byName.get(name)!
+    const icon = m.delta > 0.0005 ? '🟢' : m.delta < -0.0005 ? '🔴' : '  '
+    const delta = `${m.delta >= 0 ? '+' : ''}${formatMetric(m.delta)}`
+    console.log(`${name.padEnd(12)} ${formatMetric(m.a).padStart(7)} ${formatMetric(m.b).padStart(7)} ${delta.padStart(8)} ${icon}`)
+  }
+
+  const better = comparison.questions.filter(q => q.delta > 0)
+  const worse = comparison.questions.filter(q => q.delta < 0)
+  console.log(`\nReciprocal rank: ${better.length} better, ${worse.length} worse, ${b.questions.length - comparison.questions.length} unchanged`)
+  for (const [label, list] of [['🔴 Worse', worse], ['🟢 Better', better]] as const) {
+    if (list.length === 0) continue
+    console.log(`\n${label}:`)
+    list.slice(0, 10).forEach(q => {
+      console.log(`   ${formatMetric(q.a)} → ${formatMetric(q.b)}  ${q.id}: ${q.question.slice(0, 60)}`)
+    })
+  }
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2)
+
+  console.log('============================================================')
+  console.log('CLASSMIND - Retrieval Evaluation')
+  console.log('============================================================')
+
+  try {
+    if (command === 'run') await runCommand(args)
+    else if (command === 'compare') await compareCommand(args)
+    else {
+      console.log('Usage: npx tsx scripts/eval-retrieval.ts run <golden.json> [--config name|file] [--k 1,3,5,10] [--out file]')
+      console.log('       npx tsx scripts/eval-retrieval.ts compare <runA.json> <runB.json>')
+      console.log(`Configurations: ${Object.keys(CONFIGS).join(', ')}`)
+      process.exitCode = command ? 1 : 0
+    }
+  } catch (error) {
+    console.error('Evaluation failed:', error)
+    process.exit(1)
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+main()
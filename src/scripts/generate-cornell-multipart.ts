@@ -1,17 +1,10 @@
 import { prisma } from '../lib/db'
+import { complete } from '../lib/ai'
+import { renderPrompt, cornellMultipartPrompt, templateVersion, isOutdated, type CornellMultipartVars } from '../lib/prompts'
 
-const N8N_WEBHOOK = 'http://localhost:5678/webhook/classmind-ai'
-
-async function callAI(prompt: string): Promise<string | null> {
+async function callAI(vars: CornellMultipartVars): Promise<string | null> {
   try {
-    const res = await fetch(N8N_WEBHOOK, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ prompt })
-    })
-    if (!res.ok) return null
-    const data = await res.json()
-    return data.response?.trim() || null
+    return await complete(renderPrompt(cornellMultipartPrompt, vars).prompt)
   } catch {
     return null
   }
@@ -32,7 +25,7 @@ async function generateCornellMultipart(lesson: any): Promise<string | null> {
     return null
   }
 
-  const lessonInfo = `LECCIÓN: ${lesson.title}\nASIGNATURA: ${lesson.subject.name}`
+  const lessonInfo = { lessonTitle: lesson.title, subjectName: lesson.subject.name }
 
   // Split transcript into chunks for multiple calls
   const chunk1 = transcriptContent.slice(0, 12000)
@@ -42,29 +35,7 @@ async function generateCornellMultipart(lesson: any): Promise<string | null> {
 
   // PART 1: Core notes from first part of transcript
   console.log('    Part 1: Core notes...')
-  const part1Prompt = `Eres un experto en metodología Cornell Notes. Analiza este contenido de clase universitaria.
-
-${lessonInfo}
-
-DIAPOSITIVAS:
-${slides}
-
-TRANSCRIPCIÓN (Parte 1):
-${chunk1}
-
----
-
-Genera las NOTAS PRINCIPALES detalladas (secciones con títulos, explicaciones completas, citas del profesor).
-Estructura cada tema con:
-- Título del tema
-- Explicación detallada
-- Puntos clave en negrita
-- Citas textuales del profesor en cursiva
-- Tablas cuando sea apropiado
-
-Escribe en español. Sé MUY detallado (mínimo 5000 caracteres).`
-
-  const part1 = await callAI(part1Prompt)
+  const part1 = await callAI({ ...lessonInfo, part: 'notes', slides, transcript: chunk1 })
   if (!part1) {
     console.log('    Part 1 failed')
     return null
@@ -75,22 +46,7 @@ Escribe en español. Sé MUY detallado (mínimo 5000 caracteres).`
   let part2 = ''
   if (chunk2.length > 500) {
     console.log('    Part 2: Additional notes...')
-    const part2Prompt = `Continúa analizando esta clase universitaria.
-
-${lessonInfo}
-
-TRANSCRIPCIÓN (Parte 2):
-${chunk2}
-
----
-
-Genera NOTAS ADICIONALES sobre los temas nuevos que aparecen en esta parte.
-Misma estructura: títulos, explicaciones detalladas, puntos clave, citas del profesor.
-NO repitas temas de la parte anterior.
-
-Escribe en español. Sé detallado.`
-
-    part2 = await callAI(part2Prompt) || ''
+    part2 = await callAI({ ...lessonInfo, part: 'continue', partNumber: 2, transcript: chunk2 }) || ''
     console.log(`    Part 2: ${part2.length} chars`)
   }
 
@@ -98,55 +54,13 @@ Escribe en español. Sé detallado.`
   let part3 = ''
   if (chunk3.length > 500) {
     console.log('    Part 3: More content...')
-    const part3Prompt = `Continúa analizando esta clase universitaria.
-
-${lessonInfo}
-
-TRANSCRIPCIÓN (Parte 3):
-${chunk3}
-
----
-
-Genera NOTAS ADICIONALES sobre los temas nuevos.
-NO repitas temas anteriores.
-
-Escribe en español.`
-
-    part3 = await callAI(part3Prompt) || ''
+    part3 = await callAI({ ...lessonInfo, part: 'continue', partNumber: 3, transcript: chunk3 }) || ''
     console.log(`    Part 3: ${part3.length} chars`)
   }
 
   // PART 4: Questions, concepts, summary
   console.log('    Part 4: Questions, concepts, summary...')
-  const part4Prompt = `Basándote en este contenido de clase:
-
-${lessonInfo}
-
-RESUMEN DE TEMAS CUBIERTOS:
-${part1.slice(0, 4000)}
-
-TRANSCRIPCIÓN:
-${chunk1.slice(0, 6000)}
-
----
-
-Genera:
-
-## PREGUNTAS CLAVE (12-15 preguntas de autoevaluación SIN respuestas)
-1. ¿...?
-[continúa]
-
-## CONCEPTOS Y DEFINICIONES CLAVE
-| Término | Definición |
-|---------|------------|
-[10-15 términos importantes]
-
-## RESUMEN (4-5 párrafos completos que sinteticen TODA la lección)
-[Usa **negrita** para términos clave]
-
-Escribe en español. Sé completo.`
-
-  const part4 = await callAI(part4Prompt)
+  const part4 = await callAI({ ...lessonInfo, part: 'review', topics: part1, transcript: chunk1 })
   if (!part4) {
     console.log('    Part 4 failed')
     return null
@@ -155,45 +69,7 @@ Escribe en español. Sé completo.`
 
   // PART 5: Self-evaluation and connections
   console.log('    Part 5: Self-evaluation...')
-  const part5Prompt = `Para esta lección universitaria:
-
-${lessonInfo}
-
-TEMAS PRINCIPALES:
-${part1.slice(0, 3000)}
-
----
-
-Genera:
-
-## AUTOEVALUACIÓN (6 preguntas CON respuestas detalladas)
-
-**P1:** [Pregunta de aplicación práctica]
-**R:** [Respuesta completa]
-
----
-
-**P2:** [Pregunta sobre un caso real]
-**R:** [Respuesta completa]
-
----
-
-[Continúa hasta P6]
-
-## CONEXIONES
-
-### Con temas anteriores:
-- [Concepto]: cómo se relaciona
-
-### Aplicaciones prácticas:
-- [Aplicación real en la profesión]
-
-## NOTAS ADICIONALES DEL PROFESOR
-> *"[Cita importante]"*
-
-Escribe en español.`
-
-  const part5 = await callAI(part5Prompt)
+  const part5 = await callAI({ ...lessonInfo, part: 'selfEval', topics: part1 })
   if (!part5) {
     console.log('    Part 5 failed')
     return null
@@ -267,7 +143,12 @@ async function main() {
       where: { id: `${lesson.id}-cornell-full` }
     })
 
-    if (existing && existing.content.length > 5000 && !existing.content.includes('Invalid')) {
+    if (
+      existing &&
+      existing.content.length > 5000 &&
+      !existing.content.includes('Invalid') &&
+      !isOutdated(cornellMultipartPrompt, existing.promptVersion)
+    ) {
       console.log(`✓  ${lesson.subject.name} - ${lesson.title}: Already exists`)
       skipped++
       continue
@@ -283,9 +164,10 @@ async function main() {
         create: {
           id: `${lesson.id}-cornell-full`,
           lessonId: lesson.id,
-          content
+          content,
+          promptVersion: templateVersion(cornellMultipartPrompt)
         },
-        update: { content }
+        update: { content, promptVersion: templateVersion(cornellMultipartPrompt) }
       })
       console.log(`   ✓ Generated (${content.length} chars)`)
       generated++
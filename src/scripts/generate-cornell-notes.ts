@@ -1,48 +1,16 @@
 import { prisma } from '../lib/db'
-
-const N8N_WEBHOOK = 'http://localhost:5678/webhook/classmind-ai'
+import { complete } from '../lib/ai'
+import { renderPrompt, cornellSummaryPrompt, templateVersion } from '../lib/prompts'
 
 async function generateCornellNotes(lessonTitle: string, transcriptText: string, keyPoints: string[]): Promise<string | null> {
-  const prompt = `Eres un experto en técnicas de estudio Cornell Notes. Crea un resumen extenso tipo Cornell para esta lección.
-
-LECCIÓN: ${lessonTitle}
-
-TRANSCRIPCIÓN DEL PROFESOR (fragmentos):
-${transcriptText.slice(0, 8000)}
-
-PUNTOS CLAVE IDENTIFICADOS:
-${keyPoints.map(k => `• ${k}`).join('\n')}
-
----
-
-Genera un resumen estilo CORNELL NOTES con estas secciones:
-
-## 📚 RESUMEN DE LA LECCIÓN
-[2-3 párrafos explicando el tema principal de forma clara y accesible]
-
-## 🎯 CONCEPTOS CLAVE
-[Lista de los 8-10 conceptos más importantes con explicaciones simples]
-
-## 📝 PREGUNTAS DE REPASO
-[5-7 preguntas que ayuden a recordar los conceptos]
-
-## 💡 CONEXIONES Y APLICACIONES
-[Cómo se relaciona con otros temas y aplicaciones prácticas]
-
-## ⚡ RESUMEN RÁPIDO
-[3-5 bullet points con lo más importante para recordar]
-
-Escribe en español, de forma clara y fácil de entender.`
+  const { prompt } = renderPrompt(cornellSummaryPrompt, {
+    lessonTitle,
+    transcript: transcriptText,
+    keyPoints,
+  })
 
   try {
-    const res = await fetch(N8N_WEBHOOK, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ prompt })
-    })
-    if (!res.ok) return null
-    const data = await res.json()
-    return data.response?.trim() || null
+    return await complete(prompt)
   } catch { return null }
 }
 
@@ -112,9 +80,10 @@ async function main() {
           id: `${lesson.id}-cornell`,
           lessonId: lesson.id,
           content: cornellNotes,
+          promptVersion: templateVersion(cornellSummaryPrompt),
           slideId: null // Lesson-level note, not tied to a slide
         },
-        update: { content: cornellNotes }
+        update: { content: cornellNotes, promptVersion: templateVersion(cornellSummaryPrompt) }
       })
       console.log('   ✓ Cornell notes saved')
     } else {
@@ -1,51 +1,12 @@
 import { prisma } from '../lib/db'
+import { generateQuiz as generateLessonQuiz, type GeneratedQuestion } from '../lib/ai'
+import { quizPrompt, templateVersion } from '../lib/prompts'
 
-const N8N_WEBHOOK = 'http://localhost:5678/webhook/classmind-ai'
-
-interface QuizQuestion {
-  question: string
-  options: string[]
-  correct: string
-  explanation: string
-}
-
-async function generateQuiz(lessonContent: string): Promise<QuizQuestion[] | null> {
-  const prompt = `Eres un profesor universitario especializado en entrenamiento personal. Genera 10 preguntas de examen tipo test basadas en este contenido de clase:
-
-${lessonContent}
-
-Responde EXACTAMENTE en formato JSON array (sin explicación adicional):
-[
-  {
-    "question": "¿Pregunta?",
-    "options": ["A) Opción 1", "B) Opción 2", "C) Opción 3", "D) Opción 4"],
-    "correct": "A) Opción 1",
-    "explanation": "Breve explicación de por qué esta es la respuesta correcta"
-  },
-  ...
-]`
-
+async function generateQuiz(lessonContent: string): Promise<GeneratedQuestion[] | null> {
   try {
-    const res = await fetch(N8N_WEBHOOK, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ prompt })
-    })
-
-    if (!res.ok) return null
-
-    const data = (await res.json()) as any
-    const response = data.response?.trim() || ''
-
-    if (!response) return null
-
-    // Try to parse JSON from response
-    const jsonMatch = response.match(/\[[\s\S]*\]/)
-    if (!jsonMatch) return null
-
-    const questions = JSON.parse(jsonMatch[0]) as QuizQuestion[]
+    const questions = await generateLessonQuiz(lessonContent, 10, 'entrenamiento personal')
     return questions.length > 0 ? questions : null
-  } catch (e) {
+  } catch {
     return null
   }
 }
@@ -147,7 +108,8 @@ ${transcriptContent}
                 options: q.options,
                 correct: q.correct,
                 explanation: q.explanation,
-                order: i
+                order: i,
+                promptVersion: templateVersion(quizPrompt)
               }
             })
           }
@@ -1,6 +1,8 @@
 import { prisma } from '../lib/db'
+import { complete } from '../lib/ai'
+import { renderPrompt, slideSummaryPrompt, parseSlideSummary, templateVersion } from '../lib/prompts'
 
-const N8N_WEBHOOK = 'http://localhost:5678/webhook/classmind-ai'
+const PROMPT_VERSION = templateVersion(slideSummaryPrompt)
 
 interface SummaryResult {
   keyPoints: string[]
@@ -8,52 +10,16 @@ interface SummaryResult {
 }
 
 async function generateSummary(slideOCR: string, transcriptText: string): Promise<SummaryResult | null> {
-  const prompt = `Eres un asistente educativo especializado en entrenamiento personal. Analiza esta diapositiva y lo que explica el profesor.
-
-FORMATO (usa EXACTAMENTE este formato):
-PUNTOS CLAVE:
-• [punto 1]
-• [punto 2]
-• [punto 3]
-
-EN UNA FRASE: [resumen en una sola línea]
-
----
-DIAPOSITIVA:
-${slideOCR.slice(0, 600)}
-
-PROFESOR:
-${transcriptText.slice(0, 1200)}`
+  const { prompt } = renderPrompt(slideSummaryPrompt, {
+    slideText: slideOCR,
+    transcript: transcriptText,
+    field: 'entrenamiento personal',
+  })
 
   try {
-    const res = await fetch(N8N_WEBHOOK, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ prompt })
-    })
-
-    if (!res.ok) return null
-
-    const data = (await res.json()) as any
-    const response = data.response?.trim() || ''
-
-    if (!response) return null
-
-    // Parse key points
-    const keyPoints: string[] = []
-    for (const line of response.split('\n')) {
-      const t = line.trim()
-      if (t.startsWith('•') || t.startsWith('-')) {
-        keyPoints.push(t.replace(/^[•\-]\s*/, ''))
-      }
-    }
-
-    // Parse one-liner
-    const match = response.match(/EN UNA FRASE:\s*(.+)/i)
-    const oneLiner = match?.[1]?.trim() || ''
-
-    return keyPoints.length > 0 ? { keyPoints, oneLiner } : null
-  } catch (e) {
+    const summary = parseSlideSummary(await complete(prompt))
+    return summary.keyPoints.length > 0 ? summary : null
+  } catch {
     return null
   }
 }
@@ -167,10 +133,12 @@ async function main() {
                 id: `${slide.id}-summary`,
                 lessonId: lesson.id,
                 slideId: slide.id,
-                content: `${summary.keyPoints.map(kp => `• ${kp}`).join('\n')}\n\n**Resumen:** ${summary.oneLiner}`
+                content: `${summary.keyPoints.map(kp => `• ${kp}`).join('\n')}\n\n**Resumen:** ${summary.oneLiner}`,
+                promptVersion: PROMPT_VERSION
               },
               update: {
-                content: `${summary.keyPoints.map(kp => `• ${kp}`).join('\n')}\n\n**Resumen:** ${summary.oneLiner}`
+                content: `${summary.keyPoints.map(kp => `• ${kp}`).join('\n')}\n\n**Resumen:** ${summary.oneLiner}`,
+                promptVersion: PROMPT_VERSION
               }
             })
             totalSummaries++
@@ -203,11 +171,13 @@ async function main() {
           create: {
             lessonId: lesson.id,
             content: unique.map(k => `• ${k}`).join('\n'),
-            keyPoints: unique
+            keyPoints: unique,
+            promptVersion: PROMPT_VERSION
           },
           update: {
             content: unique.map(k => `• ${k}`).join('\n'),
-            keyPoints: unique
+            keyPoints: unique,
+            promptVersion: PROMPT_VERSION
           }
         })
 
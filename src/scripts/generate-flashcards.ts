@@ -0,0 +1,72 @@
+#!/usr/bin/env npx tsx
+/**
+ * ClassMind - Flashcard Generator
+ * Creates flashcards for every lesson that has Cornell notes, a summary or a transcript
+ *
+ * Usage: npx tsx scripts/generate-flashcards.ts [--subject=<id>] [--lesson=<id>] [--max=20]
+ */
+
+import { prisma } from '../lib/db'
+import { generateLessonFlashcards } from '../lib/flashcards'
+
+async function main() {
+  const getArg = (name: string) =>
+    process.argv.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1]
+
+  const subjectFilter = getArg('subject')
+  const lessonFilter = getArg('lesson')
+  const maxCards = parseInt(getArg('max') || '20')
+
+  console.log('='.repeat(60))
+  console.log('CLASSMIND - Generate Flashcards')
+  console.log('='.repeat(60))
+
+  const lessons = await prisma.lesson.findMany({
+    where: {
+      ...(subjectFilter && { subjectId: subjectFilter }),
+      ...(lessonFilter && { id: lessonFilter }),
+    },
+    include: {
+      subject: true,
+      _count: { select: { flashcards: true } },
+    },
+    orderBy: [{ subject: { name: 'asc' } }, { order: 'asc' }],
+  })
+
+  console.log(`\nFound ${lessons.length} lessons (max ${maxCards} cards each)\n`)
+
+  let totalCreated = 0
+  let totalSkipped = 0
+  let failed = 0
+
+  for (const lesson of lessons) {
+    console.log(`📝 ${lesson.subject.name} - ${lesson.title} (${lesson._count.flashcards} existing)`)
+
+    try {
+      const result = await generateLessonFlashcards(lesson.id, { maxCards })
+      console.log(
+        `   ✓ ${result.created} created, ${result.skipped} duplicates skipped ` +
+        `(cornell ${result.bySource.cornell}, key points ${result.bySource.keyPoints}, transcript ${result.bySource.transcript})`
+      )
+      totalCreated += result.created
+      totalSkipped += result.skipped
+    } catch (e) {
+      console.log(`   ✗ Error: ${e instanceof Error ? e.message : e}`)
+      failed++
+    }
+
+    // Throttle AI calls
+    await new Promise(r => setTimeout(r, 500))
+  }
+
+  console.log('\n' + '='.repeat(60))
+  console.log(`Done! Created: ${totalCreated}, Duplicates skipped: ${totalSkipped}, Failed: ${failed}`)
+  console.log('='.repeat(60))
+}
+
+main()
+  .catch(e => {
+    console.error('Error:', e)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())
@@ -1,6 +1,6 @@
 import { prisma } from '../lib/db'
-
-const N8N_WEBHOOK = 'http://127.0.0.1:5678/webhook/classmind-ai'
+import { complete } from '../lib/ai'
+import { renderPrompt, cornellFullPrompt, templateVersion, isOutdated } from '../lib/prompts'
 
 async function generateCornellNotes(lesson: any): Promise<string | null> {
   // Get all slide OCR text
@@ -19,188 +19,15 @@ async function generateCornellNotes(lesson: any): Promise<string | null> {
     return null
   }
 
-  const prompt = `Eres un experto en la metodología Cornell Notes. Crea un documento de estudio COMPLETO, AUTÓNOMO y MUY DETALLADO para esta lección universitaria.
-
-LECCIÓN: ${lesson.title}
-ASIGNATURA: ${lesson.subject.name}
-
-CONTENIDO DE LAS DIAPOSITIVAS:
-${slidesContent.slice(0, 8000)}
-
-TRANSCRIPCIÓN DEL PROFESOR:
-${transcriptContent.slice(0, 20000)}
-
----
-
-Genera un documento de CORNELL NOTES completo siguiendo EXACTAMENTE esta estructura:
-
-# CORNELL NOTES: ${lesson.title}
-
-## 📋 INFORMACIÓN DE LA LECCIÓN
-- **Asignatura:** ${lesson.subject.name}
-- **Tema:** ${lesson.title}
-- **Duración aproximada:** [estima basándote en el contenido]
-- **Nivel de dificultad:** [Básico/Medio/Alto]
-
----
-
-## 📝 COLUMNA DE PREGUNTAS CLAVE
-
-[IMPORTANTE: Solo preguntas SIN respuestas - son para autoevaluación del estudiante]
-
-1. ¿...?
-2. ¿...?
-3. ¿...?
-[Incluye 12-15 preguntas clave que cubran todo el contenido]
-
----
-
-## 📖 NOTAS PRINCIPALES
-
-### 1. [Primer Tema Principal]
-
-[Contenido detallado con:]
-- **Puntos importantes en negrita**
-- *Citas del profesor en cursiva: "..."*
-- Listas con viñetas
-- Tablas cuando sea apropiado:
-
-| Columna 1 | Columna 2 |
-|-----------|-----------|
-| dato | dato |
-
-#### Subtema A
-[Detalles]
-
-#### Subtema B
-[Detalles]
-
----
-
-### 2. [Segundo Tema Principal]
-
-[Misma estructura: explicación detallada, puntos clave, citas del profesor, tablas]
-
----
-
-### 3. [Tercer Tema Principal]
-
-[Continúa con todos los temas de la lección]
-
----
-
-## 🔑 CONCEPTOS Y DEFINICIONES CLAVE
-
-| Término | Definición |
-|---------|------------|
-| **Concepto 1** | Definición clara y concisa |
-| **Concepto 2** | Definición clara y concisa |
-[Incluye 10-15 términos importantes]
-
----
-
-## 📊 DIAGRAMAS (TEXTUALES)
-
-\`\`\`
-[Diagrama 1: Representa visualmente un proceso o concepto clave]
-Ejemplo de diagrama de flujo:
-    Paso 1 → Paso 2 → Paso 3
-       ↓         ↓         ↓
-    Resultado  Resultado  Resultado
-\`\`\`
-
-\`\`\`
-[Diagrama 2: Otro proceso o estructura importante]
-\`\`\`
-
----
-
-## ⚡ RESUMEN
-
-[Escribe 4-5 párrafos que sinteticen TODA la lección de forma completa. Cada párrafo debe cubrir un aspecto diferente del tema. Usa **negrita** para términos clave. Este resumen debe permitir entender la lección completa sin necesidad de ver las notas principales.]
-
----
-
-## ✅ AUTOEVALUACIÓN
-
-**P1:** [Pregunta de aplicación/comprensión]
-**R:** [Respuesta detallada]
-
----
-
-**P2:** [Pregunta sobre un caso práctico]
-**R:** [Respuesta detallada]
-
----
-
-**P3:** [Pregunta que relaciona conceptos]
-**R:** [Respuesta detallada]
-
----
-
-**P4:** [Pregunta de análisis]
-**R:** [Respuesta detallada]
-
----
-
-**P5:** [Pregunta integradora]
-**R:** [Respuesta detallada]
-
----
-
-**P6:** [Pregunta adicional]
-**R:** [Respuesta detallada]
-
----
-
-## 🔗 CONEXIONES
-
-### Con temas anteriores:
-- [Concepto previo 1]: Cómo se relaciona
-- [Concepto previo 2]: Cómo se relaciona
-
-### Con temas futuros (mencionados por el profesor):
-- [Tema futuro 1]: Por qué es relevante
-- [Tema futuro 2]: Por qué es relevante
-
-### Aplicaciones prácticas:
-- [Aplicación 1]: Cómo se usa en la vida real/profesión
-- [Aplicación 2]: Cómo se usa en la vida real/profesión
-
----
-
-## 📚 NOTAS ADICIONALES DEL PROFESOR
-
-> *"[Cita textual importante del profesor]"*
-
-> *"[Otra cita o consejo del profesor]"*
-
-**Consejos de estudio mencionados:**
-- [Consejo 1]
-- [Consejo 2]
-
----
-
-*Documento generado siguiendo la metodología Cornell Notes para estudio autónomo.*
-
-IMPORTANTE:
-- Escribe en español
-- Sé MUY detallado y completo (mínimo 15000 caracteres)
-- Incluye citas textuales del profesor cuando las encuentres en la transcripción
-- Las PREGUNTAS CLAVE no deben tener respuestas (son para autoevaluación)
-- La AUTOEVALUACIÓN sí debe tener preguntas CON respuestas
-- Usa tablas, listas, negrita y formato markdown de forma abundante`
+  const { prompt } = renderPrompt(cornellFullPrompt, {
+    lessonTitle: lesson.title,
+    subjectName: lesson.subject.name,
+    slides: slidesContent,
+    transcript: transcriptContent,
+  })
 
   try {
-    const res = await fetch(N8N_WEBHOOK, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ prompt })
-    })
-
-    if (!res.ok) return null
-    const data = await res.json()
-    return data.response?.trim() || null
+    return await complete(prompt)
   } catch {
     return null
   }
@@ -243,7 +70,9 @@ async function main() {
       where: { id: `${lesson.id}-cornell-full` }
     })
 
-    if (existing && existing.content.length > 10000 && !existing.content.includes('Invalid')) {
+    const outdated = existing && isOutdated(cornellFullPrompt, existing.promptVersion)
+
+    if (existing && existing.content.length > 10000 && !existing.content.includes('Invalid') && !outdated) {
       console.log(`✓  ${lesson.subject.name} - ${lesson.title}: Already exists (${existing.content.length} chars)`)
       skipped++
       continue
@@ -251,6 +80,8 @@ async function main() {
 
     if (existing && existing.content.length <= 10000) {
       console.log(`🔄 ${lesson.subject.name} - ${lesson.title}: Too short (${existing.content.length}), regenerating...`)
+    } else if (outdated) {
+      console.log(`🔄 ${lesson.subject.name} - ${lesson.title}: Prompt ${existing.promptVersion || 'unversioned'} outdated, regenerating...`)
     }
 
     console.log(`📝 ${lesson.subject.name} - ${lesson.title}...`)
@@ -263,9 +94,10 @@ async function main() {
         create: {
           id: `${lesson.id}-cornell-full`,
           lessonId: lesson.id,
-          content
+          content,
+          promptVersion: templateVersion(cornellFullPrompt)
         },
-        update: { content }
+        update: { content, promptVersion: templateVersion(cornellFullPrompt) }
       })
       console.log(`   ✓ Generated (${content.length} chars)`)
       generated++
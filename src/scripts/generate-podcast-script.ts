@@ -1,76 +1,16 @@
 import { prisma } from '../lib/db'
+import { complete } from '../lib/ai'
+import { renderPrompt, podcastScriptPrompt, templateVersion } from '../lib/prompts'
 import * as fs from 'fs'
 
-const N8N_WEBHOOK = 'http://localhost:5678/webhook/classmind-ai'
-
-const PODCAST_PROMPT = `Eres un creador de podcasts educativos al estilo Huberman Lab o podcasts de divulgación científica en español.
-
-Tu tarea: Convertir estos apuntes Cornell en un GUIÓN DE PODCAST que permita aprender TODO el contenido solo escuchando.
-
-REGLAS DEL GUIÓN:
-1. **Tono conversacional** - Como si explicaras a un amigo inteligente pero que no conoce el tema
-2. **Ejemplos reales** - Cada concepto importante necesita un ejemplo práctico ("Imagina que...", "Es como cuando...")
-3. **Sin elementos visuales** - NO referencias a "como ves en la imagen" o "en esta tabla"
-4. **Transiciones naturales** - "Ahora bien...", "Esto nos lleva a...", "¿Y por qué importa esto?"
-5. **Pausas para pensar** - Incluir [PAUSA] donde el oyente debería reflexionar
-6. **Duración**: 15-20 minutos de audio (aprox 3000-4000 palabras)
-
-ESTRUCTURA:
-
-[INTRO - 1 min]
-Gancho inicial + "En este episodio vas a aprender..." + Por qué esto es útil en la vida real
-
-[CONTEXTO - 2 min]
-Situar el tema, conectar con conocimiento previo, establecer importancia
-
-[CONTENIDO PRINCIPAL - 12-15 min]
-- Explicar cada concepto con ejemplos del mundo real
-- Usar analogías memorables
-- Conectar ideas entre sí
-- Incluir datos interesantes o curiosidades
-- Aplicación práctica cuando sea posible
-
-[CASOS PRÁCTICOS - 3 min]
-"Imagina que tienes un cliente que..." o "Si alguien te pregunta..."
-Escenarios reales donde aplicar lo aprendido
-
-[CIERRE - 2 min]
-Resumen de los 3-5 puntos clave
-Una pregunta para reflexionar
-"En el próximo episodio..."
-
-FORMATO DEL OUTPUT:
-Escribe el guión completo listo para leer. Usa:
-- [PAUSA] para pausas dramáticas
-- *énfasis* para palabras que necesitan énfasis al hablar
-- Párrafos cortos (2-3 oraciones max)
-
----
-
-APUNTES CORNELL A CONVERTIR:
-
-`
-
 async function generatePodcastScript(lessonId: string, cornellContent: string): Promise<string | null> {
-  const prompt = PODCAST_PROMPT + cornellContent.slice(0, 25000)  // Limit to avoid timeout
+  const { prompt } = renderPrompt(podcastScriptPrompt, { cornellContent })
 
   console.log(`Generating podcast script for ${lessonId}...`)
   console.log(`Prompt length: ${prompt.length} chars`)
 
   try {
-    const res = await fetch(N8N_WEBHOOK, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ prompt })
-    })
-
-    if (!res.ok) {
-      console.error(`HTTP error: ${res.status}`)
-      return null
-    }
-
-    const data = await res.json()
-    return data.response?.trim() || null
+    return await complete(prompt)
   } catch (error) {
     console.error('Error:', error)
     return null
@@ -122,9 +62,10 @@ async function main() {
         create: {
           id: `${lessonId}-podcast`,
           lessonId: lessonId,
-          content: script
+          content: script,
+          promptVersion: templateVersion(podcastScriptPrompt)
         },
-        update: { content: script }
+        update: { content: script, promptVersion: templateVersion(podcastScriptPrompt) }
       })
       console.log(`✓ Saved to database`)
     } else {
@@ -1,24 +1,61 @@
 #!/usr/bin/env npx tsx
 /**
  * ClassMind - Knowledge Base Indexer
- * Indexes all existing content for RAG search
+ * Indexes all existing content for RAG search.
+ * Only sources whose content (or the embedding model) changed are
+ * re-embedded, and chunks whose source row was deleted or no longer
+ * qualifies for indexing (e.g. a transcript edited below 50 characters)
+ * are dropped.
  *
- * Usage: npx tsx scripts/index-knowledge.ts [--type transcript|slide|cornell|summary]
+ * Usage: npx tsx scripts/index-knowledge.ts [--type transcript|slide|cornell|summary|paper|all]
+ *                                           [--limit N] [--dry-run]
  */
 
 import { prisma } from '../lib/db'
-import { indexContent, getIndexStats } from '../lib/knowledge'
+import {
+  indexContent,
+  getIndexStats,
+  getIndexedSources,
+  planIndex,
+  deleteIndexedContent,
+  type IndexAction,
+  type IndexMetadata,
+} from '../lib/knowledge'
+import { paperCitation } from '../lib/papers'
+
+type SourceType = 'transcript' | 'slide' | 'cornell' | 'summary' | 'paper'
 
 interface IndexOptions {
-  type?: 'transcript' | 'slide' | 'cornell' | 'summary' | 'all'
+  type?: SourceType | 'all'
   limit?: number
+  dryRun?: boolean
 }
 
-async function indexTranscripts(limit?: number) {
-  console.log('\n📝 Indexing transcripts...')
+// Either the first `limit` rows, or only the rows with these ids
+interface LoadQuery {
+  limit?: number
+  ids?: string[]
+}
+
+interface IndexSource {
+  content: string
+  metadata: IndexMetadata
+}
 
+interface SyncTotals {
+  new: number
+  changed: number
+  unchanged: number
+  orphaned: number
+  failed: number
+}
+
+const byIds = (ids?: string[]) => (ids ? { id: { in: ids } } : {})
+
+async function loadTranscripts({ limit, ids }: LoadQuery): Promise<IndexSource[]> {
   const transcripts = await prisma.transcriptChunk.findMany({
     take: limit,
+    where: byIds(ids),
     include: {
       audioPart: {
         include: {
@@ -32,39 +69,31 @@ async function indexTranscripts(limit?: number) {
     },
   })
 
-  let indexed = 0
-  for (const t of transcripts) {
-    if (!t.text || t.text.length < 50) continue
-
-    const lesson = t.audioPart.lesson
-    const subject = lesson.subject
-
-    try {
-      await indexContent(t.text, {
-        sourceType: 'transcript',
-        sourceId: t.id,
-        lessonId: lesson.id,
-        subjectId: subject?.id,
-        programId: subject?.programId || undefined,
-        title: `${lesson.title} - ${t.audioPart.title}`,
-        tags: ['transcript', subject?.name || ''].filter(Boolean),
-      })
-      indexed++
-      process.stdout.write(`\r   Indexed ${indexed}/${transcripts.length} transcripts`)
-    } catch (error) {
-      console.error(`\n   ✗ Failed to index transcript ${t.id}:`, error)
-    }
-  }
-  console.log(`\n   ✓ Indexed ${indexed} transcripts`)
-  return indexed
+  return transcripts
+    .filter(t => t.text && t.text.length >= 50)
+    .map(t => {
+      const lesson = t.audioPart.lesson
+      const subject = lesson.subject
+      return {
+        content: t.text,
+        metadata: {
+          sourceType: 'transcript',
+          sourceId: t.id,
+          lessonId: lesson.id,
+          subjectId: subject?.id,
+          programId: subject?.programId || undefined,
+          title: `${lesson.title} - ${t.audioPart.title}`,
+          tags: ['transcript', subject?.name || ''].filter(Boolean),
+        },
+      }
+    })
 }
 
-async function indexSlides(limit?: number) {
-  console.log('\n🖼️  Indexing slide OCR...')
-
+async function loadSlides({ limit, ids }: LoadQuery): Promise<IndexSource[]> {
   const slides = await prisma.slide.findMany({
     take: limit,
     where: {
+      ...byIds(ids),
       ocrText: { not: null },
     },
     include: {
@@ -76,40 +105,32 @@ async function indexSlides(limit?: number) {
     },
   })
 
-  let indexed = 0
-  for (const s of slides) {
-    if (!s.ocrText || s.ocrText.length < 30) continue
-
-    const lesson = s.lesson
-    const subject = lesson.subject
-
-    try {
-      await indexContent(s.ocrText, {
-        sourceType: 'slide',
-        sourceId: s.id,
-        lessonId: lesson.id,
-        subjectId: subject?.id,
-        programId: subject?.programId || undefined,
-        title: `${lesson.title} - Slide ${s.order}`,
-        tags: ['slide', 'ocr', subject?.name || ''].filter(Boolean),
-      })
-      indexed++
-      process.stdout.write(`\r   Indexed ${indexed}/${slides.length} slides`)
-    } catch (error) {
-      console.error(`\n   ✗ Failed to index slide ${s.id}:`, error)
-    }
-  }
-  console.log(`\n   ✓ Indexed ${indexed} slides`)
-  return indexed
+  return slides
+    .filter(s => s.ocrText && s.ocrText.length >= 30)
+    .map(s => {
+      const lesson = s.lesson
+      const subject = lesson.subject
+      return {
+        content: s.ocrText!,
+        metadata: {
+          sourceType: 'slide',
+          sourceId: s.id,
+          lessonId: lesson.id,
+          subjectId: subject?.id,
+          programId: subject?.programId || undefined,
+          title: `${lesson.title} - Slide ${s.order}`,
+          tags: ['slide', 'ocr', subject?.name || ''].filter(Boolean),
+        },
+      }
+    })
 }
 
-async function indexCornellNotes(limit?: number) {
-  console.log('\n📒 Indexing Cornell notes...')
-
+async function loadCornellNotes({ limit, ids }: LoadQuery): Promise<IndexSource[]> {
   // Cornell notes are stored as Notes with special content
   const notes = await prisma.note.findMany({
     take: limit,
     where: {
+      ...byIds(ids),
       content: { startsWith: '# ' }, // Cornell notes start with markdown header
       slideId: null, // Cornell notes are lesson-level, not slide-specific
     },
@@ -122,38 +143,30 @@ async function indexCornellNotes(limit?: number) {
     },
   })
 
-  let indexed = 0
-  for (const n of notes) {
-    if (!n.content || n.content.length < 100) continue
-
-    const lesson = n.lesson
-    const subject = lesson.subject
-
-    try {
-      await indexContent(n.content, {
-        sourceType: 'cornell',
-        sourceId: n.id,
-        lessonId: lesson.id,
-        subjectId: subject?.id,
-        programId: subject?.programId || undefined,
-        title: `Cornell: ${lesson.title}`,
-        tags: ['cornell', 'notes', subject?.name || ''].filter(Boolean),
-      })
-      indexed++
-      process.stdout.write(`\r   Indexed ${indexed}/${notes.length} Cornell notes`)
-    } catch (error) {
-      console.error(`\n   ✗ Failed to index Cornell note ${n.id}:`, error)
-    }
-  }
-  console.log(`\n   ✓ Indexed ${indexed} Cornell notes`)
-  return indexed
+  return notes
+    .filter(n => n.content && n.content.length >= 100)
+    .map(n => {
+      const lesson = n.lesson
+      const subject = lesson.subject
+      return {
+        content: n.content,
+        metadata: {
+          sourceType: 'cornell',
+          sourceId: n.id,
+          lessonId: lesson.id,
+          subjectId: subject?.id,
+          programId: subject?.programId || undefined,
+          title: `Cornell: ${lesson.title}`,
+          tags: ['cornell', 'notes', subject?.name || ''].filter(Boolean),
+        },
+      }
+    })
 }
 
-async function indexSummaries(limit?: number) {
-  console.log('\n📋 Indexing summaries...')
-
+async function loadSummaries({ limit, ids }: LoadQuery): Promise<IndexSource[]> {
   const summaries = await prisma.summary.findMany({
     take: limit,
+    where: byIds(ids),
     include: {
       lesson: {
         include: {
@@ -163,34 +176,118 @@ async function indexSummaries(limit?: number) {
     },
   })
 
-  let indexed = 0
-  for (const s of summaries) {
-    if (!s.content || s.content.length < 50) continue
+  return summaries
+    .filter(s => s.content && s.content.length >= 50)
+    .map(s => {
+      const lesson = s.lesson
+      const subject = lesson.subject
+      return {
+        // Combine content with key points
+        content: `${s.content}\n\nPuntos clave:\n${s.keyPoints.map(p => `- ${p}`).join('\n')}`,
+        metadata: {
+          sourceType: 'summary',
+          sourceId: s.id,
+          lessonId: lesson.id,
+          subjectId: subject?.id,
+          programId: subject?.programId || undefined,
+          title: `Resumen: ${lesson.title}`,
+          tags: ['summary', 'resumen', subject?.name || ''].filter(Boolean),
+        },
+      }
+    })
+}
+
+async function loadPapers({ limit, ids }: LoadQuery): Promise<IndexSource[]> {
+  const papers = await prisma.paper.findMany({
+    take: limit,
+    where: { ...byIds(ids), fullText: { not: null } },
+  })
+
+  return papers
+    .filter(p => p.fullText && p.fullText.trim().length >= 50)
+    .map(p => ({
+      content: p.fullText!,
+      metadata: {
+        sourceType: 'paper',
+        sourceId: p.id,
+        title: `${paperCitation(p)} - ${p.title}`,
+        tags: ['paper', ...p.tags],
+      },
+    }))
+}
+
+type LoadSources = (query: LoadQuery) => Promise<IndexSource[]>
+
+const SOURCES: { type: SourceType; label: string; load: LoadSources }[] = [
+  { type: 'transcript', label: '📝 Transcripts', load: loadTranscripts },
+  { type: 'slide', label: '🖼️  Slide OCR', load: loadSlides },
+  { type: 'cornell', label: '📒 Cornell notes', load: loadCornellNotes },
+  { type: 'summary', label: '📋 Summaries', load: loadSummaries },
+  { type: 'paper', label: '📄 Papers', load: loadPapers },
+]
 
-    const lesson = s.lesson
-    const subject = lesson.subject
+type PendingAction = Exclude<IndexAction, 'unchanged'>
 
-    // Combine content with key points
-    const fullContent = `${s.content}\n\nPuntos clave:\n${s.keyPoints.map(p => `- ${p}`).join('\n')}`
+const ACTION_ICONS: Record<PendingAction, string> = {
+  new: '➕',
+  changed: '✏️ ',
+}
 
+async function syncSources(
+  type: SourceType,
+  load: LoadSources,
+  sources: IndexSource[],
+  dryRun: boolean
+): Promise<SyncTotals> {
+  const totals: SyncTotals = { new: 0, changed: 0, unchanged: 0, orphaned: 0, failed: 0 }
+  const indexed = await getIndexedSources(type)
+
+  // Diff against what is indexed
+  const pending: { source: IndexSource; action: PendingAction }[] = []
+  for (const source of sources) {
+    const action = planIndex(source.content, type, indexed.get(source.metadata.sourceId))
+    totals[action]++
+    if (action !== 'unchanged') pending.push({ source, action })
+  }
+
+  // Indexed sources that were deleted or no longer pass the loader's filters.
+  // Loaded by id so that --limit does not make the rest look orphaned.
+  const indexedIds = Array.from(indexed.keys())
+  const eligible = new Set((await load({ ids: indexedIds })).map(s => s.metadata.sourceId))
+  const orphans = indexedIds.filter(id => !eligible.has(id))
+  totals.orphaned = orphans.length
+
+  console.log(`   ${totals.new} new, ${totals.changed} changed, ${totals.unchanged} unchanged, ${totals.orphaned} orphaned`)
+
+  if (dryRun) {
+    for (const { source, action } of pending) {
+      console.log(`   ${ACTION_ICONS[action]} ${source.metadata.title} (${source.metadata.sourceId})`)
+    }
+    for (const id of orphans) {
+      console.log(`   🗑️  ${type}/${id}`)
+    }
+    return totals
+  }
+
+  let done = 0
+  for (const { source } of pending) {
     try {
-      await indexContent(fullContent, {
-        sourceType: 'summary',
-        sourceId: s.id,
-        lessonId: lesson.id,
-        subjectId: subject?.id,
-        programId: subject?.programId || undefined,
-        title: `Resumen: ${lesson.title}`,
-        tags: ['summary', 'resumen', subject?.name || ''].filter(Boolean),
-      })
-      indexed++
-      process.stdout.write(`\r   Indexed ${indexed}/${summaries.length} summaries`)
+      await indexContent(source.content, source.metadata)
+      done++
+      process.stdout.write(`\r   Indexed ${done}/${pending.length}`)
     } catch (error) {
-      console.error(`\n   ✗ Failed to index summary ${s.id}:`, error)
+      totals.failed++
+      console.error(`\n   ✗ Failed to index ${type} ${source.metadata.sourceId}:`, error)
     }
   }
-  console.log(`\n   ✓ Indexed ${indexed} summaries`)
-  return indexed
+  if (pending.length > 0) console.log()
+
+  for (const id of orphans) {
+    await deleteIndexedContent(type, id)
+  }
+
+  console.log(`   ✓ Indexed ${done}, removed ${orphans.length} orphans`)
+  return totals
 }
 
 async function main() {
@@ -201,6 +298,7 @@ async function main() {
   const options: IndexOptions = {
     type: (typeIndex >= 0 ? args[typeIndex + 1] : 'cornell') as IndexOptions['type'],  // Default to cornell, not all
     limit: limitIndex >= 0 ? parseInt(args[limitIndex + 1]) : undefined,
+    dryRun: args.includes('--dry-run'),
   }
 
   console.log('============================================================')
@@ -208,33 +306,25 @@ async function main() {
   console.log('============================================================')
   console.log(`Type: ${options.type || 'all'}`)
   console.log(`Limit: ${options.limit || 'none'}`)
+  if (options.dryRun) console.log('Mode: DRY RUN (nothing is written)')
 
-  const totals: Record<string, number> = {}
+  const totals: Record<string, SyncTotals> = {}
 
   try {
-    if (options.type === 'all' || options.type === 'transcript') {
-      totals.transcripts = await indexTranscripts(options.limit)
-    }
-
-    if (options.type === 'all' || options.type === 'slide') {
-      totals.slides = await indexSlides(options.limit)
-    }
-
-    if (options.type === 'all' || options.type === 'cornell') {
-      totals.cornell = await indexCornellNotes(options.limit)
-    }
+    for (const { type, label, load } of SOURCES) {
+      if (options.type !== 'all' && options.type !== type) continue
 
-    if (options.type === 'all' || options.type === 'summary') {
-      totals.summaries = await indexSummaries(options.limit)
+      console.log(`\n${label}`)
+      const sources = await load({ limit: options.limit })
+      totals[type] = await syncSources(type, load, sources, !!options.dryRun)
     }
 
     // Print final stats
     console.log('\n============================================================')
-    console.log('Indexing Complete!')
+    console.log(options.dryRun ? 'Dry run complete' : 'Indexing Complete!')
     console.log('============================================================')
-    console.log('Indexed:')
-    Object.entries(totals).forEach(([type, count]) => {
-      console.log(`  ${type}: ${count}`)
+    Object.entries(totals).forEach(([type, t]) => {
+      console.log(`  ${type}: +${t.new} ~${t.changed} =${t.unchanged} -${t.orphaned}${t.failed ? ` (${t.failed} failed)` : ''}`)
     })
 
     const stats = await getIndexStats()
@@ -1,5 +1,6 @@
 import * as fs from 'fs'
 import { execSync } from 'child_process'
+import { getTranscriptionProvider } from '../lib/transcription'
 
 const TUNNEL_URL = 'https://months-iowa-wide-recently.trycloudflare.com'
 const STORAGE_PATH = '/Users/alexsolecarretero/Public/projects/CLASSMIND/storage/cpe/Primer-Parcial'
@@ -92,11 +93,13 @@ async function main() {
 
   let lastHealthCheck = Date.now()
   const HEALTH_CHECK_INTERVAL = 30000 // Every 30 seconds
+  // Only RunPod fetches audio through the tunnel
+  const needsTunnel = getTranscriptionProvider().needsPublicUrl
 
   while (true) {
     try {
       // Health check tunnel every 30 seconds
-      if (Date.now() - lastHealthCheck > HEALTH_CHECK_INTERVAL) {
+      if (needsTunnel && Date.now() - lastHealthCheck > HEALTH_CHECK_INTERVAL) {
         const isHealthy = await checkTunnelHealth()
         if (!isHealthy) {
           await restartTunnel()
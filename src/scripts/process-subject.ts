@@ -1,4 +1,6 @@
 import { prisma } from '../lib/db'
+import { getTranscriptionProvider, segmentWords, encodeWords, type TranscriptResult } from '../lib/transcription'
+import { getGlossaryCorrector, correctTranscript } from '../lib/glossary'
 import * as fs from 'fs'
 import * as path from 'path'
 import { exec } from 'child_process'
@@ -6,8 +8,6 @@ import { promisify } from 'util'
 
 const execAsync = promisify(exec)
 const STORAGE_PATH = path.join(process.cwd(), '..', 'storage')
-const RUNPOD_API_KEY = process.env.RUNPOD_API_KEY || ''
-const RUNPOD_ENDPOINT = 'https://api.runpod.ai/v2/zhixh7hqgrlu76'
 
 function slugify(text: string): string {
   return text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
@@ -28,33 +28,6 @@ async function extractSlides(pdfPath: string, outputDir: string): Promise<string
   }
 }
 
-async function submitTranscription(audioPath: string, tunnelUrl: string): Promise<string | null> {
-  const relativePath = path.relative(STORAGE_PATH, audioPath)
-  const audioUrl = `${tunnelUrl}/api/storage/${encodeURIComponent(relativePath).replace(/%2F/g, '/')}`
-  console.log(`  Submitting: ${path.basename(audioPath)}`)
-
-  const res = await fetch(`${RUNPOD_ENDPOINT}/run`, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${RUNPOD_API_KEY}`,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({
-      input: { audio: audioUrl, model: 'large-v3', transcription: 'plain_text', language: 'es', word_timestamps: true }
-    })
-  })
-  const data = await res.json()
-  if (data.id) console.log(`    Job ID: ${data.id}`)
-  return data.id || null
-}
-
-async function checkJob(jobId: string): Promise<any> {
-  const res = await fetch(`${RUNPOD_ENDPOINT}/status/${jobId}`, {
-    headers: { 'Authorization': `Bearer ${RUNPOD_API_KEY}` }
-  })
-  return res.json()
-}
-
 // Find all content folders (handles both flat and nested structures)
 function findContentFolders(topicPath: string): { folder: string; partName: string }[] {
   const items = fs.readdirSync(topicPath)
@@ -85,6 +58,7 @@ async function main() {
 
   if (!subjectFolder) {
     console.log('Usage: npx tsx scripts/process-subject.ts "<subject-folder>" [tunnel-url]')
+    console.log('  tunnel-url: public URL RunPod downloads audio from (TRANSCRIPTION_PROVIDER=runpod only)')
     console.log('\nAvailable subjects:')
     fs.readdirSync(STORAGE_PATH)
       .filter(f => f.startsWith('NHYD') && fs.statSync(path.join(STORAGE_PATH, f)).isDirectory())
@@ -211,54 +185,51 @@ async function main() {
   }
 
   // Transcription
-  if (tunnelUrl) {
-    console.log('\n[3/5] Transcribing...')
-    const jobs: { audioPath: string; jobId: string; lessonId: string; partIndex: number }[] = []
-
-    for (const audio of allAudioFiles) {
-      const transcriptPath = audio.path.replace('.mp3', '_transcript.json')
-      if (fs.existsSync(transcriptPath)) {
-        console.log(`  Skipping ${path.basename(audio.path)} (done)`)
-        continue
-      }
-      const jobId = await submitTranscription(audio.path, tunnelUrl)
-      if (jobId) jobs.push({ ...audio, audioPath: audio.path, jobId })
-      await new Promise(r => setTimeout(r, 500))
-    }
+  const provider = getTranscriptionProvider(undefined, { publicUrl: tunnelUrl })
+  if (!provider.needsPublicUrl || tunnelUrl) {
+    console.log(`\n[3/5] Transcribing (${provider.name})...`)
+    const pending = allAudioFiles.filter(audio => {
+      if (!fs.existsSync(audio.path.replace('.mp3', '_transcript.json'))) return true
+      console.log(`  Skipping ${path.basename(audio.path)} (done)`)
+      return false
+    })
 
-    if (jobs.length > 0) {
-      console.log(`\n  Waiting for ${jobs.length} jobs...`)
-      const completed: string[] = []
-      while (completed.length < jobs.length) {
-        for (const job of jobs) {
-          if (completed.includes(job.jobId)) continue
-          const status = await checkJob(job.jobId)
-          if (status.status === 'COMPLETED') {
-            fs.writeFileSync(job.audioPath.replace('.mp3', '_transcript.json'), JSON.stringify(status.output, null, 2))
-            console.log(`  ✓ ${path.basename(job.audioPath)}`)
-            completed.push(job.jobId)
-          } else if (status.status === 'FAILED') {
-            console.log(`  ✗ ${path.basename(job.audioPath)}`)
-            completed.push(job.jobId)
-          }
-        }
-        if (completed.length < jobs.length) {
-          console.log(`  ${completed.length}/${jobs.length} - waiting 30s...`)
-          await new Promise(r => setTimeout(r, 30000))
+    // Up to provider.concurrency files at a time
+    let next = 0
+    let completed = 0
+    const worker = async () => {
+      while (next < pending.length) {
+        const audio = pending[next++]
+        try {
+          const result = await provider.transcribe(audio.path)
+          fs.writeFileSync(audio.path.replace('.mp3', '_transcript.json'), JSON.stringify(result, null, 2))
+          console.log(`  ✓ ${path.basename(audio.path)} (${++completed}/${pending.length})`)
+        } catch (error) {
+          console.log(`  ✗ ${path.basename(audio.path)}: ${error instanceof Error ? error.message : error}`)
         }
       }
     }
+    await Promise.all(Array.from({ length: Math.min(provider.concurrency, pending.length) }, worker))
   } else {
     console.log('\n[3/5] Skipping transcription (no tunnel)')
   }
 
   // Import transcripts
   console.log('\n[4/5] Importing transcripts...')
+  // Applied on import, so the saved transcripts stay as the provider returned them
+  const corrector = await getGlossaryCorrector('nhyd')
   for (const audio of allAudioFiles) {
     const transcriptPath = audio.path.replace('.mp3', '_transcript.json')
     if (!fs.existsSync(transcriptPath)) continue
 
-    const transcript = JSON.parse(fs.readFileSync(transcriptPath, 'utf-8'))
+    let transcript: TranscriptResult = JSON.parse(fs.readFileSync(transcriptPath, 'utf-8'))
+    if (corrector && transcript.segments) {
+      const corrected = correctTranscript(transcript, corrector)
+      transcript = corrected.result
+      if (corrected.corrections.length > 0) {
+        console.log(`  📖 ${path.basename(audio.path)}: ${corrected.corrections.length} glossary corrections`)
+      }
+    }
     const segments = transcript.segments || []
     const audioPartId = `${audio.lessonId}-audio-${audio.partIndex}`
 
@@ -270,13 +241,21 @@ async function main() {
       })
     }
 
+    const words = segmentWords(segments)
+    await prisma.transcriptWords.deleteMany({ where: { audioPartId } })
+    if (words.length > 0) {
+      await prisma.transcriptWords.create({
+        data: { audioPartId, data: { ...encodeWords(words) }, wordCount: words.length }
+      })
+    }
+
     if (segments.length > 0) {
       await prisma.audioPart.update({
         where: { id: audioPartId },
         data: { duration: Math.ceil(segments[segments.length - 1].end) }
       })
     }
-    console.log(`  ${path.basename(audio.path)}: ${segments.length} segments`)
+    console.log(`  ${path.basename(audio.path)}: ${segments.length} segments, ${words.length} words`)
   }
 
   // Update status
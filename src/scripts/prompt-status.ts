@@ -0,0 +1,63 @@
+#!/usr/bin/env npx tsx
+/**
+ * ClassMind - Prompt Status
+ * Counts generated content per prompt version and flags what was made
+ * by an outdated template (or before versions were recorded)
+ *
+ * Usage: npx tsx scripts/prompt-status.ts
+ */
+
+import { prisma } from '../lib/db'
+import { isOutdatedTag, listPromptTemplates } from '../lib/prompts'
+
+type VersionCounts = { promptVersion: string | null; _count: { _all: number } }[]
+
+function report(model: string, groups: VersionCounts) {
+  console.log(`\n📄 ${model}`)
+  if (groups.length === 0) {
+    console.log('   (empty)')
+    return
+  }
+
+  for (const group of groups) {
+    const tag = group.promptVersion
+    const flag = !tag ? '⚪ unversioned' : isOutdatedTag(tag) ? '🟠 outdated' : '🟢 current'
+    console.log(`   ${(tag || '-').padEnd(30)} ${String(group._count._all).padStart(6)}  ${flag}`)
+  }
+}
+
+async function main() {
+  console.log('='.repeat(60))
+  console.log('CLASSMIND - Prompt Status')
+  console.log('='.repeat(60))
+
+  console.log('\nTemplates:')
+  for (const template of listPromptTemplates()) {
+    console.log(`   ${`${template.name}@${template.version}`.padEnd(30)} ${template.description}`)
+  }
+
+  const notes = await prisma.note.groupBy({ by: ['promptVersion'], _count: { _all: true } })
+  const summaries = await prisma.summary.groupBy({ by: ['promptVersion'], _count: { _all: true } })
+  const questions = await prisma.quizQuestion.groupBy({ by: ['promptVersion'], _count: { _all: true } })
+  const tutor = await prisma.tutorQuestion.groupBy({ by: ['promptVersion'], _count: { _all: true } })
+  const chat = await prisma.chatMessage.groupBy({
+    by: ['promptVersion'],
+    where: { role: 'assistant' },
+    _count: { _all: true },
+  })
+
+  report('Note', notes)
+  report('Summary', summaries)
+  report('QuizQuestion', questions)
+  report('TutorQuestion', tutor)
+  report('ChatMessage', chat)
+
+  console.log('\n' + '='.repeat(60))
+}
+
+main()
+  .catch(e => {
+    console.error('Error:', e)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())
@@ -1,6 +1,6 @@
 import { prisma } from '../lib/db'
-
-const N8N_WEBHOOK = 'http://localhost:5678/webhook/classmind-ai'
+import { complete } from '../lib/ai'
+import { renderPrompt, cornellCompactPrompt } from '../lib/prompts'
 
 async function generateForLesson(lessonId: string) {
   const lesson = await prisma.lesson.findFirst({
@@ -32,68 +32,28 @@ async function generateForLesson(lessonId: string) {
     .join(' ')
     .slice(0, 8000)
 
-  const prompt = `Genera CORNELL NOTES completo en español para esta lección universitaria:
-
-ASIGNATURA: ${lesson.subject.name}
-TEMA: ${lesson.title}
-
-DIAPOSITIVAS:
-${slidesContent}
-
-TRANSCRIPCIÓN:
-${transcriptContent}
-
-FORMATO REQUERIDO:
-# CORNELL NOTES: ${lesson.title}
-
-## 📋 INFORMACIÓN DE LA LECCIÓN
-
-## 📝 COLUMNA DE PREGUNTAS CLAVE
-(12-15 preguntas SIN respuestas)
-
-## 📖 NOTAS PRINCIPALES
-(Secciones numeradas con subtemas)
-
-## 🔑 CONCEPTOS Y DEFINICIONES CLAVE
-| Término | Definición |
-|---------|------------|
-
-## ⚡ RESUMEN
-(4-5 párrafos)
-
-## ✅ AUTOEVALUACIÓN
-(P1-P6 con respuestas)
-
-## 🔗 CONEXIONES
-
-Sé detallado y completo.`
+  const { prompt, promptVersion } = renderPrompt(cornellCompactPrompt, {
+    lessonTitle: lesson.title,
+    subjectName: lesson.subject.name,
+    slides: slidesContent,
+    transcript: transcriptContent,
+  })
 
   console.log(`Generating: ${lesson.subject.name} - ${lesson.title}`)
   console.log(`Prompt length: ${prompt.length} chars`)
 
   try {
-    const res = await fetch(N8N_WEBHOOK, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ prompt })
-    })
-
-    if (res.ok) {
-      const data = await res.json()
-      const content = data.response?.trim()
-      if (content && content.length > 1000) {
-        await prisma.note.upsert({
-          where: { id: `${lesson.id}-cornell-full` },
-          create: { id: `${lesson.id}-cornell-full`, lessonId: lesson.id, content },
-          update: { content }
-        })
-        console.log(`  ✓ Generated: ${content.length} chars`)
-        return true
-      }
-      console.log(`  ✗ Content too short: ${content?.length || 0}`)
-      return false
+    const content = await complete(prompt)
+    if (content.length > 1000) {
+      await prisma.note.upsert({
+        where: { id: `${lesson.id}-cornell-full` },
+        create: { id: `${lesson.id}-cornell-full`, lessonId: lesson.id, content, promptVersion },
+        update: { content, promptVersion }
+      })
+      console.log(`  ✓ Generated: ${content.length} chars`)
+      return true
     }
-    console.log(`  ✗ Request failed: ${res.status}`)
+    console.log(`  ✗ Content too short: ${content.length}`)
     return false
   } catch (e) {
     console.log(`  ✗ Error:`, e)
@@ -0,0 +1,105 @@
+#!/usr/bin/env npx tsx
+/**
+ * ClassMind - Processing Worker
+ * Claims PENDING processing jobs and runs the handler for each type
+ *
+ * Usage: npx tsx scripts/worker.ts [--once] [--type=TRANSCRIBE,OCR] [--poll=5000]
+ */
+
+import { prisma, ProcessingType } from '../lib/db'
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  heartbeatJob,
+  JOB_HEARTBEAT_MS,
+  requeueStaleJobs,
+  updateJobProgress,
+} from '../lib/jobs'
+import { JOB_HANDLERS } from '../lib/jobs/handlers'
+
+let stopping = false
+
+async function main() {
+  const getArg = (name: string) =>
+    process.argv.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1]
+
+  const once = process.argv.includes('--once')
+  const pollMs = parseInt(getArg('poll') || '5000')
+  const types = getArg('type')
+    ?.split(',')
+    .map(t => t.trim().toUpperCase())
+    .filter((t): t is ProcessingType => t in ProcessingType)
+
+  console.log('='.repeat(60))
+  console.log('CLASSMIND - Processing Worker')
+  console.log('='.repeat(60))
+  console.log(`Types: ${types?.length ? types.join(', ') : 'all'}`)
+  console.log(`Mode: ${once ? 'drain queue and exit' : `poll every ${pollMs}ms`}\n`)
+
+  const requeued = await requeueStaleJobs()
+  if (requeued > 0) {
+    console.log(`♻️  Requeued ${requeued} stale jobs\n`)
+  }
+
+  let processed = 0
+  let failed = 0
+
+  while (!stopping) {
+    const job = await claimNextJob(types)
+
+    if (!job) {
+      if (once) break
+      await new Promise(r => setTimeout(r, pollMs))
+      continue
+    }
+
+    const label = `${job.type} ${job.id}${job.lessonId ? ` (lesson ${job.lessonId})` : ''}`
+    console.log(`▶️  ${label} - attempt ${job.attempts}/${job.maxAttempts}`)
+    const started = Date.now()
+
+    // Keep the job alive for long steps that report no progress
+    const heartbeat = setInterval(() => {
+      heartbeatJob(job.id).catch(e => console.error('Failed to send job heartbeat:', e))
+    }, JOB_HEARTBEAT_MS)
+
+    try {
+      const result = await JOB_HANDLERS[job.type]({
+        job,
+        setProgress: progress => updateJobProgress(job.id, progress),
+      })
+      await completeJob(job, result)
+      processed++
+      console.log(`   ✓ Done in ${((Date.now() - started) / 1000).toFixed(1)}s`)
+    } catch (e) {
+      const outcome = await failJob(job, e)
+      failed++
+      console.log(`   ✗ ${e instanceof Error ? e.message : e}`)
+      if (outcome === 'retry') console.log('   ↻ Will retry')
+      else if (outcome === 'failed') console.log('   ✗ No attempts left, marked FAILED')
+      else console.log('   ⏹️  Cancelled')
+    } finally {
+      clearInterval(heartbeat)
+    }
+  }
+
+  console.log('\n' + '='.repeat(60))
+  console.log(`Worker stopped. Completed: ${processed}, Failed attempts: ${failed}`)
+  console.log('='.repeat(60))
+}
+
+// Finish the current job before exiting
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    if (stopping) process.exit(1)
+    console.log(`\n${signal} received, stopping after current job...`)
+    stopping = true
+  })
+}
+
+main()
+  .catch(e => {
+    console.error('Error:', e)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())